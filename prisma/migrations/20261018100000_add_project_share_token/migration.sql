@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "shareToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_shareToken_key" ON "Project"("shareToken");
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Message" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "role" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "content" TEXT NOT NULL DEFAULT '""',
+    "parts" TEXT,
+    "toolInvocations" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Message_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Message_projectId_position_key" ON "Message"("projectId", "position");
+
+-- MoveData: one row per element of each project's messages array, numbered
+-- in array order. System messages were never stored, but skip them regardless
+INSERT INTO "Message" ("id", "projectId", "messageId", "role", "position", "content", "parts", "toolInvocations", "createdAt")
+SELECT
+    lower(hex(randomblob(12))),
+    "Project"."id",
+    json_extract("message"."value", '$.id'),
+    json_extract("message"."value", '$.role'),
+    row_number() OVER (PARTITION BY "Project"."id" ORDER BY "message"."key") - 1,
+    CASE json_type("message"."value", '$.content')
+        WHEN 'text' THEN json_quote(json_extract("message"."value", '$.content'))
+        WHEN 'array' THEN json_extract("message"."value", '$.content')
+        ELSE '""'
+    END,
+    json_extract("message"."value", '$.parts'),
+    json_extract("message"."value", '$.toolInvocations'),
+    "Project"."updatedAt"
+FROM "Project", json_each("Project"."messages") AS "message"
+WHERE json_valid("Project"."messages")
+    AND json_extract("message"."value", '$.role') IS NOT 'system';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "userId" TEXT,
+    "data" TEXT NOT NULL DEFAULT '{}',
+    "shareToken" TEXT,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Project" ("createdAt", "data", "deletedAt", "id", "name", "shareToken", "updatedAt", "userId") SELECT "createdAt", "data", "deletedAt", "id", "name", "shareToken", "updatedAt", "userId" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE UNIQUE INDEX "Project_shareToken_key" ON "Project"("shareToken");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "ProjectFile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "content" TEXT NOT NULL DEFAULT '',
+    "contentHash" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ProjectFile_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectFile_projectId_path_key" ON "ProjectFile"("projectId", "path");
+
+-- CreateIndex
+CREATE INDEX "ProjectFile_path_idx" ON "ProjectFile"("path");
+
+-- MoveData: one row per file node in each project's data object. SQLite
+-- can't compute SHA-256, so hashes start empty and each file is rewritten
+-- with its real hash the first time the project is saved
+INSERT INTO "ProjectFile" ("id", "projectId", "path", "content", "contentHash", "updatedAt")
+SELECT
+    lower(hex(randomblob(12))),
+    "Project"."id",
+    json_extract("node"."value", '$.path'),
+    coalesce(json_extract("node"."value", '$.content'), ''),
+    '',
+    "Project"."updatedAt"
+FROM "Project", json_each("Project"."data") AS "node"
+WHERE json_valid("Project"."data")
+    AND json_extract("node"."value", '$.type') = 'file'
+    AND json_extract("node"."value", '$.path') IS NOT NULL;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "userId" TEXT,
+    "shareToken" TEXT,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Project" ("createdAt", "deletedAt", "id", "name", "shareToken", "updatedAt", "userId") SELECT "createdAt", "deletedAt", "id", "name", "shareToken", "updatedAt", "userId" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE UNIQUE INDEX "Project_shareToken_key" ON "Project"("shareToken");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
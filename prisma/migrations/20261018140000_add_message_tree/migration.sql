@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "activeMessageId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "parentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ProjectVersion" ADD COLUMN "lastMessageId" TEXT;
+
+-- DropIndex
+DROP INDEX "Message_projectId_position_key";
+
+-- CreateIndex
+CREATE INDEX "Message_projectId_position_idx" ON "Message"("projectId", "position");
+
+-- CreateIndex
+CREATE INDEX "Message_parentId_idx" ON "Message"("parentId");
+
+-- CreateIndex
+CREATE INDEX "ProjectVersion_lastMessageId_idx" ON "ProjectVersion"("lastMessageId");
+
+-- MoveData: existing histories are linear, so each message's parent is the
+-- one before it and every project is on its only branch
+UPDATE "Message" SET "parentId" = (
+    SELECT "previous"."id" FROM "Message" AS "previous"
+    WHERE "previous"."projectId" = "Message"."projectId"
+        AND "previous"."position" = "Message"."position" - 1
+);
+
+UPDATE "Project" SET "activeMessageId" = (
+    SELECT "id" FROM "Message"
+    WHERE "Message"."projectId" = "Project"."id"
+    ORDER BY "position" DESC
+    LIMIT 1
+);
+
+-- Versions were taken after the turn ending at message messageIndex - 1
+UPDATE "ProjectVersion" SET "lastMessageId" = (
+    SELECT "id" FROM "Message"
+    WHERE "Message"."projectId" = "ProjectVersion"."projectId"
+        AND "Message"."position" = "ProjectVersion"."messageIndex" - 1
+);
@@ -2,6 +2,7 @@
  * @vitest-environment node
  */
 import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { hashContent } from "@/lib/project-files";
 
 vi.mock("server-only", () => ({}));
 
@@ -63,7 +64,6 @@ describe("createProject", () => {
       name: "Test Project",
       userId: "user-123",
       messages: "[]",
-      data: "{}",
       createdAt: now,
       updatedAt: now,
     });
@@ -80,8 +80,9 @@ describe("createProject", () => {
       data: {
         name: "Test Project",
         userId: "user-123",
-        messages: "[]",
-        data: "{}",
+        activeMessageId: null,
+        messages: { create: [] },
+        files: { create: [] },
       },
     });
     expect(result.id).toBe("project-123");
@@ -96,8 +97,6 @@ describe("createProject", () => {
       id: "project-123",
       name: "My Design",
       userId: "user-123",
-      messages: "serialized",
-      data: "serialized",
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -122,17 +121,44 @@ describe("createProject", () => {
       data: { "/App.jsx": "code" },
     });
 
+    const rows = mockPrisma.project.create.mock.calls[0][0].data.messages.create;
     expect(mockPrisma.project.create).toHaveBeenCalledWith({
       data: {
         name: "My Design",
         userId: "user-123",
-        messages: JSON.stringify(messages),
-        data: JSON.stringify({ "/App.jsx": "code" }),
+        activeMessageId: rows[1].id,
+        messages: {
+          create: [
+            {
+              id: expect.any(String),
+              parentId: null,
+              messageId: "msg-1",
+              role: "user",
+              position: 0,
+              content: JSON.stringify("Create a button"),
+              parts: null,
+              toolInvocations: null,
+              attachments: null,
+            },
+            {
+              id: expect.any(String),
+              parentId: rows[0].id,
+              messageId: "msg-2",
+              role: "assistant",
+              position: 1,
+              content: JSON.stringify("Creating button..."),
+              parts: null,
+              toolInvocations: JSON.stringify(messages[1].toolInvocations),
+              attachments: null,
+            },
+          ],
+        },
+        files: { create: [] },
       },
     });
   });
 
-  test("serializes complex file system data correctly", async () => {
+  test("stores one row per file in the file system data", async () => {
     mockGetSession.mockResolvedValue({
       userId: "user-123",
       email: "test@example.com",
@@ -142,7 +168,6 @@ describe("createProject", () => {
       name: "Project",
       userId: "user-123",
       messages: "[]",
-      data: "{}",
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -172,9 +197,24 @@ describe("createProject", () => {
       data: fileSystemData,
     });
 
+    const appContent = fileSystemData["/App.jsx"].content;
+    const buttonContent = fileSystemData["/components/Button.jsx"].content;
     expect(mockPrisma.project.create).toHaveBeenCalledWith({
       data: expect.objectContaining({
-        data: JSON.stringify(fileSystemData),
+        files: {
+          create: [
+            {
+              path: "/App.jsx",
+              content: appContent,
+              contentHash: hashContent(appContent),
+            },
+            {
+              path: "/components/Button.jsx",
+              content: buttonContent,
+              contentHash: hashContent(buttonContent),
+            },
+          ],
+        },
       }),
     });
   });
@@ -191,7 +231,6 @@ describe("createProject", () => {
       name: "New Project",
       userId: "user-123",
       messages: "[]",
-      data: "{}",
       createdAt: now,
       updatedAt: now,
     };
@@ -0,0 +1,289 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { hashContent } from "@/lib/project-files";
+
+vi.mock("server-only", () => ({}));
+
+const messages = [
+  { messageId: "user-1", role: "user", content: '"Make a button"' },
+  { messageId: "assistant-1", role: "assistant", content: '"Creating it"' },
+  { messageId: null, role: "tool", content: "[]" },
+  { messageId: "user-2", role: "user", content: '"Make it red"' },
+  { messageId: "assistant-2", role: "assistant", content: '"Done"' },
+].map((message, position) => ({
+  id: `row-${position}`,
+  parentId: position > 0 ? `row-${position - 1}` : null,
+  projectId: "project-123",
+  position,
+  parts: null,
+  toolInvocations: null,
+  attachments: null,
+  createdAt: new Date(),
+  ...message,
+}));
+
+// An earlier answer to the second prompt, replaced by regenerating it
+const abandoned = {
+  ...messages[4],
+  id: "row-abandoned",
+  messageId: "assistant-old",
+  createdAt: new Date(0),
+};
+
+// Copies keep everything but the row's ids, project and timestamp
+function copiedRows(count: number) {
+  return messages
+    .slice(0, count)
+    .map(
+      ({
+        messageId,
+        role,
+        position,
+        content,
+        parts,
+        toolInvocations,
+        attachments,
+      }) => ({
+        id: expect.any(String),
+        parentId: position > 0 ? expect.any(String) : null,
+        messageId,
+        role,
+        position,
+        content,
+        parts,
+        toolInvocations,
+        attachments,
+      })
+    );
+}
+
+function expectChained(rows: Array<{ id: string; parentId: string | null }>) {
+  rows.slice(1).forEach((row, i) => expect(row.parentId).toBe(rows[i].id));
+  expect(rows.map((row) => row.id)).not.toContain("row-0");
+}
+
+const firstTurnData = JSON.stringify({
+  "/App.jsx": {
+    type: "file",
+    name: "App.jsx",
+    path: "/App.jsx",
+    content: "blue",
+  },
+});
+const currentFiles = [
+  {
+    path: "/App.jsx",
+    content: "red, edited",
+    contentHash: hashContent("red, edited"),
+  },
+];
+
+describe("duplicateProject", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+      create: ReturnType<typeof vi.fn>;
+    };
+    projectVersion: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+    message: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn(),
+        create: vi.fn((args) => ({ id: "copy-123", ...args.data })),
+      },
+      projectVersion: {
+        findMany: vi.fn(),
+      },
+      message: {
+        // The whole tree when selecting node fields, else rows by id
+        findMany: vi.fn(async (args) =>
+          args.select
+            ? [...messages, abandoned]
+            : messages.filter((message) => args.where.id.in.includes(message.id))
+        ),
+      },
+    };
+
+    mockGetSession = vi.fn();
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function signIn() {
+    mockGetSession.mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+    mockPrisma.project.findUnique.mockResolvedValue({
+      id: "project-123",
+      name: "Buttons",
+      userId: "user-123",
+      model: "anthropic:claude-sonnet-4-5",
+      activeMessageId: "row-4",
+      files: currentFiles.map((file) => ({
+        id: `file-${file.path}`,
+        projectId: "project-123",
+        updatedAt: new Date(),
+        ...file,
+      })),
+    });
+  }
+
+  test("throws error when user is not authenticated", async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    const { duplicateProject } = await import("@/actions/duplicate-project");
+
+    await expect(duplicateProject("project-123")).rejects.toThrow(
+      "Unauthorized"
+    );
+  });
+
+  test("throws error when project belongs to another user or is in the trash", async () => {
+    mockGetSession.mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+    mockPrisma.project.findUnique.mockResolvedValue(null);
+
+    const { duplicateProject } = await import("@/actions/duplicate-project");
+
+    await expect(duplicateProject("project-123")).rejects.toThrow(
+      "Project not found"
+    );
+    expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123", deletedAt: null },
+      include: { files: true },
+    });
+    expect(mockPrisma.project.create).not.toHaveBeenCalled();
+  });
+
+  test("copies messages, current files and versions under a new name", async () => {
+    signIn();
+    const createdAt = new Date("2026-01-01");
+    mockPrisma.projectVersion.findMany.mockResolvedValue([
+      { messageIndex: 3, lastMessageId: "row-2", data: firstTurnData, createdAt },
+    ]);
+
+    const { duplicateProject } = await import("@/actions/duplicate-project");
+
+    const copy = await duplicateProject("project-123");
+
+    expect(copy.id).toBe("copy-123");
+    expect(mockPrisma.message.findMany).toHaveBeenLastCalledWith({
+      where: {
+        id: { in: ["row-0", "row-1", "row-2", "row-3", "row-4"] },
+      },
+      orderBy: { position: "asc" },
+    });
+    expect(mockPrisma.projectVersion.findMany).toHaveBeenCalledWith({
+      where: {
+        projectId: "project-123",
+        lastMessageId: { in: ["row-0", "row-1", "row-2", "row-3", "row-4"] },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    const { data } = mockPrisma.project.create.mock.calls[0][0];
+    const created = data.messages.create;
+    expect(data).toEqual({
+      name: "Buttons (copy)",
+      userId: "user-123",
+      model: "anthropic:claude-sonnet-4-5",
+      activeMessageId: created[4].id,
+      messages: { create: copiedRows(5) },
+      files: { create: currentFiles },
+      versions: {
+        create: [
+          {
+            messageIndex: 3,
+            lastMessageId: created[2].id,
+            data: firstTurnData,
+            createdAt,
+          },
+        ],
+      },
+    });
+    expectChained(created);
+  });
+
+  test("forks through the end of the message's turn with the files then", async () => {
+    signIn();
+    mockPrisma.projectVersion.findMany.mockResolvedValue([
+      {
+        messageIndex: 3,
+        lastMessageId: "row-2",
+        data: firstTurnData,
+        createdAt: new Date(),
+      },
+    ]);
+
+    const { duplicateProject } = await import("@/actions/duplicate-project");
+
+    await duplicateProject("project-123", {
+      name: "Blue buttons",
+      throughMessageId: "user-1",
+    });
+
+    expect(mockPrisma.projectVersion.findMany).toHaveBeenCalledWith({
+      where: {
+        projectId: "project-123",
+        lastMessageId: { in: ["row-0", "row-1", "row-2"] },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    const { data } = mockPrisma.project.create.mock.calls[0][0];
+    expect(data.name).toBe("Blue buttons");
+    expect(data.messages.create).toEqual(copiedRows(3));
+    expect(data.activeMessageId).toBe(data.messages.create[2].id);
+    expectChained(data.messages.create);
+    expect(data.files.create).toEqual([
+      { path: "/App.jsx", content: "blue", contentHash: hashContent("blue") },
+    ]);
+  });
+
+  test("refuses to fork when no version was recorded for the turn", async () => {
+    signIn();
+    mockPrisma.projectVersion.findMany.mockResolvedValue([]);
+
+    const { duplicateProject } = await import("@/actions/duplicate-project");
+
+    await expect(
+      duplicateProject("project-123", { throughMessageId: "assistant-1" })
+    ).rejects.toThrow("No saved files for that message");
+    expect(mockPrisma.project.create).not.toHaveBeenCalled();
+  });
+
+  test("throws error when the message is not in the project", async () => {
+    signIn();
+
+    const { duplicateProject } = await import("@/actions/duplicate-project");
+
+    await expect(
+      duplicateProject("project-123", { throughMessageId: "missing" })
+    ).rejects.toThrow("Message not found");
+    expect(mockPrisma.project.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+const snapshot = {
+  "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content: "blue" },
+};
+
+// The first prompt, its answer, then the second prompt
+const nodes = [
+  { messageId: "user-1", role: "user" },
+  { messageId: "assistant-1", role: "assistant" },
+  { messageId: "user-2", role: "user" },
+].map((node, i) => ({
+  id: `row-${i}`,
+  parentId: i > 0 ? `row-${i - 1}` : null,
+  createdAt: new Date(2026, 0, 1, 0, i),
+  ...node,
+}));
+
+describe("getMessageFiles", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+    };
+    message: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+    projectVersion: {
+      findFirst: ReturnType<typeof vi.fn>;
+    };
+    projectFile: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn().mockResolvedValue({ activeMessageId: "row-2" }),
+      },
+      message: {
+        findMany: vi.fn().mockResolvedValue(nodes),
+      },
+      projectVersion: {
+        findFirst: vi.fn(),
+      },
+      projectFile: {
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+    };
+
+    mockGetSession = vi.fn().mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("throws error when user is not authenticated", async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    const { getMessageFiles } = await import("@/actions/get-message-files");
+
+    await expect(getMessageFiles("project-123", "user-2")).rejects.toThrow(
+      "Unauthorized"
+    );
+  });
+
+  test("throws error when the project isn't the user's", async () => {
+    mockPrisma.project.findUnique.mockResolvedValue(null);
+
+    const { getMessageFiles } = await import("@/actions/get-message-files");
+
+    await expect(getMessageFiles("project-123", "user-2")).rejects.toThrow(
+      "Project not found"
+    );
+    expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123", deletedAt: null },
+      select: { activeMessageId: true },
+    });
+  });
+
+  test("throws error when the message isn't on the active branch", async () => {
+    const { getMessageFiles } = await import("@/actions/get-message-files");
+
+    await expect(getMessageFiles("project-123", "user-3")).rejects.toThrow(
+      "Message not found"
+    );
+  });
+
+  test("returns the snapshot of the last turn before the message", async () => {
+    mockPrisma.projectVersion.findFirst.mockResolvedValue({
+      messageIndex: 3,
+      data: JSON.stringify(snapshot),
+    });
+
+    const { getMessageFiles } = await import("@/actions/get-message-files");
+
+    const files = await getMessageFiles("project-123", "user-2");
+
+    expect(mockPrisma.projectVersion.findFirst).toHaveBeenCalledWith({
+      where: {
+        projectId: "project-123",
+        lastMessageId: { in: ["row-0", "row-1"] },
+      },
+      orderBy: [{ messageIndex: "desc" }, { createdAt: "desc" }],
+    });
+    expect(files).toEqual(snapshot);
+    expect(mockPrisma.projectFile.findMany).not.toHaveBeenCalled();
+  });
+
+  test("returns the project's files when no turn came before", async () => {
+    mockPrisma.projectVersion.findFirst.mockResolvedValue(null);
+    mockPrisma.projectFile.findMany.mockResolvedValue([
+      { path: "/App.jsx", content: "blue" },
+    ]);
+
+    const { getMessageFiles } = await import("@/actions/get-message-files");
+
+    const files = await getMessageFiles("project-123", "user-1");
+
+    expect(mockPrisma.projectFile.findMany).toHaveBeenCalledWith({
+      where: { projectId: "project-123" },
+      select: { path: true, content: true },
+    });
+    expect(files).toEqual({
+      "/": { type: "directory", name: "", path: "/" },
+      ...snapshot,
+    });
+  });
+});
@@ -5,13 +5,43 @@ import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
 
 vi.mock("server-only", () => ({}));
 
+// Message rows for a chat without branches, each the parent of the next
+function messageRows(messages: Array<Record<string, unknown>>) {
+  return messages.map((message, position) => ({
+    id: `row-${position}`,
+    parentId: position > 0 ? `row-${position - 1}` : null,
+    messageId: message.id ?? null,
+    role: message.role,
+    position,
+    content: JSON.stringify(message.content),
+    parts: null,
+    toolInvocations: null,
+    attachments: null,
+    createdAt: new Date(2026, 0, 1, 0, position),
+  }));
+}
+
 describe("getProject", () => {
   let mockPrisma: {
     project: {
       findUnique: ReturnType<typeof vi.fn>;
     };
+    message: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
   };
 
+  // The whole tree when selecting node fields, else the rows asked for
+  function storeMessages(rows: Array<Record<string, any>>) {
+    mockPrisma.message.findMany.mockImplementation(async (args) =>
+      args.select
+        ? rows
+        : rows
+            .filter((row) => args.where.id.in.includes(row.id))
+            .sort((a, b) => a.position - b.position)
+    );
+  }
+
   let mockGetSession: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
@@ -21,6 +51,9 @@ describe("getProject", () => {
       project: {
         findUnique: vi.fn(),
       },
+      message: {
+        findMany: vi.fn().mockResolvedValue([]),
+      },
     };
 
     mockGetSession = vi.fn();
@@ -79,30 +112,34 @@ describe("getProject", () => {
       where: {
         id: "project-456",
         userId: "user-123",
+        deletedAt: null,
+      },
+      include: {
+        files: true,
       },
     });
   });
 
-  test("returns project with deserialized messages and data", async () => {
+  test("returns project with deserialized messages and files", async () => {
     const now = new Date();
     const messages = [
       { id: "msg-1", role: "user", content: "Hello" },
       { id: "msg-2", role: "assistant", content: "Hi there" },
     ];
-    const data = {
-      "/App.jsx": { type: "file", content: "code" },
-    };
 
     mockGetSession.mockResolvedValue({
       userId: "user-123",
       email: "test@example.com",
     });
+    storeMessages(messageRows(messages));
     mockPrisma.project.findUnique.mockResolvedValue({
       id: "project-123",
       name: "My Project",
       userId: "user-123",
-      messages: JSON.stringify(messages),
-      data: JSON.stringify(data),
+      activeMessageId: "row-1",
+      files: [{ path: "/App.jsx", content: "code" }],
+      shareToken: "share-token",
+      model: "anthropic:claude-sonnet-4-5",
       createdAt: now,
       updatedAt: now,
     });
@@ -115,13 +152,25 @@ describe("getProject", () => {
       id: "project-123",
       name: "My Project",
       messages,
-      data,
+      olderMessageCount: 0,
+      branches: {},
+      data: {
+        "/": { type: "directory", name: "", path: "/" },
+        "/App.jsx": {
+          type: "file",
+          name: "App.jsx",
+          path: "/App.jsx",
+          content: "code",
+        },
+      },
+      shareToken: "share-token",
+      model: "anthropic:claude-sonnet-4-5",
       createdAt: now,
       updatedAt: now,
     });
   });
 
-  test("correctly parses empty messages and data", async () => {
+  test("correctly returns empty messages and files", async () => {
     const now = new Date();
     mockGetSession.mockResolvedValue({
       userId: "user-123",
@@ -131,8 +180,8 @@ describe("getProject", () => {
       id: "project-123",
       name: "Empty Project",
       userId: "user-123",
-      messages: "[]",
-      data: "{}",
+      activeMessageId: null,
+      files: [],
       createdAt: now,
       updatedAt: now,
     });
@@ -142,13 +191,15 @@ describe("getProject", () => {
     const result = await getProject("project-123");
 
     expect(result.messages).toEqual([]);
-    expect(result.data).toEqual({});
+    expect(result.data).toEqual({
+      "/": { type: "directory", name: "", path: "/" },
+    });
   });
 
-  test("returns project with complex nested data", async () => {
+  test("rebuilds the directories the file paths pass through", async () => {
     const now = new Date();
     const complexData = {
-      "/": { type: "directory", name: "/", path: "/" },
+      "/": { type: "directory", name: "", path: "/" },
       "/components": { type: "directory", name: "components", path: "/components" },
       "/components/Button.tsx": {
         type: "file",
@@ -166,8 +217,13 @@ describe("getProject", () => {
       id: "project-123",
       name: "Complex Project",
       userId: "user-123",
-      messages: "[]",
-      data: JSON.stringify(complexData),
+      activeMessageId: null,
+      files: [
+        {
+          path: "/components/Button.tsx",
+          content: complexData["/components/Button.tsx"].content,
+        },
+      ],
       createdAt: now,
       updatedAt: now,
     });
@@ -180,6 +236,84 @@ describe("getProject", () => {
     expect(result.data["/components/Button.tsx"].content).toContain("Button");
   });
 
+  test("loads only the most recent messages and counts the older ones", async () => {
+    const now = new Date();
+    const messages = Array.from({ length: 5 }, (_, i) => ({
+      id: `msg-${i}`,
+      role: i % 2 === 0 ? "user" : "assistant",
+      content: `Message ${i}`,
+    }));
+
+    mockGetSession.mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+    storeMessages(messageRows(messages));
+    mockPrisma.project.findUnique.mockResolvedValue({
+      id: "project-123",
+      name: "Long Chat",
+      userId: "user-123",
+      activeMessageId: "row-4",
+      files: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const { getProject } = await import("@/actions/get-project");
+
+    const result = await getProject("project-123", { messageLimit: 2 });
+
+    expect(mockPrisma.message.findMany).toHaveBeenLastCalledWith({
+      where: { id: { in: ["row-3", "row-4"] } },
+      orderBy: { position: "asc" },
+    });
+    expect(result.messages).toEqual(messages.slice(3));
+    expect(result.olderMessageCount).toBe(3);
+  });
+
+  test("loads the active branch and reports edited messages", async () => {
+    const now = new Date();
+    const rows = messageRows([
+      { id: "msg-1", role: "user", content: "Make a button" },
+      { id: "msg-2", role: "assistant", content: "A blue button" },
+    ]);
+    // The prompt edited and answered again
+    const edited = messageRows([
+      { id: "msg-1", role: "user", content: "Make a red button" },
+      { id: "msg-3", role: "assistant", content: "A red button" },
+    ]).map((row, i) => ({
+      ...row,
+      id: `edited-${i}`,
+      parentId: i > 0 ? "edited-0" : null,
+      createdAt: new Date(2026, 0, 2, 0, i),
+    }));
+
+    mockGetSession.mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+    storeMessages([...rows, ...edited]);
+    mockPrisma.project.findUnique.mockResolvedValue({
+      id: "project-123",
+      name: "Buttons",
+      userId: "user-123",
+      activeMessageId: "edited-1",
+      files: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const { getProject } = await import("@/actions/get-project");
+
+    const result = await getProject("project-123");
+
+    expect(result.messages).toEqual([
+      { id: "msg-1", role: "user", content: "Make a red button" },
+      { id: "msg-3", role: "assistant", content: "A red button" },
+    ]);
+    expect(result.branches).toEqual({ "msg-1": { index: 1, count: 2 } });
+  });
+
   test("prevents access to other user's projects", async () => {
     // User is authenticated as user-123
     mockGetSession.mockResolvedValue({
@@ -106,6 +106,7 @@ describe("getProjects", () => {
     expect(mockPrisma.project.findMany).toHaveBeenCalledWith({
       where: {
         userId: "user-123",
+        deletedAt: null,
       },
       orderBy: {
         updatedAt: "desc",
@@ -198,6 +199,7 @@ describe("getProjects", () => {
       expect.objectContaining({
         where: {
           userId: "user-123",
+          deletedAt: null,
         },
       })
     );
@@ -0,0 +1,230 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+describe("project sharing", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn(),
+        update: vi.fn(),
+      },
+    };
+
+    mockGetSession = vi.fn();
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("shareProject", () => {
+    test("throws error when user is not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const { shareProject } = await import("@/actions/share-project");
+
+      await expect(shareProject("project-123")).rejects.toThrow(
+        "Unauthorized"
+      );
+    });
+
+    test("throws error when project belongs to another user", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { shareProject } = await import("@/actions/share-project");
+
+      await expect(shareProject("project-123")).rejects.toThrow(
+        "Project not found"
+      );
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+      });
+    });
+
+    test("returns the existing token without changing it", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.project.findUnique.mockResolvedValue({
+        id: "project-123",
+        shareToken: "existing-token",
+      });
+
+      const { shareProject } = await import("@/actions/share-project");
+
+      expect(await shareProject("project-123")).toBe("existing-token");
+      expect(mockPrisma.project.update).not.toHaveBeenCalled();
+    });
+
+    test("creates a token for a project that isn't shared", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.project.findUnique.mockResolvedValue({
+        id: "project-123",
+        shareToken: null,
+      });
+
+      const { shareProject } = await import("@/actions/share-project");
+
+      const token = await shareProject("project-123");
+
+      expect(token).toMatch(/^[\w-]{32}$/);
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+        data: { shareToken: token },
+      });
+    });
+
+    test("rotating replaces the existing token", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.project.findUnique.mockResolvedValue({
+        id: "project-123",
+        shareToken: "existing-token",
+      });
+
+      const { shareProject } = await import("@/actions/share-project");
+
+      const token = await shareProject("project-123", { rotate: true });
+
+      expect(token).not.toBe("existing-token");
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+        data: { shareToken: token },
+      });
+    });
+  });
+
+  describe("revokeProjectShare", () => {
+    test("throws error when user is not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const { revokeProjectShare } = await import(
+        "@/actions/revoke-project-share"
+      );
+
+      await expect(revokeProjectShare("project-123")).rejects.toThrow(
+        "Unauthorized"
+      );
+      expect(mockPrisma.project.update).not.toHaveBeenCalled();
+    });
+
+    test("throws error when the project is missing or in the trash", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { revokeProjectShare } = await import(
+        "@/actions/revoke-project-share"
+      );
+
+      await expect(revokeProjectShare("project-123")).rejects.toThrow(
+        "Project not found"
+      );
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+      });
+      expect(mockPrisma.project.update).not.toHaveBeenCalled();
+    });
+
+    test("clears the token on the user's project", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.project.findUnique.mockResolvedValue({
+        id: "project-123",
+        shareToken: "share-token",
+      });
+
+      const { revokeProjectShare } = await import(
+        "@/actions/revoke-project-share"
+      );
+
+      await revokeProjectShare("project-123");
+
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+        data: { shareToken: null },
+      });
+    });
+  });
+
+  describe("getSharedProject", () => {
+    test("returns only the name and files without a session", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue({
+        name: "Shared Design",
+        files: [{ path: "/App.jsx", content: "app" }],
+      });
+
+      const { getSharedProject } = await import("@/actions/get-shared-project");
+
+      const result = await getSharedProject("share-token");
+
+      expect(result).toEqual({
+        name: "Shared Design",
+        data: {
+          "/": { type: "directory", name: "", path: "/" },
+          "/App.jsx": {
+            type: "file",
+            name: "App.jsx",
+            path: "/App.jsx",
+            content: "app",
+          },
+        },
+      });
+      expect(mockGetSession).not.toHaveBeenCalled();
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+        where: { shareToken: "share-token", deletedAt: null },
+        select: {
+          name: true,
+          files: { select: { path: true, content: true } },
+        },
+      });
+    });
+
+    test("returns null for unknown or empty tokens", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { getSharedProject } = await import("@/actions/get-shared-project");
+
+      expect(await getSharedProject("revoked-token")).toBeNull();
+      expect(await getSharedProject("")).toBeNull();
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+describe("project management", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+      findMany: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+      delete: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn(),
+        findMany: vi.fn(),
+        update: vi.fn(),
+        delete: vi.fn(),
+      },
+    };
+
+    mockGetSession = vi.fn().mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("renameProject", () => {
+    test("throws error when user is not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const { renameProject } = await import("@/actions/rename-project");
+
+      await expect(renameProject("project-123", "New")).rejects.toThrow(
+        "Unauthorized"
+      );
+    });
+
+    test("rejects blank and overly long names", async () => {
+      const { renameProject } = await import("@/actions/rename-project");
+
+      await expect(renameProject("project-123", "   ")).rejects.toThrow(
+        "Project name is required"
+      );
+      await expect(
+        renameProject("project-123", "x".repeat(101))
+      ).rejects.toThrow("Project name must be at most 100 characters");
+      expect(mockPrisma.project.update).not.toHaveBeenCalled();
+    });
+
+    test("throws error for trashed or foreign projects", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { renameProject } = await import("@/actions/rename-project");
+
+      await expect(renameProject("project-123", "New")).rejects.toThrow(
+        "Project not found"
+      );
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+      });
+    });
+
+    test("saves the trimmed name", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue({ id: "project-123" });
+      mockPrisma.project.update.mockResolvedValue({
+        id: "project-123",
+        name: "Landing page",
+      });
+
+      const { renameProject } = await import("@/actions/rename-project");
+
+      const result = await renameProject("project-123", "  Landing page ");
+
+      expect(result.name).toBe("Landing page");
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123" },
+        data: { name: "Landing page" },
+        select: { id: true, name: true, createdAt: true, updatedAt: true },
+      });
+    });
+  });
+
+  describe("trashProject", () => {
+    test("throws error when project is missing or already trashed", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { trashProject } = await import("@/actions/trash-project");
+
+      await expect(trashProject("project-123")).rejects.toThrow(
+        "Project not found"
+      );
+      expect(mockPrisma.project.update).not.toHaveBeenCalled();
+    });
+
+    test("marks the project as deleted", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue({ id: "project-123" });
+
+      const { trashProject } = await import("@/actions/trash-project");
+
+      await trashProject("project-123");
+
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123" },
+        data: { deletedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe("restoreProject", () => {
+    test("throws error when project is not in the trash", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { restoreProject } = await import("@/actions/restore-project");
+
+      await expect(restoreProject("project-123")).rejects.toThrow(
+        "Project not found in trash"
+      );
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+        where: {
+          id: "project-123",
+          userId: "user-123",
+          deletedAt: { not: null },
+        },
+      });
+    });
+
+    test("clears the deleted date", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue({ id: "project-123" });
+
+      const { restoreProject } = await import("@/actions/restore-project");
+
+      await restoreProject("project-123");
+
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123" },
+        data: { deletedAt: null },
+      });
+    });
+  });
+
+  describe("purgeProject", () => {
+    test("throws error when user is not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const { purgeProject } = await import("@/actions/purge-project");
+
+      await expect(purgeProject("project-123")).rejects.toThrow(
+        "Unauthorized"
+      );
+    });
+
+    test("refuses to purge projects that are not in the trash", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { purgeProject } = await import("@/actions/purge-project");
+
+      await expect(purgeProject("project-123")).rejects.toThrow(
+        "Project not found in trash"
+      );
+      expect(mockPrisma.project.delete).not.toHaveBeenCalled();
+    });
+
+    test("deletes a trashed project", async () => {
+      mockPrisma.project.findUnique.mockResolvedValue({ id: "project-123" });
+
+      const { purgeProject } = await import("@/actions/purge-project");
+
+      await purgeProject("project-123");
+
+      expect(mockPrisma.project.delete).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123" },
+      });
+    });
+  });
+
+  describe("getTrashedProjects", () => {
+    test("lists the user's trashed projects, most recently deleted first", async () => {
+      const trashed = [
+        { id: "project-2", name: "Old", deletedAt: new Date() },
+      ];
+      mockPrisma.project.findMany.mockResolvedValue(trashed);
+
+      const { getTrashedProjects } = await import(
+        "@/actions/get-trashed-projects"
+      );
+
+      expect(await getTrashedProjects()).toEqual(trashed);
+      expect(mockPrisma.project.findMany).toHaveBeenCalledWith({
+        where: { userId: "user-123", deletedAt: { not: null } },
+        orderBy: { deletedAt: "desc" },
+        select: { id: true, name: true, deletedAt: true },
+      });
+    });
+  });
+});
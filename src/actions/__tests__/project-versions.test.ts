@@ -0,0 +1,297 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { hashContent } from "@/lib/project-files";
+
+vi.mock("server-only", () => ({}));
+
+const versionData = {
+  "/": { type: "directory", name: "/", path: "/" },
+  "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content: "old" },
+};
+
+describe("project versions", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+    };
+    projectVersion: {
+      findMany: ReturnType<typeof vi.fn>;
+      findFirst: ReturnType<typeof vi.fn>;
+    };
+    projectFile: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+    message: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn(),
+        update: vi.fn(),
+      },
+      projectVersion: {
+        findMany: vi.fn(),
+        findFirst: vi.fn(),
+      },
+      projectFile: {
+        findMany: vi.fn(),
+      },
+      message: {
+        findMany: vi.fn(),
+      },
+    };
+
+    mockGetSession = vi.fn();
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getProjectVersions", () => {
+    test("throws error when user is not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const { getProjectVersions } = await import(
+        "@/actions/get-project-versions"
+      );
+
+      await expect(getProjectVersions("project-123")).rejects.toThrow(
+        "Unauthorized"
+      );
+    });
+
+    test("lists versions of the user's project newest first", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      const versions = [
+        { id: "version-2", messageIndex: 4, createdAt: new Date() },
+        { id: "version-1", messageIndex: 2, createdAt: new Date() },
+      ];
+      mockPrisma.projectVersion.findMany.mockResolvedValue(versions);
+      mockPrisma.project.findUnique.mockResolvedValue({
+        activeMessageId: "row-1",
+      });
+      mockPrisma.message.findMany.mockResolvedValue([
+        { id: "row-0", parentId: null, createdAt: new Date() },
+        { id: "row-1", parentId: "row-0", createdAt: new Date() },
+        { id: "row-other", parentId: "row-0", createdAt: new Date() },
+      ]);
+
+      const { getProjectVersions } = await import(
+        "@/actions/get-project-versions"
+      );
+
+      const result = await getProjectVersions("project-123");
+
+      expect(result).toEqual(versions);
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+        select: { activeMessageId: true },
+      });
+      expect(mockPrisma.projectVersion.findMany).toHaveBeenCalledWith({
+        where: {
+          projectId: "project-123",
+          lastMessageId: { in: ["row-0", "row-1"] },
+        },
+        orderBy: { createdAt: "desc" },
+        select: { id: true, messageIndex: true, createdAt: true },
+      });
+    });
+
+    test("returns no versions for another user's or a trashed project", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.project.findUnique.mockResolvedValue(null);
+
+      const { getProjectVersions } = await import(
+        "@/actions/get-project-versions"
+      );
+
+      expect(await getProjectVersions("project-123")).toEqual([]);
+      expect(mockPrisma.projectVersion.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("diffProjectVersion", () => {
+    test("throws error when version is not found", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.projectVersion.findFirst.mockResolvedValue(null);
+
+      const { diffProjectVersion } = await import(
+        "@/actions/diff-project-version"
+      );
+
+      await expect(
+        diffProjectVersion("project-123", "version-1")
+      ).rejects.toThrow("Version not found");
+      expect(mockPrisma.projectVersion.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: "version-1",
+          projectId: "project-123",
+          project: { userId: "user-123", deletedAt: null },
+        },
+      });
+    });
+
+    test("diffs a version against the current project files", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.projectVersion.findFirst.mockResolvedValue({
+        id: "version-1",
+        data: JSON.stringify(versionData),
+      });
+      mockPrisma.project.findUnique.mockResolvedValue({
+        id: "project-123",
+        files: [{ path: "/App.jsx", content: "new" }],
+      });
+
+      const { diffProjectVersion } = await import(
+        "@/actions/diff-project-version"
+      );
+
+      const result = await diffProjectVersion("project-123", "version-1");
+
+      expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+        include: { files: true },
+      });
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        path: "/App.jsx",
+        status: "modified",
+        additions: 1,
+        deletions: 1,
+      });
+    });
+
+    test("diffs two versions against each other", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.projectVersion.findFirst
+        .mockResolvedValueOnce({ id: "version-1", data: JSON.stringify(versionData) })
+        .mockResolvedValueOnce({ id: "version-2", data: JSON.stringify(versionData) });
+
+      const { diffProjectVersion } = await import(
+        "@/actions/diff-project-version"
+      );
+
+      const result = await diffProjectVersion(
+        "project-123",
+        "version-1",
+        "version-2"
+      );
+
+      expect(result).toEqual([]);
+      expect(mockPrisma.project.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("restoreProjectVersion", () => {
+    test("throws error when user is not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const { restoreProjectVersion } = await import(
+        "@/actions/restore-project-version"
+      );
+
+      await expect(
+        restoreProjectVersion("project-123", "version-1")
+      ).rejects.toThrow("Unauthorized");
+    });
+
+    test("throws error when version belongs to another user or a trashed project", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.projectVersion.findFirst.mockResolvedValue(null);
+
+      const { restoreProjectVersion } = await import(
+        "@/actions/restore-project-version"
+      );
+
+      await expect(
+        restoreProjectVersion("project-123", "version-1")
+      ).rejects.toThrow("Version not found");
+      expect(mockPrisma.projectVersion.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: "version-1",
+          projectId: "project-123",
+          project: { userId: "user-123", deletedAt: null },
+        },
+      });
+      expect(mockPrisma.project.update).not.toHaveBeenCalled();
+    });
+
+    test("writes the version's files back to the project", async () => {
+      mockGetSession.mockResolvedValue({
+        userId: "user-123",
+        email: "test@example.com",
+      });
+      mockPrisma.projectVersion.findFirst.mockResolvedValue({
+        id: "version-1",
+        messageIndex: 2,
+        data: JSON.stringify(versionData),
+      });
+      mockPrisma.projectFile.findMany.mockResolvedValue([
+        { path: "/App.jsx", contentHash: hashContent("new") },
+      ]);
+
+      const { restoreProjectVersion } = await import(
+        "@/actions/restore-project-version"
+      );
+
+      const result = await restoreProjectVersion("project-123", "version-1");
+
+      expect(mockPrisma.project.update).toHaveBeenCalledWith({
+        where: { id: "project-123", userId: "user-123", deletedAt: null },
+        data: {
+          files: {
+            create: [],
+            update: [
+              {
+                where: {
+                  projectId_path: { projectId: "project-123", path: "/App.jsx" },
+                },
+                data: { content: "old", contentHash: hashContent("old") },
+              },
+            ],
+            deleteMany: { path: { in: [] } },
+          },
+        },
+      });
+      expect(result).toEqual({ data: versionData, messageIndex: 2 });
+    });
+  });
+});
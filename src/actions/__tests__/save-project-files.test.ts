@@ -0,0 +1,152 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { hashContent } from "@/lib/project-files";
+
+vi.mock("server-only", () => ({}));
+
+const data = {
+  "/": { type: "directory" as const, name: "/", path: "/" },
+  "/Card.jsx": {
+    type: "file" as const,
+    name: "Card.jsx",
+    path: "/Card.jsx",
+    content: "card",
+  },
+};
+
+describe("saveProjectFiles", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn(),
+        update: vi.fn(),
+      },
+    };
+
+    mockGetSession = vi.fn();
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("throws error when user is not authenticated", async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    const { saveProjectFiles } = await import("@/actions/save-project-files");
+
+    await expect(saveProjectFiles("project-123", data)).rejects.toThrow(
+      "Unauthorized"
+    );
+    expect(mockPrisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("throws error when project belongs to another user", async () => {
+    mockGetSession.mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+    mockPrisma.project.findUnique.mockResolvedValue(null);
+
+    const { saveProjectFiles } = await import("@/actions/save-project-files");
+
+    await expect(saveProjectFiles("project-123", data)).rejects.toThrow(
+      "Project not found"
+    );
+    expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123", deletedAt: null },
+      include: { files: { select: { path: true, contentHash: true } } },
+    });
+    expect(mockPrisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("creates rows for files the project doesn't have yet", async () => {
+    mockGetSession.mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+    mockPrisma.project.findUnique.mockResolvedValue({
+      id: "project-123",
+      files: [],
+    });
+
+    const { saveProjectFiles } = await import("@/actions/save-project-files");
+
+    await saveProjectFiles("project-123", data);
+
+    expect(mockPrisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123", deletedAt: null },
+      data: {
+        files: {
+          create: [
+            {
+              path: "/Card.jsx",
+              content: "card",
+              contentHash: hashContent("card"),
+            },
+          ],
+          update: [],
+          deleteMany: { path: { in: [] } },
+        },
+      },
+    });
+  });
+
+  test("writes only changed files and removes deleted ones", async () => {
+    mockGetSession.mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+    mockPrisma.project.findUnique.mockResolvedValue({
+      id: "project-123",
+      files: [
+        { path: "/Card.jsx", contentHash: hashContent("old card") },
+        { path: "/Old.jsx", contentHash: hashContent("old") },
+      ],
+    });
+
+    const { saveProjectFiles } = await import("@/actions/save-project-files");
+
+    await saveProjectFiles("project-123", data);
+
+    expect(mockPrisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123", deletedAt: null },
+      data: {
+        files: {
+          create: [],
+          update: [
+            {
+              where: {
+                projectId_path: { projectId: "project-123", path: "/Card.jsx" },
+              },
+              data: { content: "card", contentHash: hashContent("card") },
+            },
+          ],
+          deleteMany: { path: { in: ["/Old.jsx"] } },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+describe("setProjectModel", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-test-key");
+    vi.stubEnv("ANTHROPIC_MODELS", "");
+    vi.stubEnv("OPENAI_COMPATIBLE_BASE_URL", "");
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn().mockResolvedValue({ id: "project-123" }),
+        update: vi.fn().mockResolvedValue({
+          id: "project-123",
+          model: "anthropic:claude-sonnet-4-5",
+        }),
+      },
+    };
+
+    mockGetSession = vi.fn().mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  test("throws error when user is not authenticated", async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    const { setProjectModel } = await import("@/actions/set-project-model");
+
+    await expect(
+      setProjectModel("project-123", "anthropic:claude-sonnet-4-5")
+    ).rejects.toThrow("Unauthorized");
+  });
+
+  test("saves the model on the user's project", async () => {
+    const { setProjectModel } = await import("@/actions/set-project-model");
+
+    const result = await setProjectModel(
+      "project-123",
+      "anthropic:claude-sonnet-4-5"
+    );
+
+    expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123", deletedAt: null },
+    });
+    expect(mockPrisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: { model: "anthropic:claude-sonnet-4-5" },
+      select: { id: true, model: true },
+    });
+    expect(result).toEqual({
+      id: "project-123",
+      model: "anthropic:claude-sonnet-4-5",
+    });
+  });
+
+  test("rejects models the server doesn't offer", async () => {
+    const { setProjectModel } = await import("@/actions/set-project-model");
+
+    await expect(
+      setProjectModel("project-123", "openai-compatible:llama3.1")
+    ).rejects.toThrow("Model is not available");
+    expect(mockPrisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("throws error when project belongs to another user", async () => {
+    mockPrisma.project.findUnique.mockResolvedValue(null);
+
+    const { setProjectModel } = await import("@/actions/set-project-model");
+
+    await expect(
+      setProjectModel("project-123", "anthropic:claude-sonnet-4-5")
+    ).rejects.toThrow("Project not found");
+    expect(mockPrisma.project.update).not.toHaveBeenCalled();
+  });
+});
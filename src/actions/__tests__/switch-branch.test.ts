@@ -0,0 +1,218 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { hashContent } from "@/lib/project-files";
+
+vi.mock("server-only", () => ({}));
+
+function fileData(content: string) {
+  return {
+    "/": { type: "directory", name: "", path: "/" },
+    "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content },
+  } as const;
+}
+
+// A prompt answered once, then edited and answered again:
+//
+//   row-0 - row-1
+//   row-2 - row-3
+const rows = [
+  { id: "row-0", parentId: null, messageId: "msg-1", role: "user", content: "Make a blue button" },
+  { id: "row-1", parentId: "row-0", messageId: "msg-2", role: "assistant", content: "Blue" },
+  { id: "row-2", parentId: null, messageId: "msg-1", role: "user", content: "Make a red button" },
+  { id: "row-3", parentId: "row-2", messageId: "msg-3", role: "assistant", content: "Red" },
+].map((row, i) => ({
+  ...row,
+  position: i % 2,
+  content: JSON.stringify(row.content),
+  parts: null,
+  toolInvocations: null,
+  attachments: null,
+  createdAt: new Date(2026, 0, 1, 0, i),
+}));
+
+describe("switchBranch", () => {
+  let mockPrisma: {
+    project: {
+      findUnique: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+    };
+    message: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+    projectVersion: {
+      findFirst: ReturnType<typeof vi.fn>;
+      create: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+
+    mockPrisma = {
+      project: {
+        findUnique: vi.fn().mockResolvedValue({
+          id: "project-123",
+          activeMessageId: "row-3",
+          files: [{ path: "/App.jsx", contentHash: hashContent("red") }],
+        }),
+        update: vi.fn(),
+      },
+      message: {
+        // The whole tree when selecting node fields, else the rows asked for
+        findMany: vi.fn(async (args) =>
+          args.select
+            ? rows
+            : rows.filter((row) => args.where.id.in.includes(row.id))
+        ),
+      },
+      projectVersion: {
+        findFirst: vi.fn(),
+        create: vi.fn(),
+      },
+    };
+
+    mockGetSession = vi.fn().mockResolvedValue({
+      userId: "user-123",
+      email: "test@example.com",
+    });
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+    }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("throws error when user is not authenticated", async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    const { switchBranch } = await import("@/actions/switch-branch");
+
+    await expect(
+      switchBranch("project-123", "msg-1", 0, fileData("red"))
+    ).rejects.toThrow("Unauthorized");
+  });
+
+  test("throws error when project is not found", async () => {
+    mockPrisma.project.findUnique.mockResolvedValue(null);
+
+    const { switchBranch } = await import("@/actions/switch-branch");
+
+    await expect(
+      switchBranch("project-123", "msg-1", 0, fileData("red"))
+    ).rejects.toThrow("Project not found");
+    expect(mockPrisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123", deletedAt: null },
+      include: { files: { select: { path: true, contentHash: true } } },
+    });
+  });
+
+  test("throws error when the message or branch doesn't exist", async () => {
+    const { switchBranch } = await import("@/actions/switch-branch");
+
+    await expect(
+      switchBranch("project-123", "missing", 0, fileData("red"))
+    ).rejects.toThrow("Message not found");
+    await expect(
+      switchBranch("project-123", "msg-1", 2, fileData("red"))
+    ).rejects.toThrow("Branch not found");
+    expect(mockPrisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("switches to the other version with its messages and files", async () => {
+    mockPrisma.projectVersion.findFirst
+      .mockResolvedValueOnce({ data: JSON.stringify(fileData("red")) })
+      .mockResolvedValueOnce({ data: JSON.stringify(fileData("blue")) });
+
+    const { switchBranch } = await import("@/actions/switch-branch");
+
+    const result = await switchBranch("project-123", "msg-1", 0, fileData("red"));
+
+    // The current files match the current branch's snapshot
+    expect(mockPrisma.projectVersion.create).not.toHaveBeenCalled();
+    expect(mockPrisma.projectVersion.findFirst).toHaveBeenLastCalledWith({
+      where: { projectId: "project-123", lastMessageId: { in: ["row-0", "row-1"] } },
+      orderBy: [{ messageIndex: "desc" }, { createdAt: "desc" }],
+    });
+    expect(mockPrisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: {
+        activeMessageId: "row-1",
+        files: {
+          create: [],
+          update: [
+            {
+              where: { projectId_path: { projectId: "project-123", path: "/App.jsx" } },
+              data: { content: "blue", contentHash: hashContent("blue") },
+            },
+          ],
+          deleteMany: { path: { in: [] } },
+        },
+      },
+    });
+    expect(result).toEqual({
+      messages: [
+        { id: "msg-1", role: "user", content: "Make a blue button" },
+        { id: "msg-2", role: "assistant", content: "Blue" },
+      ],
+      olderMessageCount: 0,
+      branches: { "msg-1": { index: 0, count: 2 } },
+      data: fileData("blue"),
+    });
+  });
+
+  test("keeps edits made on the current branch as a new version", async () => {
+    mockPrisma.projectVersion.findFirst
+      .mockResolvedValueOnce({ data: JSON.stringify(fileData("red")) })
+      .mockResolvedValueOnce(null);
+
+    const { switchBranch } = await import("@/actions/switch-branch");
+
+    const result = await switchBranch(
+      "project-123",
+      "msg-1",
+      0,
+      fileData("red, edited")
+    );
+
+    expect(mockPrisma.projectVersion.create).toHaveBeenCalledWith({
+      data: {
+        projectId: "project-123",
+        messageIndex: 2,
+        lastMessageId: "row-3",
+        data: JSON.stringify(fileData("red, edited")),
+      },
+    });
+    // No snapshot on the other branch yet, so it keeps the current files
+    expect(result.data).toEqual(fileData("red, edited"));
+    expect(mockPrisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: {
+        activeMessageId: "row-1",
+        files: {
+          create: [],
+          update: [
+            {
+              where: { projectId_path: { projectId: "project-123", path: "/App.jsx" } },
+              data: {
+                content: "red, edited",
+                contentHash: hashContent("red, edited"),
+              },
+            },
+          ],
+          deleteMany: { path: { in: [] } },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+const USAGE_SUM = {
+  inputTokens: true,
+  outputTokens: true,
+  cacheCreationInputTokens: true,
+  cacheReadInputTokens: true,
+  costUsd: true,
+};
+
+function aggregate(turns: number, tokens: number, costUsd: number) {
+  return {
+    _sum: {
+      inputTokens: tokens,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd,
+    },
+    _count: { _all: turns },
+  };
+}
+
+describe("token usage", () => {
+  let mockPrisma: {
+    user: {
+      findUnique: ReturnType<typeof vi.fn>;
+      findMany: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+    };
+    project: {
+      findMany: ReturnType<typeof vi.fn>;
+    };
+    tokenUsage: {
+      aggregate: ReturnType<typeof vi.fn>;
+      groupBy: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  let mockGetSession: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.useFakeTimers({ now: new Date("2026-10-18T12:00:00Z") });
+
+    mockPrisma = {
+      user: {
+        findUnique: vi.fn(),
+        findMany: vi.fn(),
+        update: vi.fn(),
+      },
+      project: {
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      tokenUsage: {
+        aggregate: vi.fn(),
+        groupBy: vi.fn().mockResolvedValue([]),
+      },
+    };
+
+    mockGetSession = vi.fn().mockResolvedValue({
+      userId: "user-123",
+      email: "designer@example.com",
+    });
+
+    vi.doMock("@/lib/prisma", () => ({
+      prisma: mockPrisma,
+    }));
+
+    vi.doMock("@/lib/auth", () => ({
+      getSession: mockGetSession,
+      isAdmin: (session: { email: string }) =>
+        session.email === "admin@example.com",
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  function signInAsAdmin() {
+    mockGetSession.mockResolvedValue({
+      userId: "admin-1",
+      email: "admin@example.com",
+    });
+  }
+
+  describe("getUsageSummary", () => {
+    test("throws error when user is not authenticated", async () => {
+      mockGetSession.mockResolvedValue(null);
+
+      const { getUsageSummary } = await import("@/actions/get-usage-summary");
+
+      await expect(getUsageSummary("project-123")).rejects.toThrow(
+        "Unauthorized"
+      );
+    });
+
+    test("sums the project's usage and the account's usage this month", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        monthlyTokenQuota: 500_000,
+      });
+      mockPrisma.tokenUsage.aggregate
+        .mockResolvedValueOnce(aggregate(4, 40_000, 0.2))
+        .mockResolvedValueOnce(aggregate(2, 10_000, 0.05));
+      mockPrisma.tokenUsage.groupBy.mockResolvedValue([
+        { projectId: "project-123", ...aggregate(2, 10_000, 0.05) },
+      ]);
+      mockPrisma.project.findMany.mockResolvedValue([
+        { id: "project-123", name: "Pricing Table" },
+      ]);
+
+      const { getUsageSummary } = await import("@/actions/get-usage-summary");
+
+      const summary = await getUsageSummary("project-123");
+
+      const monthStart = new Date("2026-10-01T00:00:00Z");
+      expect(mockPrisma.tokenUsage.aggregate).toHaveBeenNthCalledWith(1, {
+        where: { userId: "user-123", createdAt: { gte: monthStart } },
+        _sum: USAGE_SUM,
+        _count: { _all: true },
+      });
+      expect(mockPrisma.tokenUsage.aggregate).toHaveBeenNthCalledWith(2, {
+        where: { projectId: "project-123", userId: "user-123" },
+        _sum: USAGE_SUM,
+        _count: { _all: true },
+      });
+      expect(summary).toMatchObject({
+        month: { turns: 4, totalTokens: 40_000, costUsd: 0.2 },
+        project: { turns: 2, totalTokens: 10_000, costUsd: 0.05 },
+        quota: 500_000,
+        resetsAt: new Date("2026-11-01T00:00:00Z"),
+        topProjects: [
+          {
+            id: "project-123",
+            name: "Pricing Table",
+            usage: { totalTokens: 10_000 },
+          },
+        ],
+        isAdmin: false,
+      });
+    });
+
+    test("leaves out the project outside a project", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ monthlyTokenQuota: null });
+      mockPrisma.tokenUsage.aggregate.mockResolvedValue(aggregate(0, 0, 0));
+
+      const { getUsageSummary } = await import("@/actions/get-usage-summary");
+
+      const summary = await getUsageSummary();
+
+      expect(mockPrisma.tokenUsage.aggregate).toHaveBeenCalledOnce();
+      expect(summary.project).toBeNull();
+      expect(summary.quota).toBeNull();
+    });
+  });
+
+  describe("getUserUsage", () => {
+    test("is only available to admins", async () => {
+      const { getUserUsage } = await import("@/actions/get-user-usage");
+
+      await expect(getUserUsage()).rejects.toThrow("Forbidden");
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+    });
+
+    test("lists users by what they spent this month", async () => {
+      signInAsAdmin();
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: "user-1", email: "a@example.com", monthlyTokenQuota: null },
+        { id: "user-2", email: "b@example.com", monthlyTokenQuota: 100_000 },
+        { id: "user-3", email: "c@example.com", monthlyTokenQuota: null },
+      ]);
+      mockPrisma.tokenUsage.groupBy.mockResolvedValue([
+        { userId: "user-1", ...aggregate(1, 1_000, 0.01) },
+        { userId: "user-2", ...aggregate(3, 90_000, 0.4) },
+      ]);
+
+      const { getUserUsage } = await import("@/actions/get-user-usage");
+
+      const users = await getUserUsage();
+
+      expect(mockPrisma.tokenUsage.groupBy).toHaveBeenCalledWith({
+        by: ["userId"],
+        where: {
+          userId: { not: null },
+          createdAt: { gte: new Date("2026-10-01T00:00:00Z") },
+        },
+        _sum: USAGE_SUM,
+        _count: { _all: true },
+      });
+      expect(
+        users.map((user: any) => [user.email, user.quota, user.month.turns])
+      ).toEqual([
+        ["b@example.com", 100_000, 3],
+        ["a@example.com", null, 1],
+        ["c@example.com", null, 0],
+      ]);
+    });
+  });
+
+  describe("setTokenQuota", () => {
+    test("is only available to admins", async () => {
+      const { setTokenQuota } = await import("@/actions/set-token-quota");
+
+      await expect(setTokenQuota("user-2", 1_000)).rejects.toThrow(
+        "Forbidden"
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    test("sets and clears a user's quota", async () => {
+      signInAsAdmin();
+      mockPrisma.user.update.mockImplementation(async (args) => ({
+        id: args.where.id,
+        ...args.data,
+      }));
+
+      const { setTokenQuota } = await import("@/actions/set-token-quota");
+
+      expect(await setTokenQuota("user-2", 250_000)).toEqual({
+        id: "user-2",
+        monthlyTokenQuota: 250_000,
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: "user-2" },
+        data: { monthlyTokenQuota: 250_000 },
+        select: { id: true, monthlyTokenQuota: true },
+      });
+
+      await setTokenQuota("user-2", null);
+      expect(mockPrisma.user.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ data: { monthlyTokenQuota: null } })
+      );
+    });
+
+    test("rejects quotas that aren't whole numbers of tokens", async () => {
+      signInAsAdmin();
+
+      const { setTokenQuota } = await import("@/actions/set-token-quota");
+
+      await expect(setTokenQuota("user-2", -1)).rejects.toThrow(
+        "Quota must be a whole number of tokens"
+      );
+      await expect(setTokenQuota("user-2", 1.5)).rejects.toThrow(
+        "Quota must be a whole number of tokens"
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
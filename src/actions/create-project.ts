@@ -2,6 +2,8 @@
 
 import { getSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { toMessageRows } from "@/lib/chat-messages";
+import { toProjectFileRows } from "@/lib/project-files";
 
 interface CreateProjectInput {
   name: string;
@@ -16,12 +18,19 @@ export async function createProject(input: CreateProjectInput) {
     throw new Error("Unauthorized");
   }
 
+  const messages = toMessageRows(input.messages);
+
   const project = await prisma.project.create({
     data: {
       name: input.name,
       userId: session.userId,
-      messages: JSON.stringify(input.messages),
-      data: JSON.stringify(input.data),
+      activeMessageId: messages[messages.length - 1]?.id ?? null,
+      messages: {
+        create: messages,
+      },
+      files: {
+        create: toProjectFileRows(input.data),
+      },
     },
   });
 
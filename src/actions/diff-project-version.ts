@@ -0,0 +1,73 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { diffSnapshots } from "@/lib/version-diff";
+import { toFileNodes } from "@/lib/project-files";
+import type { FileNode } from "@/lib/file-system";
+
+// Diffs a version against another version, or against the project's
+// current files when no second version is given
+export async function diffProjectVersion(
+  projectId: string,
+  versionId: string,
+  compareToVersionId?: string
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const version = await prisma.projectVersion.findFirst({
+    where: {
+      id: versionId,
+      projectId,
+      project: {
+        userId: session.userId,
+        deletedAt: null,
+      },
+    },
+  });
+
+  if (!version) {
+    throw new Error("Version not found");
+  }
+
+  let compareData: Record<string, FileNode>;
+  if (compareToVersionId) {
+    const compareTo = await prisma.projectVersion.findFirst({
+      where: {
+        id: compareToVersionId,
+        projectId,
+        project: {
+          userId: session.userId,
+          deletedAt: null,
+        },
+      },
+    });
+
+    if (!compareTo) {
+      throw new Error("Version not found");
+    }
+    compareData = JSON.parse(compareTo.data);
+  } else {
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.userId,
+        deletedAt: null,
+      },
+      include: {
+        files: true,
+      },
+    });
+
+    if (!project) {
+      throw new Error("Project not found");
+    }
+    compareData = toFileNodes(project.files);
+  }
+
+  return diffSnapshots(JSON.parse(version.data), compareData);
+}
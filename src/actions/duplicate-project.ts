@@ -0,0 +1,144 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getMessagePath, MESSAGE_TREE_SELECT } from "@/lib/chat-messages";
+import { toProjectFileRows } from "@/lib/project-files";
+
+interface DuplicateProjectOptions {
+  name?: string;
+  // Fork from this message: the copy keeps the conversation up to the end of
+  // the turn the message belongs to, and the files as they were after it
+  throughMessageId?: string;
+}
+
+export async function duplicateProject(
+  projectId: string,
+  { name, throughMessageId }: DuplicateProjectOptions = {}
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    include: {
+      files: true,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  // The copy gets the active branch as a linear history
+  const nodes = await prisma.message.findMany({
+    where: {
+      projectId,
+    },
+    select: MESSAGE_TREE_SELECT,
+  });
+  const messages = await prisma.message.findMany({
+    where: {
+      id: {
+        in: getMessagePath(nodes, project.activeMessageId),
+      },
+    },
+    orderBy: {
+      position: "asc",
+    },
+  });
+  let messageCount = messages.length;
+
+  if (throughMessageId) {
+    const index = messages.findIndex(
+      (message: any) => message.messageId === throughMessageId
+    );
+    if (index === -1) {
+      throw new Error("Message not found");
+    }
+
+    // Cut before the next user message so tool calls keep their results
+    const nextUserMessage = messages.findIndex(
+      (message: any, i: number) => i > index && message.role === "user"
+    );
+    messageCount = nextUserMessage === -1 ? messages.length : nextUserMessage;
+  }
+
+  const copied = messages.slice(0, messageCount);
+  const copiedIds = new Map<string, string>(
+    copied.map((message: any) => [message.id, crypto.randomUUID()])
+  );
+
+  // Versions record the files after each turn on the copied messages
+  const versions = await prisma.projectVersion.findMany({
+    where: {
+      projectId,
+      lastMessageId: {
+        in: Array.from(copiedIds.keys()),
+      },
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+
+  // A full copy takes the current files, which may include edits made
+  // since the last turn; a fork takes the snapshot recorded at that turn
+  const isFork = messageCount < messages.length;
+  const snapshot = versions[versions.length - 1];
+  if (isFork && !snapshot) {
+    throw new Error("No saved files for that message");
+  }
+
+  const files = isFork
+    ? toProjectFileRows(JSON.parse(snapshot.data))
+    : project.files.map((file: any) => ({
+        path: file.path,
+        content: file.content,
+        contentHash: file.contentHash,
+      }));
+
+  const copy = await prisma.project.create({
+    data: {
+      name:
+        name ||
+        `${project.name} (${throughMessageId ? "fork" : "copy"})`,
+      userId: session.userId,
+      model: project.model,
+      activeMessageId: copiedIds.get(copied[copied.length - 1]?.id) ?? null,
+      messages: {
+        create: copied.map((message: any) => ({
+          id: copiedIds.get(message.id),
+          parentId: message.parentId ? copiedIds.get(message.parentId) : null,
+          messageId: message.messageId,
+          role: message.role,
+          position: message.position,
+          content: message.content,
+          parts: message.parts,
+          toolInvocations: message.toolInvocations,
+          attachments: message.attachments,
+        })),
+      },
+      files: {
+        create: files,
+      },
+      versions: {
+        create: versions.map((version: any) => ({
+          messageIndex: version.messageIndex,
+          lastMessageId: copiedIds.get(version.lastMessageId),
+          data: version.data,
+          createdAt: version.createdAt,
+        })),
+      },
+    },
+  });
+
+  return copy;
+}
@@ -0,0 +1,81 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  findPathIndex,
+  getMessagePath,
+  MESSAGE_TREE_SELECT,
+} from "@/lib/chat-messages";
+import { toFileNodes } from "@/lib/project-files";
+
+// The files as they were when a message on the active branch was sent: the
+// snapshot of the last turn before it. Without one, as for the first message
+// or an imported project, the project's current files are the best guess
+export async function getMessageFiles(projectId: string, messageId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    select: {
+      activeMessageId: true,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const nodes = await prisma.message.findMany({
+    where: {
+      projectId,
+    },
+    select: MESSAGE_TREE_SELECT,
+  });
+  const path = getMessagePath(nodes, project.activeMessageId);
+  const index = findPathIndex(nodes, path, messageId);
+
+  if (index === -1) {
+    throw new Error("Message not found");
+  }
+
+  const version = await prisma.projectVersion.findFirst({
+    where: {
+      projectId,
+      lastMessageId: {
+        in: path.slice(0, index),
+      },
+    },
+    orderBy: [
+      {
+        messageIndex: "desc",
+      },
+      {
+        createdAt: "desc",
+      },
+    ],
+  });
+
+  if (version) {
+    return JSON.parse(version.data);
+  }
+
+  const files = await prisma.projectFile.findMany({
+    where: {
+      projectId,
+    },
+    select: {
+      path: true,
+      content: true,
+    },
+  });
+  return toFileNodes(files);
+}
@@ -0,0 +1,63 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  fromMessageRow,
+  getMessagePath,
+  MESSAGE_TREE_SELECT,
+  RECENT_MESSAGE_LIMIT,
+} from "@/lib/chat-messages";
+
+// Pages backwards through the active branch's history: returns up to `limit`
+// messages before position `before`, oldest first
+export async function getProjectMessages(
+  projectId: string,
+  { before, limit = RECENT_MESSAGE_LIMIT }: { before: number; limit?: number }
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    select: {
+      activeMessageId: true,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const nodes = await prisma.message.findMany({
+    where: {
+      projectId,
+    },
+    select: MESSAGE_TREE_SELECT,
+  });
+  // Positions are indexes into the branch's path
+  const path = getMessagePath(nodes, project.activeMessageId);
+  const start = Math.max(0, before - limit);
+  const messages = await prisma.message.findMany({
+    where: {
+      id: {
+        in: path.slice(start, before),
+      },
+    },
+    orderBy: {
+      position: "asc",
+    },
+  });
+
+  return {
+    messages: messages.map(fromMessageRow),
+    olderMessageCount: start,
+  };
+}
@@ -0,0 +1,55 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getMessagePath, MESSAGE_TREE_SELECT } from "@/lib/chat-messages";
+
+// Versions taken on the active branch, newest first
+export async function getProjectVersions(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    select: {
+      activeMessageId: true,
+    },
+  });
+
+  if (!project) {
+    return [];
+  }
+
+  const nodes = await prisma.message.findMany({
+    where: {
+      projectId,
+    },
+    select: MESSAGE_TREE_SELECT,
+  });
+
+  const versions = await prisma.projectVersion.findMany({
+    where: {
+      projectId,
+      lastMessageId: {
+        in: getMessagePath(nodes, project.activeMessageId),
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      messageIndex: true,
+      createdAt: true,
+    },
+  });
+
+  return versions;
+}
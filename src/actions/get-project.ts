@@ -2,8 +2,19 @@
 
 import { getSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import {
+  fromMessageRow,
+  getBranchPoints,
+  getMessagePath,
+  MESSAGE_TREE_SELECT,
+  RECENT_MESSAGE_LIMIT,
+} from "@/lib/chat-messages";
+import { toFileNodes } from "@/lib/project-files";
 
-export async function getProject(projectId: string) {
+export async function getProject(
+  projectId: string,
+  { messageLimit = RECENT_MESSAGE_LIMIT }: { messageLimit?: number } = {}
+) {
   const session = await getSession();
   
   if (!session) {
@@ -14,6 +25,10 @@ export async function getProject(projectId: string) {
     where: {
       id: projectId,
       userId: session.userId,
+      deletedAt: null,
+    },
+    include: {
+      files: true,
     },
   });
 
@@ -21,12 +36,39 @@ export async function getProject(projectId: string) {
     throw new Error("Project not found");
   }
 
+  // Only the most recent messages of the active branch; getProjectMessages
+  // pages through older ones
+  const nodes = await prisma.message.findMany({
+    where: {
+      projectId,
+    },
+    select: MESSAGE_TREE_SELECT,
+  });
+  const path = getMessagePath(nodes, project.activeMessageId);
+  const recentIds = path.slice(-messageLimit);
+  const messages = await prisma.message.findMany({
+    where: {
+      id: {
+        in: recentIds,
+      },
+    },
+    orderBy: {
+      position: "asc",
+    },
+  });
+
   return {
     id: project.id,
     name: project.name,
-    messages: JSON.parse(project.messages),
-    data: JSON.parse(project.data),
+    messages: messages.map(fromMessageRow),
+    // Messages before the loaded ones, still stored on the server
+    olderMessageCount: path.length - recentIds.length,
+    // User messages on the branch that were edited or regenerated
+    branches: getBranchPoints(nodes, path),
+    data: toFileNodes(project.files),
+    shareToken: project.shareToken,
+    model: project.model,
     createdAt: project.createdAt,
     updatedAt: project.updatedAt,
   };
-}
\ No newline at end of file
+}
@@ -13,6 +13,7 @@ export async function getProjects() {
   const projects = await prisma.project.findMany({
     where: {
       userId: session.userId,
+      deletedAt: null,
     },
     orderBy: {
       updatedAt: "desc",
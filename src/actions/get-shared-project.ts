@@ -0,0 +1,37 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { toFileNodes } from "@/lib/project-files";
+
+// Public lookup for /share/<token>; no session is required, so only the
+// name and files are returned, never the chat history or owner
+export async function getSharedProject(shareToken: string) {
+  if (!shareToken) {
+    return null;
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      shareToken,
+      deletedAt: null,
+    },
+    select: {
+      name: true,
+      files: {
+        select: {
+          path: true,
+          content: true,
+        },
+      },
+    },
+  });
+
+  if (!project) {
+    return null;
+  }
+
+  return {
+    name: project.name,
+    data: toFileNodes(project.files),
+  };
+}
@@ -0,0 +1,31 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export async function getTrashedProjects() {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const projects = await prisma.project.findMany({
+    where: {
+      userId: session.userId,
+      deletedAt: {
+        not: null,
+      },
+    },
+    orderBy: {
+      deletedAt: "desc",
+    },
+    select: {
+      id: true,
+      name: true,
+      deletedAt: true,
+    },
+  });
+
+  return projects;
+}
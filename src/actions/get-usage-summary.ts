@@ -0,0 +1,114 @@
+"use server";
+
+import { getSession, isAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  startOfMonth,
+  startOfNextMonth,
+  toUsageSummary,
+  USAGE_SUM,
+  type UsageSummary,
+} from "@/lib/token-usage";
+
+// Projects listed in the account's monthly breakdown
+const TOP_PROJECT_LIMIT = 5;
+
+// Token usage of a project over its lifetime, and of the account this month
+// with its quota and most expensive projects
+export async function getUsageSummary(projectId?: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const monthStart = startOfMonth();
+
+  const user = await prisma.user.findUnique({
+    where: {
+      id: session.userId,
+    },
+    select: {
+      monthlyTokenQuota: true,
+    },
+  });
+
+  const month = await prisma.tokenUsage.aggregate({
+    where: {
+      userId: session.userId,
+      createdAt: {
+        gte: monthStart,
+      },
+    },
+    _sum: USAGE_SUM,
+    _count: {
+      _all: true,
+    },
+  });
+
+  const project = projectId
+    ? await prisma.tokenUsage.aggregate({
+        where: {
+          projectId,
+          userId: session.userId,
+        },
+        _sum: USAGE_SUM,
+        _count: {
+          _all: true,
+        },
+      })
+    : null;
+
+  const byProject = await prisma.tokenUsage.groupBy({
+    by: ["projectId"],
+    where: {
+      userId: session.userId,
+      projectId: {
+        not: null,
+      },
+      createdAt: {
+        gte: monthStart,
+      },
+    },
+    _sum: USAGE_SUM,
+    _count: {
+      _all: true,
+    },
+    orderBy: {
+      _sum: {
+        costUsd: "desc",
+      },
+    },
+    take: TOP_PROJECT_LIMIT,
+  });
+  const projectNames = await prisma.project.findMany({
+    where: {
+      id: {
+        in: byProject.map((group: any) => group.projectId),
+      },
+      userId: session.userId,
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+  const names = new Map<string, string>(
+    projectNames.map((project: any) => [project.id, project.name])
+  );
+  const topProjects: Array<{ id: string; name: string; usage: UsageSummary }> =
+    byProject.map((group: any) => ({
+      id: group.projectId,
+      name: names.get(group.projectId) ?? "Untitled project",
+      usage: toUsageSummary(group),
+    }));
+
+  return {
+    project: project ? toUsageSummary(project) : null,
+    month: toUsageSummary(month),
+    quota: (user?.monthlyTokenQuota ?? null) as number | null,
+    resetsAt: startOfNextMonth(),
+    topProjects,
+    isAdmin: isAdmin(session),
+  };
+}
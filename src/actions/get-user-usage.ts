@@ -0,0 +1,66 @@
+"use server";
+
+import { getSession, isAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  startOfMonth,
+  toUsageSummary,
+  USAGE_SUM,
+} from "@/lib/token-usage";
+
+// Every user's token usage this month and quota, most expensive first.
+// Admins only
+export async function getUserUsage() {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!isAdmin(session)) {
+    throw new Error("Forbidden");
+  }
+
+  const users = await prisma.user.findMany({
+    select: {
+      id: true,
+      email: true,
+      monthlyTokenQuota: true,
+    },
+  });
+
+  const groups = await prisma.tokenUsage.groupBy({
+    by: ["userId"],
+    where: {
+      userId: {
+        not: null,
+      },
+      createdAt: {
+        gte: startOfMonth(),
+      },
+    },
+    _sum: USAGE_SUM,
+    _count: {
+      _all: true,
+    },
+  });
+  const usageByUser = new Map(
+    groups.map((group: any) => [group.userId, toUsageSummary(group)])
+  );
+
+  return users
+    .map((user: any) => ({
+      id: user.id as string,
+      email: user.email as string,
+      quota: user.monthlyTokenQuota as number | null,
+      month:
+        usageByUser.get(user.id) ??
+        toUsageSummary({ _sum: {}, _count: { _all: 0 } }),
+    }))
+    .sort(
+      (a: any, b: any) =>
+        b.month.costUsd - a.month.costUsd ||
+        b.month.totalTokens - a.month.totalTokens ||
+        a.email.localeCompare(b.email)
+    );
+}
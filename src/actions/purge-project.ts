@@ -0,0 +1,35 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Permanently deletes a project, along with its versions. Only projects
+// already in the trash can be purged
+export async function purgeProject(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: {
+        not: null,
+      },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found in trash");
+  }
+
+  await prisma.project.delete({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+  });
+}
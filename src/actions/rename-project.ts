@@ -0,0 +1,52 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+const MAX_PROJECT_NAME_LENGTH = 100;
+
+export async function renameProject(projectId: string, name: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Project name is required");
+  }
+  if (trimmed.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new Error(
+      `Project name must be at most ${MAX_PROJECT_NAME_LENGTH} characters`
+    );
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  return prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    data: {
+      name: trimmed,
+    },
+    select: {
+      id: true,
+      name: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+}
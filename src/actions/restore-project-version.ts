@@ -0,0 +1,60 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { diffProjectFiles } from "@/lib/project-files";
+
+export async function restoreProjectVersion(
+  projectId: string,
+  versionId: string
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const version = await prisma.projectVersion.findFirst({
+    where: {
+      id: versionId,
+      projectId,
+      project: {
+        userId: session.userId,
+        deletedAt: null,
+      },
+    },
+  });
+
+  if (!version) {
+    throw new Error("Version not found");
+  }
+
+  const data = JSON.parse(version.data);
+  const files = await prisma.projectFile.findMany({
+    where: {
+      projectId,
+    },
+    select: {
+      path: true,
+      contentHash: true,
+    },
+  });
+
+  // Only the files roll back; the chat history stays intact so newer
+  // versions remain reachable from the timeline
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    data: {
+      files: diffProjectFiles(projectId, files, data),
+    },
+  });
+
+  return {
+    data,
+    messageIndex: version.messageIndex,
+  };
+}
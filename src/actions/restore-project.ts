@@ -0,0 +1,36 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export async function restoreProject(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: {
+        not: null,
+      },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found in trash");
+  }
+
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    data: {
+      deletedAt: null,
+    },
+  });
+}
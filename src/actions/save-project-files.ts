@@ -0,0 +1,49 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import type { FileNode } from "@/lib/file-system";
+import { diffProjectFiles } from "@/lib/project-files";
+
+// Persists file changes made outside a chat turn, such as an import
+export async function saveProjectFiles(
+  projectId: string,
+  data: Record<string, FileNode>
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    include: {
+      files: {
+        select: {
+          path: true,
+          contentHash: true,
+        },
+      },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    data: {
+      files: diffProjectFiles(projectId, project.files, data),
+    },
+  });
+}
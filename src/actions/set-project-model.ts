@@ -0,0 +1,44 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getModelOptions } from "@/lib/provider";
+
+// Remembers the model a project's chat uses
+export async function setProjectModel(projectId: string, model: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!getModelOptions().some((option) => option.id === model)) {
+    throw new Error("Model is not available");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  return prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    data: {
+      model,
+    },
+    select: {
+      id: true,
+      model: true,
+    },
+  });
+}
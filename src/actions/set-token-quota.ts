@@ -0,0 +1,37 @@
+"use server";
+
+import { getSession, isAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Sets how many tokens a user may spend per month; null removes the limit.
+// Admins only
+export async function setTokenQuota(userId: string, quota: number | null) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!isAdmin(session)) {
+    throw new Error("Forbidden");
+  }
+
+  if (quota !== null && (!Number.isSafeInteger(quota) || quota < 0)) {
+    throw new Error("Quota must be a whole number of tokens");
+  }
+
+  const user = await prisma.user.update({
+    where: {
+      id: userId,
+    },
+    data: {
+      monthlyTokenQuota: quota,
+    },
+    select: {
+      id: true,
+      monthlyTokenQuota: true,
+    },
+  });
+
+  return user;
+}
@@ -0,0 +1,49 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Returns the project's share token, creating one if the project isn't
+// shared yet. Rotating replaces the token so links handed out before stop working
+export async function shareProject(
+  projectId: string,
+  { rotate = false }: { rotate?: boolean } = {}
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  if (project.shareToken && !rotate) {
+    return project.shareToken;
+  }
+
+  const shareToken = randomBytes(24).toString("base64url");
+
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    data: {
+      shareToken,
+    },
+  });
+
+  return shareToken;
+}
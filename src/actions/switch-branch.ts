@@ -0,0 +1,148 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import type { FileNode } from "@/lib/file-system";
+import {
+  findLatestLeaf,
+  findPathIndex,
+  fromMessageRow,
+  getBranchPoints,
+  getMessagePath,
+  getSiblings,
+  MESSAGE_TREE_SELECT,
+  RECENT_MESSAGE_LIMIT,
+} from "@/lib/chat-messages";
+import { diffProjectFiles, hasSameFiles } from "@/lib/project-files";
+
+// Shows another version of a user message on the active branch. The files
+// the client has now are kept as the current branch's snapshot, and the
+// project's files are replaced with the snapshot of the branch switched to
+export async function switchBranch(
+  projectId: string,
+  messageId: string,
+  index: number,
+  files: Record<string, FileNode>
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+    include: {
+      files: {
+        select: {
+          path: true,
+          contentHash: true,
+        },
+      },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const nodes = await prisma.message.findMany({
+    where: {
+      projectId,
+    },
+    select: MESSAGE_TREE_SELECT,
+  });
+  const currentPath = getMessagePath(nodes, project.activeMessageId);
+  const messageIndex = findPathIndex(nodes, currentPath, messageId);
+  if (messageIndex === -1) {
+    throw new Error("Message not found");
+  }
+
+  const target = getSiblings(nodes, currentPath[messageIndex])[index];
+  if (!target) {
+    throw new Error("Branch not found");
+  }
+
+  // Keep edits made since the current branch's last turn
+  const currentLeaf = currentPath[currentPath.length - 1];
+  const currentSnapshot = await prisma.projectVersion.findFirst({
+    where: {
+      projectId,
+      lastMessageId: currentLeaf,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+  if (
+    !currentSnapshot ||
+    !hasSameFiles(JSON.parse(currentSnapshot.data), files)
+  ) {
+    await prisma.projectVersion.create({
+      data: {
+        projectId,
+        messageIndex: currentPath.length,
+        lastMessageId: currentLeaf,
+        data: JSON.stringify(files),
+      },
+    });
+  }
+
+  const path = getMessagePath(nodes, findLatestLeaf(nodes, target.id));
+  const snapshot = await prisma.projectVersion.findFirst({
+    where: {
+      projectId,
+      lastMessageId: {
+        in: path,
+      },
+    },
+    // The deepest snapshot, and the newest of those
+    orderBy: [
+      {
+        messageIndex: "desc",
+      },
+      {
+        createdAt: "desc",
+      },
+    ],
+  });
+  // A branch with no finished turn, like a first prompt on an imported
+  // project, keeps the files the project has now rather than losing them
+  const data: Record<string, FileNode> = snapshot
+    ? JSON.parse(snapshot.data)
+    : files;
+
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    data: {
+      activeMessageId: path[path.length - 1],
+      files: diffProjectFiles(projectId, project.files, data),
+    },
+  });
+
+  const recentIds = path.slice(-RECENT_MESSAGE_LIMIT);
+  const messages = await prisma.message.findMany({
+    where: {
+      id: {
+        in: recentIds,
+      },
+    },
+    orderBy: {
+      position: "asc",
+    },
+  });
+
+  return {
+    messages: messages.map(fromMessageRow),
+    olderMessageCount: path.length - recentIds.length,
+    branches: getBranchPoints(nodes, path),
+    data,
+  };
+}
@@ -0,0 +1,35 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Moves the project to the trash; it can be restored until it is purged
+export async function trashProject(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    data: {
+      deletedAt: new Date(),
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { getUser } from "@/actions";
 import { getProject } from "@/actions/get-project";
 import { MainContent } from "@/app/main-content";
+import { getModelOptions, resolveModelId } from "@/lib/provider";
 import { redirect } from "next/navigation";
 
 // Force dynamic rendering - this page depends on user session and database
@@ -26,5 +27,12 @@ export default async function ProjectPage({ params }: PageProps) {
     redirect("/");
   }
 
-  return <MainContent user={user} project={project} />;
+  return (
+    <MainContent
+      user={user}
+      project={project}
+      models={getModelOptions()}
+      model={resolveModelId(project.model)}
+    />
+  );
 }
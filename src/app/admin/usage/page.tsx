@@ -0,0 +1,18 @@
+import { notFound } from "next/navigation";
+import { getUserUsage } from "@/actions/get-user-usage";
+import { UserUsageTable } from "./user-usage-table";
+
+// Force dynamic rendering - usage changes with every chat turn
+export const dynamic = 'force-dynamic';
+
+export default async function AdminUsagePage() {
+  let users;
+  try {
+    users = await getUserUsage();
+  } catch {
+    // Signed out or not an admin
+    notFound();
+  }
+
+  return <UserUsageTable users={users} />;
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { setTokenQuota } from "@/actions/set-token-quota";
+import {
+  formatCost,
+  formatTokens,
+  type UsageSummary,
+} from "@/lib/token-usage";
+
+interface UserUsage {
+  id: string;
+  email: string;
+  quota: number | null;
+  month: UsageSummary;
+}
+
+function QuotaForm({ user }: { user: UserUsage }) {
+  const [quota, setQuota] = useState(user.quota);
+  const [draft, setDraft] = useState(user.quota?.toString() ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = draft.trim() === "" ? null : Number(draft);
+  const isValid =
+    parsed === null || (Number.isSafeInteger(parsed) && parsed >= 0);
+
+  const save = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await setTokenQuota(user.id, parsed);
+      setQuota(updated.monthlyTokenQuota);
+    } catch (err) {
+      console.error("Failed to set quota:", err);
+      setError("Could not save the quota.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className="flex items-center justify-end gap-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        save();
+      }}
+    >
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <Input
+        inputMode="numeric"
+        value={draft}
+        placeholder="No limit"
+        aria-label={`Monthly token quota for ${user.email}`}
+        aria-invalid={!isValid}
+        className="h-8 w-36 text-right text-sm tabular-nums"
+        onChange={(event) => setDraft(event.target.value)}
+      />
+      <Button
+        type="submit"
+        size="sm"
+        variant="outline"
+        className="h-8"
+        disabled={isSaving || !isValid || parsed === quota}
+      >
+        Save
+      </Button>
+    </form>
+  );
+}
+
+// Admin view of what each user spent this month, with their quotas
+export function UserUsageTable({ users }: { users: UserUsage[] }) {
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="h-14 border-b border-neutral-200/60 px-6 flex items-center gap-3 bg-neutral-50/50">
+        <Link
+          href="/"
+          className="text-neutral-500 hover:text-neutral-900"
+          title="Back to projects"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Link>
+        <h1 className="text-lg font-semibold text-neutral-900 tracking-tight">
+          Token usage this month
+        </h1>
+      </div>
+
+      <div className="mx-auto max-w-5xl p-6">
+        <p className="mb-4 text-sm text-neutral-500">
+          Quotas count every token a turn uses, cached or not, and reset on the
+          first of each month (UTC). They are checked before each turn, so the
+          turn that reaches a quota still finishes. Leave a quota empty for no
+          limit.
+        </p>
+        <table className="w-full overflow-hidden rounded-lg border border-neutral-200 bg-white text-sm">
+          <thead className="bg-neutral-50 text-left text-xs text-neutral-500">
+            <tr>
+              <th className="px-4 py-2 font-medium">User</th>
+              <th className="px-4 py-2 text-right font-medium">Turns</th>
+              <th className="px-4 py-2 text-right font-medium">Tokens</th>
+              <th className="px-4 py-2 text-right font-medium">Cache reads</th>
+              <th className="px-4 py-2 text-right font-medium">Est. cost</th>
+              <th className="px-4 py-2 text-right font-medium">Monthly quota</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-neutral-100">
+            {users.map((user) => (
+              <tr key={user.id}>
+                <td className="px-4 py-2 text-neutral-900">{user.email}</td>
+                <td className="px-4 py-2 text-right tabular-nums">
+                  {user.month.turns}
+                </td>
+                <td className="px-4 py-2 text-right tabular-nums">
+                  {formatTokens(user.month.totalTokens)}
+                </td>
+                <td className="px-4 py-2 text-right tabular-nums text-neutral-500">
+                  {formatTokens(user.month.cacheReadInputTokens)}
+                </td>
+                <td className="px-4 py-2 text-right tabular-nums">
+                  {formatCost(user.month.costUsd)}
+                </td>
+                <td className="px-4 py-2">
+                  <QuotaForm user={user} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * @vitest-environment node
+ */
+import { test, expect, vi, afterEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+const { streamText } = vi.hoisted(() => ({
+  streamText: vi.fn(() => ({
+    toDataStreamResponse: () => new Response("stream"),
+  })),
+}));
+
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  streamText,
+}));
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {},
+}));
+
+vi.mock("@/lib/provider", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/provider")>()),
+  getLanguageModel: () => ({ provider: "mock", modelId: "mock" }),
+}));
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+test("POST sends attached images to the model as image parts", async () => {
+  const { POST } = await import("@/app/api/chat/route");
+
+  const response = await POST(
+    new Request("http://localhost/api/chat", {
+      method: "POST",
+      body: JSON.stringify({
+        files: {},
+        messages: [
+          {
+            id: "user-1",
+            role: "user",
+            content: "Build this",
+            experimental_attachments: [
+              {
+                name: "mockup.png",
+                contentType: "image/png",
+                url: "data:image/png;base64,iVBORw0KGgo=",
+              },
+            ],
+          },
+        ],
+      }),
+    })
+  );
+
+  expect(await response.text()).toBe("stream");
+  const [{ messages }] = streamText.mock.calls[0] as unknown as [
+    { messages: any[] },
+  ];
+  expect(messages[0].role).toBe("system");
+  expect(messages[1]).toEqual({
+    role: "user",
+    content: [
+      { type: "text", text: "Build this" },
+      {
+        type: "image",
+        image: "data:image/png;base64,iVBORw0KGgo=",
+        mediaType: "image/png",
+      },
+    ],
+  });
+});
+
+test("POST rejects attachments that aren't inline images", async () => {
+  const { POST } = await import("@/app/api/chat/route");
+
+  const response = await POST(
+    new Request("http://localhost/api/chat", {
+      method: "POST",
+      body: JSON.stringify({
+        files: {},
+        messages: [
+          {
+            id: "user-1",
+            role: "user",
+            content: "Build this",
+            experimental_attachments: [
+              {
+                name: "mockup.png",
+                contentType: "image/png",
+                url: "https://example.com/mockup.png",
+              },
+            ],
+          },
+        ],
+      }),
+    })
+  );
+
+  expect(response.status).toBe(400);
+  expect(await response.text()).toBe(
+    "Attachments must be inline base64 data URLs of their type"
+  );
+  expect(streamText).not.toHaveBeenCalled();
+});
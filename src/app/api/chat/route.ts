@@ -3,20 +3,167 @@ import { VirtualFileSystem } from "@/lib/file-system";
 import { streamText } from "ai";
 import { buildStrReplaceTool } from "@/lib/tools/str-replace";
 import { buildFileManagerTool } from "@/lib/tools/file-manager";
+import { buildPreviewErrorsTool } from "@/lib/tools/preview-errors";
+import { buildSearchFilesTool } from "@/lib/tools/search-files";
+import type { PreviewError } from "@/lib/transform/preview-bridge";
 import { prisma } from "@/lib/prisma";
 import { getSession } from "@/lib/auth";
 import { getLanguageModel } from "@/lib/provider";
 import { generationPrompt } from "@/lib/prompts/generation";
+import {
+  findNewMessages,
+  findPathIndex,
+  fromMessageRow,
+  getMessagePath,
+  getMessageText,
+  MESSAGE_TREE_SELECT,
+  toMessageRows,
+  toModelMessage,
+} from "@/lib/chat-messages";
+import { diffProjectFiles } from "@/lib/project-files";
+import { validateAttachments } from "@/lib/image-attachments";
+import {
+  createRecordedScenario,
+  recordScenarioSteps,
+} from "@/lib/mock-scenarios";
+import { saveScenario } from "@/lib/mock-scenario-files";
+import {
+  estimateCost,
+  quotaExceededMessage,
+  startOfMonth,
+  startOfNextMonth,
+  sumStepUsage,
+  toUsageSummary,
+  USAGE_SUM,
+} from "@/lib/token-usage";
+import {
+  generateProjectTitle,
+  isDefaultProjectName,
+} from "@/lib/project-title";
 
 export async function POST(req: Request) {
   const {
     messages,
     files,
     projectId,
-  }: { messages: any[]; files: Record<string, FileNode>; projectId?: string } =
-    await req.json();
+    previewErrors = [],
+    branchFrom,
+    model: modelId,
+  }: {
+    messages: any[];
+    files: Record<string, FileNode>;
+    projectId?: string;
+    previewErrors?: PreviewError[];
+    // Id of an edited or regenerated user message: this turn starts a new
+    // branch beside it, and the branch it was on is kept
+    branchFrom?: string;
+    // Registry id of the model picked in the chat header
+    model?: string;
+  } = await req.json();
 
-  messages.unshift({
+  for (const message of messages) {
+    const error = validateAttachments(message);
+    if (error) {
+      return new Response(error, {
+        status: 400,
+      });
+    }
+  }
+
+  const session = await getSession();
+
+  // An admin may have capped how many tokens the user spends a month. The
+  // cap is soft: it is checked before a turn, so the turn that crosses it
+  // still runs to the end
+  if (session) {
+    const user = await prisma.user.findUnique({
+      where: {
+        id: session.userId,
+      },
+      select: {
+        monthlyTokenQuota: true,
+      },
+    });
+    const quota = user?.monthlyTokenQuota;
+    if (quota != null) {
+      const usage = await prisma.tokenUsage.aggregate({
+        where: {
+          userId: session.userId,
+          createdAt: {
+            gte: startOfMonth(),
+          },
+        },
+        _sum: USAGE_SUM,
+        _count: {
+          _all: true,
+        },
+      });
+      if (toUsageSummary(usage).totalTokens >= quota) {
+        return new Response(quotaExceededMessage(quota, startOfNextMonth()), {
+          status: 429,
+        });
+      }
+    }
+  }
+
+  // For a saved project the stored history is authoritative: the client may
+  // only have loaded the most recent messages
+  let history = [...messages];
+  let newMessages = messages;
+  let storedCount = 0;
+  let parentId: string | null = null;
+  let usageProjectId: string | null = null;
+  if (projectId && session) {
+    const project = await prisma.project.findUnique({
+      where: {
+        id: projectId,
+        userId: session.userId,
+        deletedAt: null,
+      },
+      select: {
+        activeMessageId: true,
+      },
+    });
+    usageProjectId = project ? projectId : null;
+    const nodes = await prisma.message.findMany({
+      where: {
+        projectId,
+        project: {
+          userId: session.userId,
+        },
+      },
+      select: MESSAGE_TREE_SELECT,
+    });
+    let path = getMessagePath(nodes, project?.activeMessageId ?? null);
+
+    if (branchFrom) {
+      const branchAt = findPathIndex(nodes, path, branchFrom);
+      if (branchAt !== -1) {
+        path = path.slice(0, branchAt);
+      }
+    }
+
+    const rows = await prisma.message.findMany({
+      where: {
+        id: {
+          in: path,
+        },
+      },
+      orderBy: {
+        position: "asc",
+      },
+    });
+
+    storedCount = rows.length;
+    parentId = path[path.length - 1] ?? null;
+    newMessages = findNewMessages(
+      messages,
+      new Set(rows.map((row: any) => row.messageId).filter(Boolean))
+    );
+    history = [...rows.map(fromMessageRow), ...newMessages];
+  }
+
+  history.unshift({
     role: "system",
     content: generationPrompt,
     providerOptions: {
@@ -28,13 +175,19 @@ export async function POST(req: Request) {
   const fileSystem = new VirtualFileSystem();
   fileSystem.deserializeFromNodes(files);
 
-  const model = getLanguageModel();
+  const model = getLanguageModel(modelId);
   // Use fewer steps for mock provider to prevent repetition
-  const isMockProvider = !process.env.ANTHROPIC_API_KEY;
+  const isMockProvider = model.provider === "mock";
+  // Saves real model turns as mock scenarios that replay them
+  const recordDir = process.env.RECORD_MOCK_SCENARIOS_DIR?.trim();
+  const recording =
+    recordDir && !isMockProvider ? recordScenarioSteps(model) : null;
   const result = streamText({
     // Cast to any to handle version differences in AI SDK types
-    model: model as any,
-    messages,
+    model: (recording?.model ?? model) as any,
+    messages: history.map(toModelMessage),
+    // Stop generating when the client stops the request
+    abortSignal: req.signal,
     maxTokens: 10_000,
     maxSteps: isMockProvider ? 4 : 40,
     onError: (err: any) => {
@@ -43,35 +196,141 @@ export async function POST(req: Request) {
     tools: {
       str_replace_editor: buildStrReplaceTool(fileSystem),
       file_manager: buildFileManagerTool(fileSystem),
+      search_files: buildSearchFilesTool(fileSystem),
+      read_preview_errors: buildPreviewErrorsTool(previewErrors),
     },
-    onFinish: async ({ response }) => {
+    onFinish: async ({ response, steps }) => {
+      // Calls made for this turn after it ends, such as naming the project,
+      // are added to this record
+      let usageRecordId: string | null = null;
+      try {
+        const usage = sumStepUsage(steps || []);
+        const record = await prisma.tokenUsage.create({
+          data: {
+            userId: session?.userId ?? null,
+            projectId: usageProjectId,
+            model: model.modelId,
+            ...usage,
+            costUsd: estimateCost(model.modelId, usage),
+          },
+        });
+        usageRecordId = record.id;
+      } catch (error) {
+        console.error("Failed to record token usage:", error);
+      }
+
+      if (recording && recordDir) {
+        try {
+          const lastUserMessage = [...history]
+            .reverse()
+            .find((m: any) => m.role === "user");
+          await saveScenario(
+            recordDir,
+            createRecordedScenario(
+              lastUserMessage ? getMessageText(lastUserMessage) : "",
+              recording.steps
+            )
+          );
+        } catch (error) {
+          console.error("Failed to record mock scenario:", error);
+        }
+      }
+
       // Save to project if projectId is provided and user is authenticated
       if (projectId) {
         try {
-          // Check if user is authenticated
-          const session = await getSession();
           if (!session) {
             console.error("User not authenticated, cannot save project");
             return;
           }
 
-          // Combine original messages with response messages
-          const responseMessages = response.messages || [];
-          const allMessages = [
-            ...messages.filter((m: any) => m.role !== "system"),
-            ...responseMessages,
-          ];
+          // Append this turn's messages to the branch rather than
+          // rewriting the history
+          const turnMessages = [...newMessages, ...(response.messages || [])];
+          const messageCount = storedCount + turnMessages.length;
+          const turnRows = toMessageRows(turnMessages, storedCount, parentId);
+          const lastMessageId = turnRows[turnRows.length - 1]?.id ?? parentId;
+
+          const data = fileSystem.serialize();
+          const serializedData = JSON.stringify(data);
+
+          // Write only the files this turn added, changed or removed
+          const storedFiles = await prisma.projectFile.findMany({
+            where: {
+              projectId,
+              project: {
+                userId: session.userId,
+              },
+            },
+            select: {
+              path: true,
+              contentHash: true,
+            },
+          });
 
-          await prisma.project.update({
+          const project = await prisma.project.update({
             where: {
               id: projectId,
               userId: session.userId,
+              deletedAt: null,
             },
             data: {
-              messages: JSON.stringify(allMessages),
-              data: JSON.stringify(fileSystem.serialize()),
+              files: diffProjectFiles(projectId, storedFiles, data),
+              activeMessageId: lastMessageId,
+              messages: {
+                create: turnRows,
+              },
+              // Snapshot every turn so a bad generation can be rolled back
+              versions: {
+                create: {
+                  messageIndex: messageCount,
+                  lastMessageId,
+                  data: serializedData,
+                },
+              },
             },
           });
+
+          // Name the project after the first prompt, unless the user has
+          // already picked a name of their own
+          const userMessages = history.filter((m: any) => m.role === "user");
+          if (userMessages.length === 1 && isDefaultProjectName(project.name)) {
+            const { title, usage } = await generateProjectTitle(
+              getMessageText(userMessages[0]),
+              model
+            );
+            if (usage && usageRecordId) {
+              await prisma.tokenUsage.update({
+                where: {
+                  id: usageRecordId,
+                },
+                data: {
+                  inputTokens: { increment: usage.inputTokens },
+                  outputTokens: { increment: usage.outputTokens },
+                  cacheCreationInputTokens: {
+                    increment: usage.cacheCreationInputTokens,
+                  },
+                  cacheReadInputTokens: {
+                    increment: usage.cacheReadInputTokens,
+                  },
+                  costUsd: { increment: estimateCost(model.modelId, usage) },
+                },
+              });
+            }
+            if (title) {
+              // Matching on the old name keeps a rename made meanwhile
+              await prisma.project.updateMany({
+                where: {
+                  id: projectId,
+                  userId: session.userId,
+                  name: project.name,
+                },
+                data: {
+                  name: title,
+                },
+              });
+            }
+          }
         } catch (error) {
           console.error("Failed to save project data:", error);
         }
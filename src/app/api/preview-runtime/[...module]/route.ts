@@ -0,0 +1,32 @@
+import {
+  buildVendoredModule,
+  isVendoredModule,
+  readTailwindRuntime,
+} from "@/lib/vendored-modules";
+
+interface RouteContext {
+  params: Promise<{ module: string[] }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { module } = await params;
+  const specifier = module.join("/").replace(/\.js$/, "");
+
+  let code: string;
+  if (specifier === "tailwind") {
+    code = await readTailwindRuntime();
+  } else if (isVendoredModule(specifier)) {
+    code = await buildVendoredModule(specifier);
+  } else {
+    return Response.json({ error: "Module not found" }, { status: 404 });
+  }
+
+  return new Response(code, {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+      // Isolated previews have an opaque origin, and module scripts need CORS
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
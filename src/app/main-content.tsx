@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import {
   ResizableHandle,
   ResizablePanel,
@@ -8,12 +8,22 @@ import {
 } from "@/components/ui/resizable";
 import { FileSystemProvider } from "@/lib/contexts/file-system-context";
 import { ChatProvider } from "@/lib/contexts/chat-context";
+import type { BranchInfo } from "@/lib/chat-messages";
+import {
+  PreviewConsoleProvider,
+  usePreviewConsole,
+} from "@/lib/contexts/preview-console-context";
 import { ChatInterface } from "@/components/chat/ChatInterface";
+import { ModelSelector } from "@/components/chat/ModelSelector";
 import { FileTree } from "@/components/editor/FileTree";
 import { CodeEditor } from "@/components/editor/CodeEditor";
 import { PreviewFrame } from "@/components/preview/PreviewFrame";
+import { PreviewConsole } from "@/components/preview/PreviewConsole";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { HeaderActions } from "@/components/HeaderActions";
+import { VersionTimeline } from "@/components/VersionTimeline";
+import type { ModelOption } from "@/lib/provider";
+import { cn } from "@/lib/utils";
 
 interface MainContentProps {
   user?: {
@@ -24,94 +34,157 @@ interface MainContentProps {
     id: string;
     name: string;
     messages: any[];
+    olderMessageCount?: number;
+    branches?: Record<string, BranchInfo>;
     data: any;
+    shareToken?: string | null;
     createdAt: Date;
     updatedAt: Date;
   };
+  // Models the server offers, and the one the chat starts with
+  models?: ModelOption[];
+  model?: string;
 }
 
-export function MainContent({ user, project }: MainContentProps) {
-  const [activeView, setActiveView] = useState<"preview" | "code">("preview");
+type ActiveView = "preview" | "code" | "console";
+
+const tabTriggerClassName =
+  "data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all";
+
+function ConsoleTabTrigger() {
+  const { entries } = usePreviewConsole();
+  const errorCount = entries.filter((entry) => entry.level === "error").length;
 
   return (
-    <FileSystemProvider initialData={project?.data}>
-      <ChatProvider projectId={project?.id} initialMessages={project?.messages}>
-        <div className="h-screen w-screen overflow-hidden bg-neutral-50">
-          <ResizablePanelGroup direction="horizontal" className="h-full">
-            {/* Left Panel - Chat */}
-            <ResizablePanel defaultSize={35} minSize={25} maxSize={50}>
-              <div className="h-full flex flex-col bg-white">
-                {/* Chat Header */}
-                <div className="h-14 flex items-center px-6 border-b border-neutral-200/60">
-                  <h1 className="text-lg font-semibold text-neutral-900 tracking-tight">React Component Generator</h1>
-                </div>
+    <TabsTrigger value="console" className={tabTriggerClassName}>
+      Console
+      {errorCount > 0 && (
+        <span className="ml-1.5 rounded-full bg-red-100 px-1.5 text-xs text-red-700">
+          {errorCount}
+        </span>
+      )}
+    </TabsTrigger>
+  );
+}
 
-                {/* Chat Content */}
-                <div className="flex-1 overflow-hidden">
-                  <ChatInterface />
-                </div>
-              </div>
-            </ResizablePanel>
+export function MainContent({
+  user,
+  project,
+  models = [],
+  model,
+}: MainContentProps) {
+  const [activeView, setActiveView] = useState<ActiveView>("preview");
+  const openCodeView = useCallback(() => setActiveView("code"), []);
 
-            <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
+  return (
+    <FileSystemProvider initialData={project?.data}>
+      <PreviewConsoleProvider>
+        <ChatProvider
+          projectId={project?.id}
+          initialMessages={project?.messages}
+          olderMessageCount={project?.olderMessageCount}
+          branches={project?.branches}
+          model={model}
+        >
+          <div className="h-screen w-screen overflow-hidden bg-neutral-50">
+            <ResizablePanelGroup direction="horizontal" className="h-full">
+              {/* Left Panel - Chat */}
+              <ResizablePanel defaultSize={35} minSize={25} maxSize={50}>
+                <div className="h-full flex flex-col bg-white">
+                  {/* Chat Header */}
+                  <div className="h-14 flex items-center justify-between gap-3 px-6 border-b border-neutral-200/60">
+                    <h1 className="text-lg font-semibold text-neutral-900 tracking-tight truncate">React Component Generator</h1>
+                    <ModelSelector models={models} />
+                  </div>
 
-            {/* Right Panel - Preview/Code */}
-            <ResizablePanel defaultSize={65}>
-              <div className="h-full flex flex-col bg-white">
-                {/* Top Bar */}
-                <div className="h-14 border-b border-neutral-200/60 px-6 flex items-center justify-between bg-neutral-50/50">
-                  <Tabs
-                    value={activeView}
-                    onValueChange={(v) =>
-                      setActiveView(v as "preview" | "code")
-                    }
-                  >
-                    <TabsList className="bg-white/60 border border-neutral-200/60 p-0.5 h-9 shadow-sm">
-                      <TabsTrigger value="preview" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Preview</TabsTrigger>
-                      <TabsTrigger value="code" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Code</TabsTrigger>
-                    </TabsList>
-                  </Tabs>
-                  <HeaderActions user={user} projectId={project?.id} />
+                  {/* Chat Content */}
+                  <div className="flex-1 overflow-hidden">
+                    <ChatInterface />
+                  </div>
                 </div>
+              </ResizablePanel>
 
-                {/* Content Area */}
-                <div className="flex-1 overflow-hidden bg-neutral-50">
-                  {activeView === "preview" ? (
-                    <div className="h-full bg-white">
-                      <PreviewFrame />
-                    </div>
-                  ) : (
-                    <ResizablePanelGroup
-                      direction="horizontal"
-                      className="h-full"
+              <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
+
+              {/* Right Panel - Preview/Code */}
+              <ResizablePanel defaultSize={65}>
+                <div className="h-full flex flex-col bg-white">
+                  {/* Top Bar */}
+                  <div className="h-14 border-b border-neutral-200/60 px-6 flex items-center justify-between bg-neutral-50/50">
+                    <Tabs
+                      value={activeView}
+                      onValueChange={(v) =>
+                        setActiveView(v as ActiveView)
+                      }
                     >
-                      {/* File Tree */}
-                      <ResizablePanel
-                        defaultSize={30}
-                        minSize={20}
-                        maxSize={50}
-                      >
-                        <div className="h-full bg-neutral-50 border-r border-neutral-200">
-                          <FileTree />
+                      <TabsList className="bg-white/60 border border-neutral-200/60 p-0.5 h-9 shadow-sm">
+                        <TabsTrigger value="preview" className={tabTriggerClassName}>Preview</TabsTrigger>
+                        <TabsTrigger value="code" className={tabTriggerClassName}>Code</TabsTrigger>
+                        <ConsoleTabTrigger />
+                      </TabsList>
+                    </Tabs>
+                    <div className="flex items-center gap-2">
+                      {user && project && (
+                        <VersionTimeline projectId={project.id} />
+                      )}
+                      <HeaderActions
+                        user={user}
+                        projectId={project?.id}
+                        shareToken={project?.shareToken}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Content Area */}
+                  <div className="flex-1 overflow-hidden bg-neutral-50">
+                    {activeView !== "code" ? (
+                      <>
+                        {/* The preview stays mounted so it keeps logging to the console */}
+                        <div
+                          className={cn(
+                            "h-full bg-white",
+                            activeView === "console" && "hidden"
+                          )}
+                        >
+                          <PreviewFrame onOpenLocation={openCodeView} />
                         </div>
-                      </ResizablePanel>
+                        {activeView === "console" && (
+                          <PreviewConsole onOpenLocation={openCodeView} />
+                        )}
+                      </>
+                    ) : (
+                      <ResizablePanelGroup
+                        direction="horizontal"
+                        className="h-full"
+                      >
+                        {/* File Tree */}
+                        <ResizablePanel
+                          defaultSize={30}
+                          minSize={20}
+                          maxSize={50}
+                        >
+                          <div className="h-full bg-neutral-50 border-r border-neutral-200">
+                            <FileTree projectId={project?.id} />
+                          </div>
+                        </ResizablePanel>
 
-                      <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
+                        <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
 
-                      {/* Code Editor */}
-                      <ResizablePanel defaultSize={70}>
-                        <div className="h-full bg-white">
-                          <CodeEditor />
-                        </div>
-                      </ResizablePanel>
-                    </ResizablePanelGroup>
-                  )}
+                        {/* Code Editor */}
+                        <ResizablePanel defaultSize={70}>
+                          <div className="h-full bg-white">
+                            <CodeEditor />
+                          </div>
+                        </ResizablePanel>
+                      </ResizablePanelGroup>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </ResizablePanel>
-          </ResizablePanelGroup>
-        </div>
-      </ChatProvider>
+              </ResizablePanel>
+            </ResizablePanelGroup>
+          </div>
+        </ChatProvider>
+      </PreviewConsoleProvider>
     </FileSystemProvider>
   );
 }
@@ -2,6 +2,7 @@ import { getUser } from "@/actions";
 import { getProjects } from "@/actions/get-projects";
 import { createProject } from "@/actions/create-project";
 import { MainContent } from "./main-content";
+import { getModelOptions, resolveModelId } from "@/lib/provider";
 import { redirect } from "next/navigation";
 
 export default async function Home() {
@@ -26,5 +27,11 @@ export default async function Home() {
   }
 
   // For anonymous users, show the main content without a project
-  return <MainContent user={user} />;
+  return (
+    <MainContent
+      user={user}
+      models={getModelOptions()}
+      model={resolveModelId()}
+    />
+  );
 }
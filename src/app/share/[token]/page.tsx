@@ -0,0 +1,21 @@
+import { notFound } from "next/navigation";
+import { getSharedProject } from "@/actions/get-shared-project";
+import { SharedContent } from "./shared-content";
+
+// Force dynamic rendering - revoking or rotating a link must take effect immediately
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function SharedProjectPage({ params }: PageProps) {
+  const { token } = await params;
+  const project = await getSharedProject(token);
+
+  if (!project) {
+    notFound();
+  }
+
+  return <SharedContent name={project.name} data={project.data} />;
+}
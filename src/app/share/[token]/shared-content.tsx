@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import { FileSystemProvider } from "@/lib/contexts/file-system-context";
+import { PreviewConsoleProvider } from "@/lib/contexts/preview-console-context";
+import { FileTree } from "@/components/editor/FileTree";
+import { CodeEditor } from "@/components/editor/CodeEditor";
+import { PreviewFrame } from "@/components/preview/PreviewFrame";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Eye } from "lucide-react";
+
+interface SharedContentProps {
+  name: string;
+  data: Record<string, any>;
+}
+
+type SharedView = "preview" | "code";
+
+const tabTriggerClassName =
+  "data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all";
+
+// Read-only view of a shared project: the live preview and, on request, its code
+export function SharedContent({ name, data }: SharedContentProps) {
+  const [activeView, setActiveView] = useState<SharedView>("preview");
+  const openCodeView = useCallback(() => setActiveView("code"), []);
+
+  return (
+    <FileSystemProvider initialData={data}>
+      <PreviewConsoleProvider>
+        <div className="h-screen w-screen overflow-hidden flex flex-col bg-white">
+          <div className="h-14 border-b border-neutral-200/60 px-6 flex items-center justify-between bg-neutral-50/50">
+            <div className="flex items-center gap-3 min-w-0">
+              <h1 className="text-lg font-semibold text-neutral-900 tracking-tight truncate">
+                {name}
+              </h1>
+              <span className="flex items-center gap-1 rounded-full bg-neutral-100 px-2 py-0.5 text-xs text-neutral-600">
+                <Eye className="h-3 w-3" />
+                Read-only
+              </span>
+            </div>
+            <Tabs
+              value={activeView}
+              onValueChange={(v) => setActiveView(v as SharedView)}
+            >
+              <TabsList className="bg-white/60 border border-neutral-200/60 p-0.5 h-9 shadow-sm">
+                <TabsTrigger value="preview" className={tabTriggerClassName}>Preview</TabsTrigger>
+                <TabsTrigger value="code" className={tabTriggerClassName}>Code</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+
+          <div className="flex-1 overflow-hidden bg-neutral-50">
+            {activeView === "preview" ? (
+              <div className="h-full bg-white">
+                <PreviewFrame onOpenLocation={openCodeView} isolated />
+              </div>
+            ) : (
+              <ResizablePanelGroup direction="horizontal" className="h-full">
+                <ResizablePanel defaultSize={25} minSize={15} maxSize={50}>
+                  <div className="h-full bg-neutral-50 border-r border-neutral-200">
+                    <FileTree readOnly />
+                  </div>
+                </ResizablePanel>
+
+                <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
+
+                <ResizablePanel defaultSize={75}>
+                  <div className="h-full bg-white">
+                    <CodeEditor readOnly />
+                  </div>
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            )}
+          </div>
+        </div>
+      </PreviewConsoleProvider>
+    </FileSystemProvider>
+  );
+}
@@ -1,13 +1,45 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Plus, LogOut, FolderOpen, ChevronDown } from "lucide-react";
+import {
+  Plus,
+  LogOut,
+  FolderOpen,
+  ChevronDown,
+  Download,
+  Share2,
+  Copy,
+  Check,
+  RefreshCw,
+  Link2Off,
+  CopyPlus,
+  GitFork,
+  Pencil,
+  Trash2,
+  RotateCcw,
+  ArrowLeft,
+} from "lucide-react";
 import { AuthDialog } from "@/components/auth/AuthDialog";
+import { UsagePopover } from "@/components/UsagePopover";
 import { signOut } from "@/actions";
 import { getProjects } from "@/actions/get-projects";
 import { createProject } from "@/actions/create-project";
+import { duplicateProject } from "@/actions/duplicate-project";
+import { renameProject } from "@/actions/rename-project";
+import { trashProject } from "@/actions/trash-project";
+import { restoreProject } from "@/actions/restore-project";
+import { purgeProject } from "@/actions/purge-project";
+import { getTrashedProjects } from "@/actions/get-trashed-projects";
+import { shareProject } from "@/actions/share-project";
+import { revokeProjectShare } from "@/actions/revoke-project-share";
+import { Input } from "@/components/ui/input";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import { createViteProjectZip } from "@/lib/vite-export";
+import { cn } from "@/lib/utils";
+import { getMessageText } from "@/lib/chat-messages";
 import {
   Popover,
   PopoverContent,
@@ -20,6 +52,7 @@ import {
   CommandInput,
   CommandItem,
   CommandList,
+  CommandSeparator,
 } from "@/components/ui/command";
 
 interface HeaderActionsProps {
@@ -28,6 +61,7 @@ interface HeaderActionsProps {
     email: string;
   } | null;
   projectId?: string;
+  shareToken?: string | null;
 }
 
 interface Project {
@@ -37,14 +71,299 @@ interface Project {
   updatedAt: Date;
 }
 
-export function HeaderActions({ user, projectId }: HeaderActionsProps) {
+interface TrashedProject {
+  id: string;
+  name: string;
+  deletedAt: Date;
+}
+
+function ProjectItem({
+  project,
+  onOpen,
+  onRename,
+  onTrash,
+}: {
+  project: Project;
+  onOpen: () => void;
+  onRename: (name: string) => Promise<void>;
+  onTrash: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(project.name);
+  // Enter submits the form and then blurs the input as it unmounts; only
+  // the first of the two renames
+  const isSubmittedRef = useRef(false);
+
+  const submitRename = async () => {
+    if (isSubmittedRef.current) return;
+    isSubmittedRef.current = true;
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== project.name) {
+      await onRename(trimmed);
+    }
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <form
+        className="px-2 py-1"
+        onSubmit={(event) => {
+          event.preventDefault();
+          submitRename();
+        }}
+      >
+        <Input
+          autoFocus
+          value={name}
+          aria-label="Project name"
+          maxLength={100}
+          className="h-7 text-sm"
+          onChange={(event) => setName(event.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(event) => {
+            // Keep the command menu from handling keys typed into the name
+            event.stopPropagation();
+            if (event.key === "Escape") {
+              setName(project.name);
+              setIsEditing(false);
+            }
+          }}
+        />
+      </form>
+    );
+  }
+
+  return (
+    <CommandItem
+      value={project.id + " " + project.name}
+      onSelect={onOpen}
+      className="group"
+    >
+      <span className="flex-1 truncate font-medium">{project.name}</span>
+      <button
+        type="button"
+        className="opacity-0 group-hover:opacity-100 group-data-[selected=true]:opacity-100 text-neutral-500 hover:text-neutral-900"
+        title="Rename"
+        onClick={(event) => {
+          event.stopPropagation();
+          setName(project.name);
+          isSubmittedRef.current = false;
+          setIsEditing(true);
+        }}
+      >
+        <Pencil className="h-3.5 w-3.5" />
+      </button>
+      <button
+        type="button"
+        className="opacity-0 group-hover:opacity-100 group-data-[selected=true]:opacity-100 text-neutral-500 hover:text-red-600"
+        title="Move to trash"
+        onClick={(event) => {
+          event.stopPropagation();
+          onTrash();
+        }}
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </button>
+    </CommandItem>
+  );
+}
+
+function TrashedProjectItem({
+  project,
+  onRestore,
+  onPurge,
+}: {
+  project: TrashedProject;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  const [confirmingPurge, setConfirmingPurge] = useState(false);
+
+  return (
+    <CommandItem
+      value={project.id + " " + project.name}
+      onSelect={onRestore}
+      className="group"
+    >
+      <span className="flex-1 truncate text-neutral-600">{project.name}</span>
+      <button
+        type="button"
+        className="text-neutral-500 hover:text-neutral-900"
+        title="Restore"
+        onClick={(event) => {
+          event.stopPropagation();
+          onRestore();
+        }}
+      >
+        <RotateCcw className="h-3.5 w-3.5" />
+      </button>
+      <button
+        type="button"
+        className={cn(
+          "text-xs text-neutral-500 hover:text-red-600",
+          confirmingPurge && "text-red-600 font-medium"
+        )}
+        title="Delete permanently"
+        onClick={(event) => {
+          event.stopPropagation();
+          if (confirmingPurge) {
+            onPurge();
+          } else {
+            setConfirmingPurge(true);
+          }
+        }}
+      >
+        {confirmingPurge ? "Delete forever?" : <Trash2 className="h-3.5 w-3.5" />}
+      </button>
+    </CommandItem>
+  );
+}
+
+function SharePopover({
+  projectId,
+  initialShareToken,
+}: {
+  projectId: string;
+  initialShareToken: string | null;
+}) {
+  const [shareToken, setShareToken] = useState(initialShareToken);
+  const [isPending, setIsPending] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runShareAction = async (action: () => Promise<string | null>) => {
+    setIsPending(true);
+    setError(null);
+    setCopied(false);
+    try {
+      setShareToken(await action());
+    } catch (err) {
+      console.error("Failed to update share link:", err);
+      setError("Could not update the share link. Please try again.");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const shareUrl =
+    shareToken && typeof window !== "undefined"
+      ? `${window.location.origin}/share/${shareToken}`
+      : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy share link:", error);
+    }
+  };
+
+  return (
+    <Popover onOpenChange={() => setCopied(false)}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Share">
+          <Share2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[340px] space-y-3" align="end">
+        <div>
+          <p className="text-sm font-medium text-neutral-900">Public link</p>
+          <p className="text-xs text-neutral-500 mt-1">
+            Anyone with the link can view the live preview and code. The chat
+            stays private and nothing can be edited.
+          </p>
+        </div>
+
+        {shareToken ? (
+          <>
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={shareUrl}
+                aria-label="Share link"
+                className="h-8 text-xs"
+                onFocus={(event) => event.target.select()}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={handleCopy}
+                title="Copy link"
+              >
+                {copied ? (
+                  <Check className="h-4 w-4" />
+                ) : (
+                  <Copy className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 gap-1.5"
+                disabled={isPending}
+                onClick={() =>
+                  runShareAction(() => shareProject(projectId, { rotate: true }))
+                }
+                title="Replace the link; the old one stops working"
+              >
+                <RefreshCw className="h-3.5 w-3.5" />
+                Rotate
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 gap-1.5 text-red-600 hover:text-red-700"
+                disabled={isPending}
+                onClick={() =>
+                  runShareAction(async () => {
+                    await revokeProjectShare(projectId);
+                    return null;
+                  })
+                }
+              >
+                <Link2Off className="h-3.5 w-3.5" />
+                Revoke
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button
+            size="sm"
+            className="h-8 w-full"
+            disabled={isPending}
+            onClick={() => runShareAction(() => shareProject(projectId))}
+          >
+            Create public link
+          </Button>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function HeaderActions({
+  user,
+  projectId,
+  shareToken = null,
+}: HeaderActionsProps) {
   const router = useRouter();
+  const { getAllFiles } = useFileSystem();
+  const { messages, status } = useChat();
   const [authDialogOpen, setAuthDialogOpen] = useState(false);
   const [authMode, setAuthMode] = useState<"signin" | "signup">("signin");
   const [projectsOpen, setProjectsOpen] = useState(false);
   const [projects, setProjects] = useState<Project[]>([]);
   const [initialLoading, setInitialLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashedProjects, setTrashedProjects] = useState<TrashedProject[]>([]);
 
   // Load projects initially
   useEffect(() => {
@@ -63,9 +382,18 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
     }
   }, [projectsOpen, user]);
 
+  useEffect(() => {
+    if (user && projectsOpen && showTrash) {
+      getTrashedProjects().then(setTrashedProjects).catch(console.error);
+    }
+  }, [projectsOpen, showTrash, user]);
+
   const filteredProjects = projects.filter((project) =>
     project.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const filteredTrash = trashedProjects.filter((project) =>
+    project.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
 
   const currentProject = projects.find((p) => p.id === projectId);
 
@@ -83,6 +411,112 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
     await signOut();
   };
 
+  const handleExport = () => {
+    const name = currentProject?.name || "uigen-project";
+    try {
+      const zip = createViteProjectZip(getAllFiles(), name);
+      const url = URL.createObjectURL(
+        new Blob([zip as BlobPart], { type: "application/zip" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${name.replace(/[^\w.-]+/g, "-")}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export project:", error);
+    }
+  };
+
+  const exportButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8"
+      onClick={handleExport}
+      title="Download as Vite project"
+    >
+      <Download className="h-4 w-4" />
+    </Button>
+  );
+
+  // Prompts the current project can be forked after, most recent first
+  const forkPoints = messages
+    .filter((message) => message.role === "user" && message.id)
+    .map((message) => ({
+      id: message.id,
+      text: getMessageText(message).replace(/\s+/g, " ").trim(),
+    }))
+    .filter((message) => message.text)
+    .reverse();
+  const isGenerating = status === "submitted" || status === "streaming";
+
+  const handleDuplicate = async (throughMessageId?: string) => {
+    if (!projectId) return;
+    try {
+      const project = await duplicateProject(projectId, { throughMessageId });
+      handleProjectsOpenChange(false);
+      router.push(`/${project.id}`);
+    } catch (error) {
+      console.error("Failed to duplicate project:", error);
+    }
+  };
+
+  const handleRename = async (id: string, name: string) => {
+    try {
+      const renamed = await renameProject(id, name);
+      setProjects((current) =>
+        current.map((project) => (project.id === id ? renamed : project))
+      );
+    } catch (error) {
+      console.error("Failed to rename project:", error);
+    }
+  };
+
+  const handleTrash = async (id: string) => {
+    try {
+      await trashProject(id);
+      setProjects((current) => current.filter((project) => project.id !== id));
+      if (id === projectId) {
+        setProjectsOpen(false);
+        router.push("/");
+      }
+    } catch (error) {
+      console.error("Failed to move project to trash:", error);
+    }
+  };
+
+  const handleRestore = async (id: string) => {
+    try {
+      await restoreProject(id);
+      setTrashedProjects((current) =>
+        current.filter((project) => project.id !== id)
+      );
+      setProjects(await getProjects());
+    } catch (error) {
+      console.error("Failed to restore project:", error);
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    try {
+      await purgeProject(id);
+      setTrashedProjects((current) =>
+        current.filter((project) => project.id !== id)
+      );
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+    }
+  };
+
+  const handleProjectsOpenChange = (open: boolean) => {
+    setProjectsOpen(open);
+    if (!open) {
+      setShowTrash(false);
+      setSearchQuery("");
+    }
+  };
+
   const handleNewDesign = async () => {
     const project = await createProject({
       name: `Design #${~~(Math.random() * 100000)}`,
@@ -96,6 +530,7 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
     return (
       <>
         <div className="flex gap-2">
+          {exportButton}
           <Button variant="outline" className="h-8" onClick={handleSignInClick}>
             Sign In
           </Button>
@@ -115,7 +550,7 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
   return (
     <div className="flex items-center gap-2">
       {!initialLoading && (
-        <Popover open={projectsOpen} onOpenChange={setProjectsOpen}>
+        <Popover open={projectsOpen} onOpenChange={handleProjectsOpenChange}>
           <PopoverTrigger asChild>
             <Button variant="outline" className="h-8 gap-2" role="combobox">
               <FolderOpen className="h-4 w-4" />
@@ -126,35 +561,113 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
           <PopoverContent className="w-[300px] p-0" align="end">
             <Command>
               <CommandInput
-                placeholder="Search projects..."
+                placeholder={showTrash ? "Search trash..." : "Search projects..."}
                 value={searchQuery}
                 onValueChange={setSearchQuery}
               />
-              <CommandList>
-                <CommandEmpty>No projects found.</CommandEmpty>
-                <CommandGroup>
-                  {filteredProjects.map((project) => (
+              {showTrash ? (
+                <CommandList>
+                  <CommandGroup>
+                    <CommandItem
+                      value="Back to projects"
+                      onSelect={() => setShowTrash(false)}
+                    >
+                      <ArrowLeft className="h-4 w-4" />
+                      Back to projects
+                    </CommandItem>
+                  </CommandGroup>
+                  <CommandSeparator />
+                  <CommandGroup heading="Trash">
+                    {filteredTrash.length === 0 && (
+                      <p className="px-2 py-3 text-center text-sm text-neutral-500">
+                        Trash is empty.
+                      </p>
+                    )}
+                    {filteredTrash.map((project) => (
+                      <TrashedProjectItem
+                        key={project.id}
+                        project={project}
+                        onRestore={() => handleRestore(project.id)}
+                        onPurge={() => handlePurge(project.id)}
+                      />
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              ) : (
+                <CommandList>
+                  <CommandEmpty>No projects found.</CommandEmpty>
+                  <CommandGroup>
+                    {filteredProjects.map((project) => (
+                      <ProjectItem
+                        key={project.id}
+                        project={project}
+                        onOpen={() => {
+                          router.push(`/${project.id}`);
+                          handleProjectsOpenChange(false);
+                        }}
+                        onRename={(name) => handleRename(project.id, name)}
+                        onTrash={() => handleTrash(project.id)}
+                      />
+                    ))}
+                  </CommandGroup>
+                  {projectId && (
+                    <>
+                      <CommandSeparator />
+                      <CommandGroup heading="Current project">
+                        <CommandItem
+                          value="Duplicate project"
+                          disabled={isGenerating}
+                          onSelect={() => handleDuplicate()}
+                        >
+                          <CopyPlus className="h-4 w-4" />
+                          Duplicate project
+                        </CommandItem>
+                      </CommandGroup>
+                      {forkPoints.length > 0 && (
+                        <CommandGroup heading="Fork after message">
+                          {forkPoints.map((message) => (
+                            <CommandItem
+                              key={message.id}
+                              value={`fork ${message.id} ${message.text}`}
+                              disabled={isGenerating}
+                              onSelect={() => handleDuplicate(message.id)}
+                            >
+                              <GitFork className="h-4 w-4 shrink-0" />
+                              <span className="truncate">{message.text}</span>
+                            </CommandItem>
+                          ))}
+                        </CommandGroup>
+                      )}
+                    </>
+                  )}
+                  <CommandSeparator />
+                  <CommandGroup>
                     <CommandItem
-                      key={project.id}
-                      value={project.name}
+                      value="Trash"
                       onSelect={() => {
-                        router.push(`/${project.id}`);
-                        setProjectsOpen(false);
+                        setShowTrash(true);
                         setSearchQuery("");
                       }}
                     >
-                      <div className="flex flex-col">
-                        <span className="font-medium">{project.name}</span>
-                      </div>
+                      <Trash2 className="h-4 w-4" />
+                      Trash
                     </CommandItem>
-                  ))}
-                </CommandGroup>
-              </CommandList>
+                  </CommandGroup>
+                </CommandList>
+              )}
             </Command>
           </PopoverContent>
         </Popover>
       )}
 
+      {projectId && (
+        <SharePopover projectId={projectId} initialShareToken={shareToken} />
+      )}
+
+      <UsagePopover projectId={projectId} />
+
+      {exportButton}
+
       <Button className="flex items-center gap-2 h-8" onClick={handleNewDesign}>
         <Plus className="h-4 w-4" />
         New Design
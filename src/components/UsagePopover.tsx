@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { getUsageSummary } from "@/actions/get-usage-summary";
+import {
+  formatCost,
+  formatTokens,
+  type UsageSummary,
+} from "@/lib/token-usage";
+import { cn } from "@/lib/utils";
+
+type Summary = Awaited<ReturnType<typeof getUsageSummary>>;
+
+function UsageBreakdown({ usage }: { usage: UsageSummary }) {
+  const rows = [
+    ["Input", usage.inputTokens],
+    ["Output", usage.outputTokens],
+    ["Cache writes", usage.cacheCreationInputTokens],
+    ["Cache reads", usage.cacheReadInputTokens],
+  ] as const;
+
+  return (
+    <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs">
+      {rows.map(([label, tokens]) => (
+        <div key={label} className="contents">
+          <dt className="text-neutral-500">{label}</dt>
+          <dd className="text-right tabular-nums text-neutral-700">
+            {formatTokens(tokens)}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function QuotaBar({ used, quota }: { used: number; quota: number }) {
+  const percent = quota > 0 ? Math.min(100, (used / quota) * 100) : 100;
+
+  return (
+    <div
+      role="progressbar"
+      aria-label="Monthly quota used"
+      aria-valuenow={Math.round(percent)}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      className="mt-2 h-1.5 overflow-hidden rounded-full bg-neutral-100"
+    >
+      <div
+        className={cn(
+          "h-full rounded-full",
+          percent >= 100
+            ? "bg-red-500"
+            : percent >= 80
+              ? "bg-amber-500"
+              : "bg-blue-500"
+        )}
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  );
+}
+
+// Tokens and estimated cost of the current project and of the account this
+// month, loaded each time the popover opens
+export function UsagePopover({ projectId }: { projectId?: string }) {
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setError(null);
+    try {
+      setSummary(await getUsageSummary(projectId));
+    } catch (err) {
+      console.error("Failed to load usage:", err);
+      setError("Could not load usage. Please try again.");
+    }
+  };
+
+  const resetDate = summary?.resetsAt.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Usage">
+          <Gauge className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] space-y-4" align="end">
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {!summary && !error && (
+          <p className="text-xs text-neutral-500">Loading usage...</p>
+        )}
+        {summary && (
+          <>
+            {summary.project && (
+              <section>
+                <div className="flex items-baseline justify-between">
+                  <p className="text-sm font-medium text-neutral-900">
+                    This project
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    {formatTokens(summary.project.totalTokens)} tokens ·{" "}
+                    {formatCost(summary.project.costUsd)}
+                  </p>
+                </div>
+                <UsageBreakdown usage={summary.project} />
+              </section>
+            )}
+
+            <section>
+              <div className="flex items-baseline justify-between">
+                <p className="text-sm font-medium text-neutral-900">
+                  This month
+                </p>
+                <p className="text-xs text-neutral-500">
+                  {formatCost(summary.month.costUsd)}
+                </p>
+              </div>
+              <p className="mt-1 text-xs text-neutral-600">
+                {summary.quota === null
+                  ? `${formatTokens(summary.month.totalTokens)} tokens in ${summary.month.turns} turns`
+                  : `${formatTokens(summary.month.totalTokens)} of ${formatTokens(summary.quota)} tokens`}
+              </p>
+              {summary.quota !== null && (
+                <>
+                  <QuotaBar
+                    used={summary.month.totalTokens}
+                    quota={summary.quota}
+                  />
+                  <p className="mt-1 text-xs text-neutral-500">
+                    Resets on {resetDate}
+                  </p>
+                </>
+              )}
+              {summary.topProjects.length > 0 && (
+                <ul className="mt-3 space-y-0.5 text-xs">
+                  {summary.topProjects.map((project) => (
+                    <li key={project.id} className="flex justify-between gap-4">
+                      <span className="truncate text-neutral-600">
+                        {project.name}
+                      </span>
+                      <span className="shrink-0 tabular-nums text-neutral-700">
+                        {formatCost(project.usage.costUsd)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <p className="text-xs text-neutral-400">
+              Costs are estimates from list prices. Cache reads of the system
+              prompt cost a tenth of regular input.
+            </p>
+
+            {summary.isAdmin && (
+              <Link
+                href="/admin/usage"
+                className="block text-xs font-medium text-blue-600 hover:text-blue-700"
+              >
+                Manage user quotas
+              </Link>
+            )}
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { History, RotateCcw, Loader2 } from "lucide-react";
+import { getProjectVersions } from "@/actions/get-project-versions";
+import { diffProjectVersion } from "@/actions/diff-project-version";
+import { restoreProjectVersion } from "@/actions/restore-project-version";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import type { FileDiff } from "@/lib/version-diff";
+import { cn } from "@/lib/utils";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface VersionTimelineProps {
+  projectId: string;
+}
+
+interface ProjectVersion {
+  id: string;
+  messageIndex: number;
+  createdAt: Date;
+}
+
+export function VersionTimeline({ projectId }: VersionTimelineProps) {
+  const { restoreFiles } = useFileSystem();
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(
+    null
+  );
+  const [diff, setDiff] = useState<FileDiff[] | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Refresh versions when popover opens
+  useEffect(() => {
+    if (open) {
+      getProjectVersions(projectId).then(setVersions).catch(console.error);
+    } else {
+      setSelectedVersionId(null);
+      setDiff(null);
+    }
+  }, [open, projectId]);
+
+  const handleSelect = async (versionId: string) => {
+    setSelectedVersionId(versionId);
+    setDiff(null);
+    try {
+      setDiff(await diffProjectVersion(projectId, versionId));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleRestore = async (versionId: string) => {
+    setIsRestoring(true);
+    try {
+      const { data } = await restoreProjectVersion(projectId, versionId);
+      restoreFiles(data);
+      setOpen(false);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title="Version history"
+        >
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[340px] p-0" align="end">
+        <div className="px-3 py-2 border-b border-neutral-200 text-sm font-medium text-neutral-900">
+          Version history
+        </div>
+        {versions.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-neutral-500">
+            No versions yet
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <div className="py-1">
+              {versions.map((version, index) => (
+                <div key={version.id}>
+                  <button
+                    className={cn(
+                      "w-full flex items-center justify-between px-3 py-2 text-left text-sm hover:bg-neutral-100",
+                      selectedVersionId === version.id && "bg-blue-50"
+                    )}
+                    onClick={() => handleSelect(version.id)}
+                  >
+                    <span className="text-neutral-700">
+                      {index === 0 ? "Latest" : `Turn ${versions.length - index}`}
+                      <span className="text-neutral-400">
+                        {" "}
+                        · {version.messageIndex} messages
+                      </span>
+                    </span>
+                    <span className="text-xs text-neutral-400">
+                      {new Date(version.createdAt).toLocaleTimeString()}
+                    </span>
+                  </button>
+                  {selectedVersionId === version.id && (
+                    <div className="px-3 pb-3 space-y-2">
+                      {diff === null ? (
+                        <div className="flex items-center gap-2 text-xs text-neutral-500">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Comparing with current files...
+                        </div>
+                      ) : diff.length === 0 ? (
+                        <p className="text-xs text-neutral-500">
+                          Same as current files
+                        </p>
+                      ) : (
+                        <ul className="space-y-1 text-xs">
+                          {diff.map((file) => (
+                            <li
+                              key={file.path}
+                              className="flex items-center justify-between gap-2"
+                            >
+                              <span className="truncate font-mono text-neutral-700">
+                                {file.path}
+                              </span>
+                              <span className="shrink-0">
+                                {file.status === "modified" ? (
+                                  <>
+                                    <span className="text-emerald-600">
+                                      +{file.additions}
+                                    </span>{" "}
+                                    <span className="text-red-600">
+                                      -{file.deletions}
+                                    </span>
+                                  </>
+                                ) : (
+                                  <span className="text-neutral-500">
+                                    {file.status === "added"
+                                      ? "added since"
+                                      : "removed since"}
+                                  </span>
+                                )}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="w-full h-7"
+                        disabled={isRestoring}
+                        onClick={() => handleRestore(version.id)}
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        Restore this version
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -8,10 +8,41 @@ import { useChat } from "@/lib/contexts/chat-context";
 
 export function ChatInterface() {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const { messages, input, handleInputChange, handleSubmit, status } = useChat();
+  const {
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    attachments,
+    addImages,
+    removeAttachment,
+    status,
+    error,
+    autoFix,
+    setAutoFix,
+    hasOlderMessages,
+    isLoadingOlderMessages,
+    loadOlderMessages,
+    stop,
+    regenerate,
+    editMessage,
+    branches,
+    isSwitchingBranch,
+    switchBranch,
+  } = useChat();
+  const isGenerating = status === "submitted" || status === "streaming";
+  const isBusy = isGenerating || isSwitchingBranch;
+
+  // Older messages are prepended, so only a change to the newest message
+  // should scroll to the bottom
+  const newestMessageRef = useRef<unknown>(null);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
+    const newestMessage = messages[messages.length - 1];
+    if (newestMessage && newestMessage === newestMessageRef.current) return;
+    newestMessageRef.current = newestMessage;
+
     if (scrollAreaRef.current) {
       const scrollContainer = scrollAreaRef.current.querySelector(
         "[data-radix-scroll-area-viewport]"
@@ -26,15 +57,39 @@ export function ChatInterface() {
     <div className="flex flex-col h-full p-4 overflow-hidden">
       <ScrollArea ref={scrollAreaRef} className="flex-1 overflow-hidden">
         <div className="pr-4 h-full">
-          <MessageList messages={messages} isLoading={status === "streaming"} />
+          <MessageList
+            messages={messages}
+            isLoading={status === "streaming"}
+            hasOlderMessages={hasOlderMessages}
+            isLoadingOlderMessages={isLoadingOlderMessages}
+            onLoadOlderMessages={loadOlderMessages}
+            onEditMessage={isBusy ? undefined : editMessage}
+            onRegenerate={isBusy ? undefined : regenerate}
+            branches={branches}
+            onSwitchBranch={isBusy ? undefined : switchBranch}
+          />
         </div>
       </ScrollArea>
       <div className="mt-4 flex-shrink-0">
+        {error && !isGenerating && (
+          <p
+            role="alert"
+            className="mx-4 mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700"
+          >
+            {error.message || "Something went wrong. Please try again."}
+          </p>
+        )}
         <MessageInput
           input={input}
           handleInputChange={handleInputChange}
           handleSubmit={handleSubmit}
-          isLoading={status === "submitted" || status === "streaming"}
+          isLoading={isBusy}
+          autoFix={autoFix}
+          onAutoFixChange={setAutoFix}
+          onStop={isGenerating ? stop : undefined}
+          attachments={attachments}
+          onAddImages={addImages}
+          onRemoveAttachment={removeAttachment}
         />
       </div>
     </div>
@@ -1,13 +1,36 @@
 "use client";
 
-import { ChangeEvent, FormEvent, KeyboardEvent } from "react";
-import { Send } from "lucide-react";
+import {
+  ChangeEvent,
+  ClipboardEvent,
+  DragEvent,
+  FormEvent,
+  KeyboardEvent,
+  useRef,
+  useState,
+} from "react";
+import Image from "next/image";
+import { ImagePlus, Send, Square, Wrench, X } from "lucide-react";
+import {
+  getAttachmentBytes,
+  MAX_IMAGES_PER_MESSAGE,
+  SUPPORTED_IMAGE_TYPES,
+  validateImageFile,
+  type ImageAttachment,
+} from "@/lib/image-attachments";
 
 interface MessageInputProps {
   input: string;
   handleInputChange: (e: ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: FormEvent<HTMLFormElement>) => void;
   isLoading: boolean;
+  autoFix?: boolean;
+  onAutoFixChange?: (enabled: boolean) => void;
+  onStop?: () => void;
+  // Images are only accepted when onAddImages is given
+  attachments?: ImageAttachment[];
+  onAddImages?: (files: File[]) => void;
+  onRemoveAttachment?: (index: number) => void;
 }
 
 export function MessageInput({
@@ -15,7 +38,71 @@ export function MessageInput({
   handleInputChange,
   handleSubmit,
   isLoading,
+  autoFix = false,
+  onAutoFixChange,
+  onStop,
+  attachments = [],
+  onAddImages,
+  onRemoveAttachment,
 }: MessageInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Passes on the files that can be attached and explains the first that can't
+  const addImages = (files: File[]) => {
+    if (!onAddImages || isLoading || files.length === 0) return;
+
+    let error: string | null = null;
+    let attachedBytes = attachments.reduce(
+      (total, attachment) => total + getAttachmentBytes(attachment),
+      0
+    );
+    const valid = files.filter((file) => {
+      const problem = validateImageFile(file, attachedBytes);
+      error ??= problem;
+      if (!problem) attachedBytes += file.size;
+      return !problem;
+    });
+    const room = MAX_IMAGES_PER_MESSAGE - attachments.length;
+    if (valid.length > room) {
+      error ??= `You can attach up to ${MAX_IMAGES_PER_MESSAGE} images per message`;
+    }
+
+    setImageError(error);
+    if (room > 0 && valid.length > 0) {
+      onAddImages(valid.slice(0, room));
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (!onAddImages || files.length === 0) return;
+
+    // Screenshots paste as files; plain text pastes as usual
+    e.preventDefault();
+    addImages(files);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+    if (!onAddImages || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    if (!onAddImages) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addImages(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    addImages(Array.from(e.target.files || []));
+    // Let the same file be picked again after removing it
+    e.target.value = "";
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -27,24 +114,110 @@ export function MessageInput({
   };
 
   return (
-    <form onSubmit={handleSubmit} className="relative p-4 bg-white border-t border-neutral-200/60">
+    <form
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`relative p-4 bg-white border-t border-neutral-200/60 ${isDragging ? 'bg-blue-50/50' : ''}`}
+    >
       <div className="relative max-w-4xl mx-auto">
+        {attachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {attachments.map((attachment, index) => (
+              <div key={index} className="group relative">
+                <Image
+                  src={attachment.url}
+                  alt={attachment.name}
+                  width={64}
+                  height={64}
+                  unoptimized
+                  className="h-16 w-16 rounded-lg border border-neutral-200 object-cover"
+                />
+                {onRemoveAttachment && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveAttachment(index)}
+                    aria-label={`Remove ${attachment.name}`}
+                    className="absolute -right-1.5 -top-1.5 rounded-full border border-neutral-200 bg-white p-0.5 text-neutral-500 shadow-sm hover:text-neutral-900"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
         <textarea
           value={input}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           placeholder="Describe the React component you want to create..."
           disabled={isLoading}
           className="w-full min-h-[80px] max-h-[200px] pl-4 pr-14 py-3.5 rounded-xl border border-neutral-200 bg-neutral-50/50 text-neutral-900 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/10 focus:border-blue-500/50 focus:bg-white transition-all placeholder:text-neutral-400 text-[15px] font-normal shadow-sm"
           rows={3}
         />
-        <button 
-          type="submit" 
-          disabled={isLoading || !input?.trim()}
-          className="absolute right-3 bottom-3 p-2.5 rounded-lg transition-all hover:bg-blue-50 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent group"
-        >
-          <Send className={`h-4 w-4 transition-transform group-hover:translate-x-0.5 group-hover:-translate-y-0.5 ${isLoading || !input?.trim() ? 'text-neutral-300' : 'text-blue-600'}`} />
-        </button>
+        {isLoading && onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            aria-label="Stop generating"
+            title="Stop generating"
+            className="absolute right-3 bottom-3 p-2.5 rounded-lg transition-all hover:bg-neutral-100"
+          >
+            <Square className="h-4 w-4 fill-neutral-700 text-neutral-700" />
+          </button>
+        ) : (
+          <button 
+            type="submit" 
+            disabled={isLoading || !input?.trim()}
+            className="absolute right-3 bottom-3 p-2.5 rounded-lg transition-all hover:bg-blue-50 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent group"
+          >
+            <Send className={`h-4 w-4 transition-transform group-hover:translate-x-0.5 group-hover:-translate-y-0.5 ${isLoading || !input?.trim() ? 'text-neutral-300' : 'text-blue-600'}`} />
+          </button>
+        )}
+        {imageError && (
+          <p role="alert" className="mt-2 text-xs text-red-600">
+            {imageError}
+          </p>
+        )}
+        {onAddImages && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SUPPORTED_IMAGE_TYPES.join(",")}
+              multiple
+              onChange={handleFileChange}
+              className="hidden"
+              data-testid="image-file-input"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading || attachments.length >= MAX_IMAGES_PER_MESSAGE}
+              title="Attach images: you can also paste or drop them"
+              className="mt-2 mr-2 inline-flex items-center gap-1.5 rounded-md px-2 py-1 text-xs text-neutral-500 transition-colors hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <ImagePlus className="h-3 w-3" />
+              Attach images
+            </button>
+          </>
+        )}
+        {onAutoFixChange && (
+          <button
+            type="button"
+            role="switch"
+            aria-checked={autoFix}
+            onClick={() => onAutoFixChange(!autoFix)}
+            title="Send preview errors back to the model after each generation"
+            className={`mt-2 inline-flex items-center gap-1.5 rounded-md px-2 py-1 text-xs transition-colors ${autoFix ? 'bg-blue-50 text-blue-700' : 'text-neutral-500 hover:bg-neutral-100'}`}
+          >
+            <Wrench className="h-3 w-3" />
+            Auto-fix preview errors
+          </button>
+        )}
       </div>
     </form>
   );
@@ -1,17 +1,115 @@
 "use client";
 
+import { KeyboardEvent, useState } from "react";
+import Image from "next/image";
 import { Message } from "ai";
 import { cn } from "@/lib/utils";
-import { User, Bot, Loader2 } from "lucide-react";
+import {
+  User,
+  Bot,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+import type { BranchInfo } from "@/lib/chat-messages";
+import { getImageAttachments } from "@/lib/image-attachments";
 import { MarkdownRenderer } from "./MarkdownRenderer";
 import { ToolInvocationBadge } from "./ToolInvocationBadge";
 
 interface MessageListProps {
   messages: Message[];
   isLoading?: boolean;
+  hasOlderMessages?: boolean;
+  isLoadingOlderMessages?: boolean;
+  onLoadOlderMessages?: () => void;
+  // Left out while a response is generating
+  onEditMessage?: (messageId: string, content: string) => void;
+  onRegenerate?: () => void;
+  // User messages with other versions, by message id
+  branches?: Record<string, BranchInfo>;
+  onSwitchBranch?: (messageId: string, index: number) => void;
 }
 
-export function MessageList({ messages, isLoading }: MessageListProps) {
+function BranchSwitcher({
+  branch,
+  onSwitch,
+}: {
+  branch: BranchInfo;
+  // Left out while a response is generating
+  onSwitch?: (index: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1 text-xs text-neutral-500">
+      <button
+        type="button"
+        onClick={() => onSwitch?.(branch.index - 1)}
+        disabled={!onSwitch || branch.index === 0}
+        aria-label="Previous branch"
+        className="rounded p-0.5 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </button>
+      <span className="tabular-nums">
+        {branch.index + 1} / {branch.count}
+      </span>
+      <button
+        type="button"
+        onClick={() => onSwitch?.(branch.index + 1)}
+        disabled={!onSwitch || branch.index === branch.count - 1}
+        aria-label="Next branch"
+        className="rounded p-0.5 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
+function getMessageText(message: Message): string {
+  if (message.content) return message.content;
+  return (message.parts || [])
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
+
+export function MessageList({
+  messages,
+  isLoading,
+  hasOlderMessages,
+  isLoadingOlderMessages,
+  onLoadOlderMessages,
+  onEditMessage,
+  onRegenerate,
+  branches = {},
+  onSwitchBranch,
+}: MessageListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = (message: Message) => {
+    setEditingId(message.id);
+    setDraft(getMessageText(message));
+  };
+
+  const submitEdit = () => {
+    if (!editingId || !draft.trim() || !onEditMessage) return;
+    onEditMessage(editingId, draft);
+    setEditingId(null);
+  };
+
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === "Escape") {
+      setEditingId(null);
+    }
+  };
+
+  const lastMessage = messages[messages.length - 1];
+
   if (messages.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full px-4 text-center">
@@ -27,6 +125,21 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
   return (
     <div className="flex flex-col h-full overflow-y-auto px-4 py-6">
       <div className="space-y-6 max-w-4xl mx-auto w-full">
+        {hasOlderMessages && onLoadOlderMessages && (
+          <div className="flex justify-center">
+            <button
+              type="button"
+              onClick={onLoadOlderMessages}
+              disabled={isLoadingOlderMessages}
+              className="flex items-center gap-2 rounded-full border border-neutral-200 bg-white px-3 py-1 text-xs text-neutral-600 shadow-sm hover:bg-neutral-50 disabled:opacity-60"
+            >
+              {isLoadingOlderMessages && (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              )}
+              Load earlier messages
+            </button>
+          </div>
+        )}
         {messages.map((message) => (
           <div
             key={message.id || message.content}
@@ -47,78 +160,165 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
               "flex flex-col gap-2 max-w-[85%]",
               message.role === "user" ? "items-end" : "items-start"
             )}>
-              <div className={cn(
-                "rounded-xl px-4 py-3",
-                message.role === "user" 
-                  ? "bg-blue-600 text-white shadow-sm" 
-                  : "bg-white text-neutral-900 border border-neutral-200 shadow-sm"
-              )}>
-                <div className="text-sm">
-                  {message.parts ? (
-                    <>
-                      {message.parts.map((part, partIndex) => {
-                        switch (part.type) {
-                          case "text":
-                            return message.role === "user" ? (
-                              <span key={partIndex} className="whitespace-pre-wrap">{part.text}</span>
-                            ) : (
-                              <MarkdownRenderer
-                                key={partIndex}
-                                content={part.text}
-                                className="prose-sm"
-                              />
-                            );
-                          case "reasoning":
-                            return (
-                              <div key={partIndex} className="mt-3 p-3 bg-white/50 rounded-md border border-neutral-200">
-                                <span className="text-xs font-medium text-neutral-600 block mb-1">Reasoning</span>
-                                <span className="text-sm text-neutral-700">{part.reasoning}</span>
-                              </div>
-                            );
-                          case "tool-invocation":
-                            return (
-                              <ToolInvocationBadge
-                                key={partIndex}
-                                toolInvocation={part.toolInvocation}
-                              />
-                            );
-                          case "source":
-                            return (
-                              <div key={partIndex} className="mt-2 text-xs text-neutral-500">
-                                Source: {JSON.stringify(part.source)}
-                              </div>
-                            );
-                          case "step-start":
-                            return partIndex > 0 ? <hr key={partIndex} className="my-3 border-neutral-200" /> : null;
-                          default:
-                            return null;
-                        }
-                      })}
-                      {isLoading &&
-                        message.role === "assistant" &&
-                        messages.indexOf(message) === messages.length - 1 && (
-                          <div className="flex items-center gap-2 mt-3 text-neutral-500">
-                            <Loader2 className="h-3 w-3 animate-spin" />
-                            <span className="text-sm">Generating...</span>
-                          </div>
-                        )}
-                    </>
-                  ) : message.content ? (
-                    message.role === "user" ? (
-                      <span className="whitespace-pre-wrap">{message.content}</span>
-                    ) : (
-                      <MarkdownRenderer content={message.content} className="prose-sm" />
-                    )
-                  ) : isLoading &&
-                    message.role === "assistant" &&
-                    messages.indexOf(message) === messages.length - 1 ? (
-                    <div className="flex items-center gap-2 text-neutral-500">
-                      <Loader2 className="h-3 w-3 animate-spin" />
-                      <span className="text-sm">Generating...</span>
+              {editingId === message.id ? (
+                <div className="flex w-full min-w-[280px] flex-col gap-2 rounded-xl border border-blue-200 bg-white p-2 shadow-sm">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    aria-label="Edit message"
+                    autoFocus
+                    rows={3}
+                    className="w-full resize-none rounded-lg bg-neutral-50/50 px-3 py-2 text-sm text-neutral-900 focus:outline-none focus:ring-2 focus:ring-blue-500/10"
+                  />
+                  <p className="px-1 text-xs text-neutral-500">
+                    Later messages will be removed and files restored to this point.
+                  </p>
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="rounded-md px-2.5 py-1 text-xs text-neutral-600 hover:bg-neutral-100"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={submitEdit}
+                      disabled={!draft.trim()}
+                      className="rounded-md bg-blue-600 px-2.5 py-1 text-xs text-white hover:bg-blue-700 disabled:opacity-40"
+                    >
+                      Send
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className={cn(
+                  "rounded-xl px-4 py-3",
+                  message.role === "user" 
+                    ? "bg-blue-600 text-white shadow-sm" 
+                    : "bg-white text-neutral-900 border border-neutral-200 shadow-sm"
+                )}>
+                  {getImageAttachments(message).length > 0 && (
+                    <div className="mb-2 flex flex-wrap justify-end gap-2">
+                      {getImageAttachments(message).map((image, imageIndex) => (
+                        <Image
+                          key={imageIndex}
+                          src={image.url}
+                          alt={image.name}
+                          width={240}
+                          height={160}
+                          unoptimized
+                          className="h-auto max-h-40 w-auto max-w-[240px] rounded-lg border border-white/20 object-contain"
+                        />
+                      ))}
                     </div>
-                  ) : null}
+                  )}
+                  <div className="text-sm">
+                    {message.parts ? (
+                      <>
+                        {message.parts.map((part, partIndex) => {
+                          switch (part.type) {
+                            case "text":
+                              return message.role === "user" ? (
+                                <span key={partIndex} className="whitespace-pre-wrap">{part.text}</span>
+                              ) : (
+                                <MarkdownRenderer
+                                  key={partIndex}
+                                  content={part.text}
+                                  className="prose-sm"
+                                />
+                              );
+                            case "reasoning":
+                              return (
+                                <div key={partIndex} className="mt-3 p-3 bg-white/50 rounded-md border border-neutral-200">
+                                  <span className="text-xs font-medium text-neutral-600 block mb-1">Reasoning</span>
+                                  <span className="text-sm text-neutral-700">{part.reasoning}</span>
+                                </div>
+                              );
+                            case "tool-invocation":
+                              return (
+                                <ToolInvocationBadge
+                                  key={partIndex}
+                                  toolInvocation={part.toolInvocation}
+                                />
+                              );
+                            case "source":
+                              return (
+                                <div key={partIndex} className="mt-2 text-xs text-neutral-500">
+                                  Source: {JSON.stringify(part.source)}
+                                </div>
+                              );
+                            case "step-start":
+                              return partIndex > 0 ? <hr key={partIndex} className="my-3 border-neutral-200" /> : null;
+                            default:
+                              return null;
+                          }
+                        })}
+                        {isLoading &&
+                          message.role === "assistant" &&
+                          messages.indexOf(message) === messages.length - 1 && (
+                            <div className="flex items-center gap-2 mt-3 text-neutral-500">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              <span className="text-sm">Generating...</span>
+                            </div>
+                          )}
+                      </>
+                    ) : message.content ? (
+                      message.role === "user" ? (
+                        <span className="whitespace-pre-wrap">{message.content}</span>
+                      ) : (
+                        <MarkdownRenderer content={message.content} className="prose-sm" />
+                      )
+                    ) : isLoading &&
+                      message.role === "assistant" &&
+                      messages.indexOf(message) === messages.length - 1 ? (
+                      <div className="flex items-center gap-2 text-neutral-500">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        <span className="text-sm">Generating...</span>
+                      </div>
+                    ) : null}
+                  </div>
                 </div>
-              </div>
+              )}
+              {message.role === "user" &&
+                editingId !== message.id &&
+                (branches[message.id] || onEditMessage) && (
+                  <div className="flex items-center gap-2">
+                    {branches[message.id] && (
+                      <BranchSwitcher
+                        branch={branches[message.id]}
+                        onSwitch={
+                          onSwitchBranch &&
+                          ((index) => onSwitchBranch(message.id, index))
+                        }
+                      />
+                    )}
+                    {onEditMessage && (
+                      <button
+                        type="button"
+                        onClick={() => startEditing(message)}
+                        aria-label="Edit message"
+                        className="flex items-center gap-1 rounded-md px-1.5 py-0.5 text-xs text-neutral-400 hover:bg-neutral-100 hover:text-neutral-700"
+                      >
+                        <Pencil className="h-3 w-3" />
+                        Edit
+                      </button>
+                    )}
+                  </div>
+                )}
+              {onRegenerate &&
+                message.role === "assistant" &&
+                message === lastMessage && (
+                  <button
+                    type="button"
+                    onClick={onRegenerate}
+                    className="flex items-center gap-1 rounded-md px-1.5 py-0.5 text-xs text-neutral-400 hover:bg-neutral-100 hover:text-neutral-700"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    Regenerate
+                  </button>
+                )}
             </div>
             
             {message.role === "user" && (
@@ -0,0 +1,32 @@
+"use client";
+
+import { useChat } from "@/lib/contexts/chat-context";
+import type { ModelOption } from "@/lib/provider";
+
+interface ModelSelectorProps {
+  models: ModelOption[];
+}
+
+// Picks the model the chat sends requests to; hidden when the server only
+// offers one
+export function ModelSelector({ models }: ModelSelectorProps) {
+  const { model, selectModel, status } = useChat();
+
+  if (models.length < 2) return null;
+
+  return (
+    <select
+      aria-label="Model"
+      value={model ?? models[0].id}
+      disabled={status === "submitted" || status === "streaming"}
+      onChange={(event) => selectModel(event.target.value)}
+      className="h-8 max-w-[200px] truncate rounded-md border border-neutral-200 bg-white px-2 text-sm text-neutral-700 shadow-sm hover:border-neutral-300 focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50"
+    >
+      {models.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { Loader2, FilePlus, FileEdit, Eye, Trash2, ArrowRightLeft } from "lucide-react";
+import { Loader2, FilePlus, FileEdit, Eye, Trash2, ArrowRightLeft, Bug, Search } from "lucide-react";
 
 interface ToolInvocation {
   toolName: string;
@@ -9,6 +9,8 @@ interface ToolInvocation {
     command?: string;
     path?: string;
     new_path?: string;
+    pattern?: string;
+    glob?: string;
   };
   result?: unknown;
 }
@@ -30,6 +32,10 @@ export function getToolDescription(toolInvocation: ToolInvocation): { label: str
         return { label: `Editing ${path || "file"}`, icon: FileEdit };
       case "insert":
         return { label: `Editing ${path || "file"}`, icon: FileEdit };
+      case "multi_edit":
+        return { label: `Editing ${path || "file"}`, icon: FileEdit };
+      case "apply_patch":
+        return { label: "Applying patch", icon: FileEdit };
       case "view":
         return { label: `Reading ${path || "file"}`, icon: Eye };
       default:
@@ -48,6 +54,17 @@ export function getToolDescription(toolInvocation: ToolInvocation): { label: str
     }
   }
 
+  if (toolName === "search_files") {
+    if (args?.pattern) {
+      return { label: `Searching for "${args.pattern}"`, icon: Search };
+    }
+    return { label: `Finding ${args?.glob || "files"}`, icon: Search };
+  }
+
+  if (toolName === "read_preview_errors") {
+    return { label: "Checking preview for errors", icon: Bug };
+  }
+
   return { label: toolName, icon: FileEdit };
 }
 
@@ -20,9 +20,10 @@ vi.mock("@/components/ui/scroll-area", () => ({
 
 // Mock the child components
 vi.mock("../MessageList", () => ({
-  MessageList: ({ messages, isLoading }: any) => (
+  MessageList: ({ messages, isLoading, onEditMessage, onRegenerate }: any) => (
     <div data-testid="message-list">
       {messages.length} messages, loading: {isLoading.toString()}
+      {onEditMessage && onRegenerate && ", editable"}
     </div>
   ),
 }));
@@ -124,6 +125,32 @@ test("isLoading is true when status is streaming", () => {
   expect(submitButton).toHaveProperty("disabled", true);
 });
 
+test("offers editing and regenerating only while idle", () => {
+  (useChat as any).mockReturnValue({
+    ...mockUseChat,
+    status: "submitted",
+    editMessage: vi.fn(),
+    regenerate: vi.fn(),
+  });
+
+  const { rerender } = render(<ChatInterface />);
+  expect(screen.getByTestId("message-list").textContent).not.toContain(
+    "editable"
+  );
+
+  (useChat as any).mockReturnValue({
+    ...mockUseChat,
+    status: "ready",
+    editMessage: vi.fn(),
+    regenerate: vi.fn(),
+  });
+  rerender(<ChatInterface />);
+
+  expect(screen.getByTestId("message-list").textContent).toContain(
+    "editable"
+  );
+});
+
 test("isLoading is false when status is idle", () => {
   (useChat as any).mockReturnValue({
     ...mockUseChat,
@@ -260,4 +260,123 @@ test("submit button click triggers form submission", async () => {
   await userEvent.click(submitButton);
   
   expect(handleSubmit).toHaveBeenCalledOnce();
-});
\ No newline at end of file
+});
+test("shows a stop button instead of send while generating", async () => {
+  const onStop = vi.fn();
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={true}
+      onStop={onStop}
+    />
+  );
+
+  const stopButton = screen.getByRole("button", { name: "Stop generating" });
+  await userEvent.click(stopButton);
+
+  expect(onStop).toHaveBeenCalledOnce();
+  expect(screen.getAllByRole("button")).toHaveLength(1);
+});
+
+function imageFile(name: string, size = 1024, type = "image/png") {
+  const file = new File(["x"], name, { type });
+  Object.defineProperty(file, "size", { value: size });
+  return file;
+}
+
+test("attaches picked images and explains the ones it rejects", async () => {
+  const onAddImages = vi.fn();
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      onAddImages={onAddImages}
+    />
+  );
+
+  // Together the two go past the size limit for one message
+  const mockup = imageFile("mockup.png", 300 * 1024);
+  fireEvent.change(screen.getByTestId("image-file-input"), {
+    target: { files: [mockup, imageFile("huge.png", 300 * 1024)] },
+  });
+
+  expect(onAddImages).toHaveBeenCalledWith([mockup]);
+  expect(screen.getByRole("alert").textContent).toBe(
+    "huge.png is too large: images can add up to 512 KB per message"
+  );
+});
+
+test("attaches pasted screenshots", () => {
+  const onAddImages = vi.fn();
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      onAddImages={onAddImages}
+    />
+  );
+
+  const screenshot = imageFile("image.png");
+  fireEvent.paste(screen.getByRole("textbox"), {
+    clipboardData: { files: [screenshot] },
+  });
+
+  expect(onAddImages).toHaveBeenCalledWith([screenshot]);
+});
+
+test("attaches dropped images up to the per-message limit", () => {
+  const onAddImages = vi.fn();
+  const attachment = {
+    name: "first.png",
+    contentType: "image/png",
+    url: "data:image/png;base64,AA",
+  };
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      attachments={[attachment, attachment, attachment]}
+      onAddImages={onAddImages}
+    />
+  );
+
+  const second = imageFile("second.png");
+  fireEvent.drop(screen.getByRole("textbox").closest("form")!, {
+    dataTransfer: { files: [second, imageFile("third.png")], types: ["Files"] },
+  });
+
+  expect(onAddImages).toHaveBeenCalledWith([second]);
+  expect(screen.getByRole("alert").textContent).toBe(
+    "You can attach up to 4 images per message"
+  );
+});
+
+test("shows thumbnails of attached images that can be removed", async () => {
+  const onRemoveAttachment = vi.fn();
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      attachments={[
+        { name: "mockup.png", contentType: "image/png", url: "data:image/png;base64,AA" },
+      ]}
+      onAddImages={vi.fn()}
+      onRemoveAttachment={onRemoveAttachment}
+    />
+  );
+
+  expect(screen.getByRole("img", { name: "mockup.png" })).toBeDefined();
+  await userEvent.click(screen.getByRole("button", { name: "Remove mockup.png" }));
+
+  expect(onRemoveAttachment).toHaveBeenCalledWith(0);
+});
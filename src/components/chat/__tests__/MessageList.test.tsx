@@ -1,5 +1,5 @@
 import { test, expect, vi, afterEach } from "vitest";
-import { render, screen, cleanup } from "@testing-library/react";
+import { render, screen, cleanup, fireEvent } from "@testing-library/react";
 import { MessageList } from "../MessageList";
 import type { Message } from "ai";
 
@@ -289,3 +289,129 @@ test("MessageList shows loading for assistant message with empty parts", () => {
   );
   expect(generatingElements).toHaveLength(1);
 });
+
+test("MessageList edits a user message and sends the new text", () => {
+  const onEditMessage = vi.fn();
+  const messages: Message[] = [
+    { id: "user-1", role: "user", content: "Make a buton" },
+    { id: "assistant-1", role: "assistant", content: "Done" },
+  ];
+
+  render(<MessageList messages={messages} onEditMessage={onEditMessage} />);
+
+  fireEvent.click(screen.getByRole("button", { name: "Edit message" }));
+  const textarea = screen.getByRole("textbox", { name: "Edit message" });
+  expect(textarea).toHaveProperty("value", "Make a buton");
+
+  fireEvent.change(textarea, { target: { value: "Make a button" } });
+  fireEvent.click(screen.getByRole("button", { name: "Send" }));
+
+  expect(onEditMessage).toHaveBeenCalledWith("user-1", "Make a button");
+  expect(screen.queryByRole("textbox")).toBeNull();
+});
+
+test("MessageList cancels an edit with Escape", () => {
+  const onEditMessage = vi.fn();
+  const messages: Message[] = [
+    { id: "user-1", role: "user", content: "Make a button" },
+  ];
+
+  render(<MessageList messages={messages} onEditMessage={onEditMessage} />);
+
+  fireEvent.click(screen.getByRole("button", { name: "Edit message" }));
+  fireEvent.keyDown(screen.getByRole("textbox"), { key: "Escape" });
+
+  expect(screen.queryByRole("textbox")).toBeNull();
+  expect(screen.getByText("Make a button")).toBeDefined();
+  expect(onEditMessage).not.toHaveBeenCalled();
+});
+
+test("MessageList offers regenerating only the last assistant message", () => {
+  const onRegenerate = vi.fn();
+  const messages: Message[] = [
+    { id: "user-1", role: "user", content: "Make a button" },
+    { id: "assistant-1", role: "assistant", content: "Done" },
+    { id: "user-2", role: "user", content: "Make it red" },
+    { id: "assistant-2", role: "assistant", content: "Done again" },
+  ];
+
+  render(<MessageList messages={messages} onRegenerate={onRegenerate} />);
+
+  const buttons = screen.getAllByRole("button", { name: "Regenerate" });
+  expect(buttons).toHaveLength(1);
+  fireEvent.click(buttons[0]);
+
+  expect(onRegenerate).toHaveBeenCalledOnce();
+});
+
+test("MessageList hides edit and regenerate without handlers", () => {
+  const messages: Message[] = [
+    { id: "user-1", role: "user", content: "Make a button" },
+    { id: "assistant-1", role: "assistant", content: "Done" },
+  ];
+
+  render(<MessageList messages={messages} />);
+
+  expect(screen.queryByRole("button")).toBeNull();
+});
+
+test("MessageList steps between the versions of an edited message", () => {
+  const onSwitchBranch = vi.fn();
+  const messages: Message[] = [
+    { id: "user-1", role: "user", content: "Make a red button" },
+    { id: "assistant-1", role: "assistant", content: "Done" },
+  ];
+
+  render(
+    <MessageList
+      messages={messages}
+      branches={{ "user-1": { index: 1, count: 3 } }}
+      onSwitchBranch={onSwitchBranch}
+    />
+  );
+
+  expect(screen.getByText("2 / 3")).toBeDefined();
+  fireEvent.click(screen.getByRole("button", { name: "Previous branch" }));
+  fireEvent.click(screen.getByRole("button", { name: "Next branch" }));
+
+  expect(onSwitchBranch.mock.calls).toEqual([
+    ["user-1", 0],
+    ["user-1", 2],
+  ]);
+});
+
+test("MessageList disables branch switching without a handler", () => {
+  const messages: Message[] = [
+    { id: "user-1", role: "user", content: "Make a red button" },
+  ];
+
+  render(
+    <MessageList
+      messages={messages}
+      branches={{ "user-1": { index: 0, count: 2 } }}
+    />
+  );
+
+  expect(
+    screen.getByRole("button", { name: "Next branch" }).hasAttribute("disabled")
+  ).toBe(true);
+});
+
+test("MessageList shows the images attached to a prompt", () => {
+  const messages = [
+    {
+      id: "user-1",
+      role: "user",
+      content: "Build this",
+      experimental_attachments: [
+        { name: "mockup.png", contentType: "image/png", url: "data:image/png;base64,AA" },
+      ],
+    },
+  ] as Message[];
+
+  render(<MessageList messages={messages} />);
+
+  const image = screen.getByRole("img", { name: "mockup.png" });
+  expect(image.getAttribute("src")).toBe("data:image/png;base64,AA");
+  expect(screen.getByText("Build this")).toBeDefined();
+});
@@ -0,0 +1,63 @@
+import { test, expect, vi, afterEach, beforeEach } from "vitest";
+import { render, screen, cleanup } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ModelSelector } from "../ModelSelector";
+import { useChat } from "@/lib/contexts/chat-context";
+
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: vi.fn(),
+}));
+
+const models = [
+  { id: "anthropic:claude-haiku-4-5", label: "Claude Haiku 4.5" },
+  { id: "anthropic:claude-sonnet-4-5", label: "Claude Sonnet 4.5" },
+  { id: "openai-compatible:llama3.1", label: "llama3.1 (Ollama)" },
+];
+
+const selectModel = vi.fn();
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  (useChat as any).mockReturnValue({
+    model: "anthropic:claude-sonnet-4-5",
+    selectModel,
+    status: "ready",
+  });
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+test("shows the selected model and switches to another", async () => {
+  render(<ModelSelector models={models} />);
+
+  const select = screen.getByLabelText("Model") as HTMLSelectElement;
+  expect(select.value).toBe("anthropic:claude-sonnet-4-5");
+  expect(screen.getAllByRole("option").map((option) => option.textContent))
+    .toEqual(["Claude Haiku 4.5", "Claude Sonnet 4.5", "llama3.1 (Ollama)"]);
+
+  await userEvent.selectOptions(select, "openai-compatible:llama3.1");
+
+  expect(selectModel).toHaveBeenCalledWith("openai-compatible:llama3.1");
+});
+
+test("is disabled while a response is generating", () => {
+  (useChat as any).mockReturnValue({
+    model: "anthropic:claude-sonnet-4-5",
+    selectModel,
+    status: "streaming",
+  });
+
+  render(<ModelSelector models={models} />);
+
+  expect(screen.getByLabelText("Model")).toHaveProperty("disabled", true);
+});
+
+test("renders nothing when the server offers a single model", () => {
+  const { container } = render(
+    <ModelSelector models={[{ id: "mock", label: "Mock (no API key)" }]} />
+  );
+
+  expect(container.innerHTML).toBe("");
+});
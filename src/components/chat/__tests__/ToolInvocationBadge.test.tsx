@@ -61,6 +61,33 @@ describe("getToolDescription", () => {
     expect(result.label).toBe("Moving /old.js");
   });
 
+  it("returns searching description for search_files with a pattern", () => {
+    const result = getToolDescription({
+      toolName: "search_files",
+      state: "partial",
+      args: { pattern: "useState", glob: "**/*.jsx" },
+    });
+    expect(result.label).toBe('Searching for "useState"');
+  });
+
+  it("returns finding description for search_files with only a glob", () => {
+    const result = getToolDescription({
+      toolName: "search_files",
+      state: "partial",
+      args: { glob: "components/**" },
+    });
+    expect(result.label).toBe("Finding components/**");
+  });
+
+  it("returns checking description for read_preview_errors", () => {
+    const result = getToolDescription({
+      toolName: "read_preview_errors",
+      state: "partial",
+      args: {},
+    });
+    expect(result.label).toBe("Checking preview for errors");
+  });
+
   it("falls back to toolName for unknown tools", () => {
     const result = getToolDescription({
       toolName: "unknown_tool",
@@ -1,16 +1,52 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import Editor from "@monaco-editor/react";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
+import type { SourceLocation } from "@/lib/transform/preview-bridge";
 import { Code2 } from "lucide-react";
 
-export function CodeEditor() {
-  const { selectedFile, getFileContent, updateFile } = useFileSystem();
+interface CodeEditorProps {
+  readOnly?: boolean;
+}
+
+export function CodeEditor({ readOnly = false }: CodeEditorProps) {
+  const { selectedFile, getFileContent, updateFile, editorLocation } =
+    useFileSystem();
   const editorRef = useRef<any>(null);
 
+  // The last location revealed, so each one is only jumped to once
+  const revealedLocationRef = useRef<SourceLocation | null>(null);
+
+  const revealLocation = useCallback(() => {
+    const editor = editorRef.current;
+    if (
+      !editor ||
+      !editorLocation ||
+      editorLocation.file !== selectedFile ||
+      revealedLocationRef.current === editorLocation
+    ) {
+      return;
+    }
+
+    revealedLocationRef.current = editorLocation;
+    const position = {
+      lineNumber: editorLocation.line,
+      column: editorLocation.column,
+    };
+    editor.revealPositionInCenter(position);
+    editor.setPosition(position);
+    editor.focus();
+  }, [editorLocation, selectedFile]);
+
+  // Jump to locations opened from the preview or its console
+  useEffect(() => {
+    revealLocation();
+  }, [revealLocation]);
+
   const handleEditorDidMount = (editor: any) => {
     editorRef.current = editor;
+    revealLocation();
   };
 
   const handleEditorChange = (value: string | undefined) => {
@@ -47,7 +83,7 @@ export function CodeEditor() {
         <div className="text-center">
           <Code2 className="h-12 w-12 text-gray-600 mx-auto mb-3" />
           <p className="text-sm text-gray-500">
-            Select a file to edit
+            {readOnly ? "Select a file to view" : "Select a file to edit"}
           </p>
           <p className="text-xs text-gray-600 mt-1">
             Choose a file from the file tree
@@ -74,7 +110,7 @@ export function CodeEditor() {
         lineNumbers: 'on',
         roundedSelection: false,
         scrollBeyondLastLine: false,
-        readOnly: false,
+        readOnly,
         automaticLayout: true,
         wordWrap: 'on',
         padding: { top: 16, bottom: 16 },
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { FileNode } from "@/lib/file-system";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
 import {
@@ -9,9 +9,18 @@ import {
   Folder,
   FolderOpen,
   FileCode,
+  Upload,
+  X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import {
+  readDroppedItems,
+  readSelectedFiles,
+  type ImportResult,
+} from "@/lib/project-import";
+import { saveProjectFiles } from "@/actions/save-project-files";
 
 interface FileTreeNodeProps {
   node: FileNode;
@@ -83,34 +92,219 @@ function FileTreeNode({ node, level }: FileTreeNodeProps) {
   );
 }
 
-export function FileTree() {
-  const { fileSystem, refreshTrigger } = useFileSystem();
-  const rootNode = fileSystem.getNode("/");
+interface ImportReport {
+  imported: number;
+  rejected: ImportResult["rejected"];
+  skipped: number;
+  error?: string;
+  // The files were imported here but saving them to the project failed
+  saveError?: string;
+}
 
-  if (!rootNode || !rootNode.children || rootNode.children.size === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full p-4 text-center">
-        <Folder className="h-12 w-12 text-gray-300 mb-3" />
-        <p className="text-sm text-gray-500">No files yet</p>
-        <p className="text-xs text-gray-400 mt-1">Files will appear here</p>
+function ImportReportPanel({
+  report,
+  onDismiss,
+}: {
+  report: ImportReport;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="border-t border-neutral-200 bg-white px-3 py-2 text-xs">
+      <div className="flex items-start justify-between gap-2">
+        <p className={report.error ? "text-red-600" : "text-neutral-700"}>
+          {report.error ||
+            `Imported ${report.imported} file${report.imported === 1 ? "" : "s"}`}
+        </p>
+        <button
+          type="button"
+          onClick={onDismiss}
+          aria-label="Dismiss import report"
+          className="text-neutral-400 hover:text-neutral-600"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
       </div>
-    );
-  }
+      {report.saveError && (
+        <p className="mt-1.5 text-red-600">
+          Saving to the project failed: {report.saveError}. The files are kept
+          here and saved with your next message.
+        </p>
+      )}
+      {report.rejected.length > 0 && (
+        <div className="mt-1.5">
+          <p className="text-amber-700">
+            Rejected {report.rejected.length} file
+            {report.rejected.length === 1 ? "" : "s"}:
+          </p>
+          <ul className="mt-1 max-h-32 space-y-0.5 overflow-y-auto">
+            {report.rejected.map(({ path, reason }) => (
+              <li key={path} className="truncate text-neutral-500" title={path}>
+                <span className="font-mono">{path}</span> — {reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {report.skipped > 0 && (
+        <p className="mt-1.5 text-neutral-500">
+          Skipped {report.skipped} item{report.skipped === 1 ? "" : "s"} in
+          node_modules, build output or system folders
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface FileTreeProps {
+  // When set, imported files are saved to the project right away
+  projectId?: string;
+  // Hides importing, for views such as shared links that can't change files
+  readOnly?: boolean;
+}
+
+export function FileTree({ projectId, readOnly = false }: FileTreeProps) {
+  const { fileSystem, refreshTrigger, importFiles } = useFileSystem();
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const rootNode = fileSystem.getNode("/");
 
-  const rootChildren = Array.from(rootNode.children.values()).sort((a, b) => {
-    if (a.type !== b.type) {
-      return a.type === "directory" ? -1 : 1;
+  const runImport = async (read: () => Promise<ImportResult>) => {
+    setIsImporting(true);
+    const describe = (error: unknown) =>
+      error instanceof Error ? error.message : String(error);
+    try {
+      const result = await read();
+      const failed = importFiles(result.files);
+      const rejected = [
+        ...result.rejected,
+        ...failed.map((path) => ({
+          path,
+          reason: "conflicts with an existing folder or file",
+        })),
+      ];
+      const imported = Object.keys(result.files).length - failed.length;
+
+      let saveError: string | undefined;
+      if (projectId && imported > 0) {
+        try {
+          await saveProjectFiles(projectId, fileSystem.serialize());
+        } catch (error) {
+          saveError = describe(error);
+        }
+      }
+      setReport({ imported, rejected, skipped: result.skipped, saveError });
+    } catch (error) {
+      setReport({
+        imported: 0,
+        rejected: [],
+        skipped: 0,
+        error: `Import failed: ${describe(error)}`,
+      });
+    } finally {
+      setIsImporting(false);
     }
-    return a.name.localeCompare(b.name);
-  });
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    // DataTransfer items are only readable during the event; readDroppedItems
+    // takes the entries before its first await
+    const dataTransfer = event.dataTransfer;
+    runImport(() => readDroppedItems(dataTransfer));
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (files.length > 0) {
+      runImport(() => readSelectedFiles(files));
+    }
+  };
+
+  const rootChildren =
+    rootNode && rootNode.children
+      ? Array.from(rootNode.children.values()).sort((a, b) => {
+          if (a.type !== b.type) {
+            return a.type === "directory" ? -1 : 1;
+          }
+          return a.name.localeCompare(b.name);
+        })
+      : [];
 
   return (
-    <ScrollArea className="h-full">
-      <div className="py-2" key={refreshTrigger}>
-        {rootChildren.map((child) => (
-          <FileTreeNode key={child.path} node={child} level={0} />
-        ))}
+    <div
+      className={cn(
+        "flex h-full flex-col",
+        isDragging && "bg-blue-50 outline-dashed outline-2 -outline-offset-4 outline-blue-300"
+      )}
+      onDragOver={(event) => {
+        if (readOnly || !event.dataTransfer.types.includes("Files")) return;
+        event.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={readOnly ? undefined : handleDrop}
+    >
+      {!readOnly && (
+        <div className="flex items-center justify-between border-b border-neutral-200 px-3 py-1.5">
+          <span className="text-xs font-medium uppercase tracking-wide text-neutral-500">
+            Files
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs"
+            disabled={isImporting}
+            onClick={() => inputRef.current?.click()}
+            title="Import a zip archive or files"
+          >
+            <Upload className="h-3.5 w-3.5" />
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            className="hidden"
+            data-testid="file-tree-import-input"
+            onChange={handleFileInput}
+          />
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1">
+        {rootChildren.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full p-4 text-center">
+            <Folder className="h-12 w-12 text-gray-300 mb-3" />
+            <p className="text-sm text-gray-500">No files yet</p>
+            <p className="text-xs text-gray-400 mt-1">Files will appear here</p>
+            {!readOnly && (
+              <p className="text-xs text-gray-400 mt-3">
+                Drop a folder or zip archive to import existing components
+              </p>
+            )}
+          </div>
+        ) : (
+          <ScrollArea className="h-full">
+            <div className="py-2" key={refreshTrigger}>
+              {rootChildren.map((child) => (
+                <FileTreeNode key={child.path} node={child} level={0} />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
       </div>
-    </ScrollArea>
+
+      {report && (
+        <ImportReportPanel report={report} onDismiss={() => setReport(null)} />
+      )}
+    </div>
   );
 }
@@ -1,15 +1,32 @@
 import { test, expect, vi, afterEach } from "vitest";
-import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import {
+  render,
+  screen,
+  fireEvent,
+  cleanup,
+  waitFor,
+} from "@testing-library/react";
 import { FileTree } from "@/components/editor/FileTree";
 import {
   type VirtualFileSystem as FileSystem,
   FileNode,
 } from "@/lib/file-system";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { readSelectedFiles } from "@/lib/project-import";
+import { saveProjectFiles } from "@/actions/save-project-files";
 
 // Mock the file system context
 vi.mock("@/lib/contexts/file-system-context");
 
+vi.mock("@/lib/project-import", () => ({
+  readSelectedFiles: vi.fn(),
+  readDroppedItems: vi.fn(),
+}));
+
+vi.mock("@/actions/save-project-files", () => ({
+  saveProjectFiles: vi.fn(),
+}));
+
 // Clean up after each test
 afterEach(() => {
   cleanup();
@@ -33,6 +50,12 @@ vi.mock("lucide-react", () => ({
   FileCode: ({ className }: { className?: string }) => (
     <div className={className}>FileCode</div>
   ),
+  Upload: ({ className }: { className?: string }) => (
+    <div className={className}>Upload</div>
+  ),
+  X: ({ className }: { className?: string }) => (
+    <div className={className}>X</div>
+  ),
 }));
 
 // Helper function to create a mock file system
@@ -335,3 +358,133 @@ test("FileTree re-renders when refreshTrigger changes", () => {
   // The component should still render correctly
   expect(screen.getByText("test.js")).toBeDefined();
 });
+
+test("FileTree imports picked files, saves them and reports rejections", async () => {
+  const serialized = { "/": { type: "directory", name: "/", path: "/" } };
+  const mockFileSystem = {
+    ...createMockFileSystem({
+      "/": { type: "directory", name: "", path: "/", children: new Map() },
+    }),
+    serialize: () => serialized,
+  } as unknown as FileSystem;
+  const importFiles = vi.fn().mockReturnValue(["/components"]);
+
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: mockFileSystem,
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+    importFiles,
+  });
+  (readSelectedFiles as ReturnType<typeof vi.fn>).mockResolvedValue({
+    files: { "/App.jsx": "app", "/Card.jsx": "card", "/components": "x" },
+    rejected: [{ path: "/logo.png", reason: "binary file" }],
+    skipped: 3,
+  });
+
+  render(<FileTree projectId="project-123" />);
+
+  const zip = new File(["zip"], "components.zip");
+  fireEvent.change(screen.getByTestId("file-tree-import-input"), {
+    target: { files: [zip] },
+  });
+
+  await waitFor(() => {
+    expect(screen.getByText("Imported 2 files")).toBeDefined();
+  });
+  expect(readSelectedFiles).toHaveBeenCalledWith([zip]);
+  expect(importFiles).toHaveBeenCalledWith({
+    "/App.jsx": "app",
+    "/Card.jsx": "card",
+    "/components": "x",
+  });
+  expect(saveProjectFiles).toHaveBeenCalledWith("project-123", serialized);
+  expect(screen.getByText("Rejected 2 files:")).toBeDefined();
+  expect(screen.getByText("/logo.png")).toBeDefined();
+  expect(screen.getByText(/Skipped 3 items/)).toBeDefined();
+});
+
+test("FileTree reports a failed save apart from the import", async () => {
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: {
+      ...createMockFileSystem({
+        "/": { type: "directory", name: "", path: "/", children: new Map() },
+      }),
+      serialize: () => ({}),
+    },
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+    importFiles: vi.fn().mockReturnValue([]),
+  });
+  (readSelectedFiles as ReturnType<typeof vi.fn>).mockResolvedValue({
+    files: { "/App.jsx": "app" },
+    rejected: [],
+    skipped: 0,
+  });
+  (saveProjectFiles as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+    new Error("Body exceeded 1 MB limit")
+  );
+
+  render(<FileTree projectId="project-123" />);
+
+  fireEvent.change(screen.getByTestId("file-tree-import-input"), {
+    target: { files: [new File(["x"], "App.jsx")] },
+  });
+
+  await waitFor(() => {
+    expect(screen.getByText("Imported 1 file")).toBeDefined();
+  });
+  expect(
+    screen.getByText(/Saving to the project failed: Body exceeded 1 MB limit/)
+  ).toBeDefined();
+});
+
+test("FileTree reports an import that cannot be read", async () => {
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: createMockFileSystem({
+      "/": { type: "directory", name: "", path: "/", children: new Map() },
+    }),
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+    importFiles: vi.fn(),
+  });
+  (readSelectedFiles as ReturnType<typeof vi.fn>).mockRejectedValue(
+    new Error("The file is not a valid zip archive")
+  );
+
+  render(<FileTree />);
+
+  fireEvent.change(screen.getByTestId("file-tree-import-input"), {
+    target: { files: [new File(["x"], "broken.zip")] },
+  });
+
+  await waitFor(() => {
+    expect(
+      screen.getByText("Import failed: The file is not a valid zip archive")
+    ).toBeDefined();
+  });
+  expect(saveProjectFiles).not.toHaveBeenCalled();
+});
+
+test("FileTree hides importing when read-only", () => {
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: createMockFileSystem({
+      "/": { type: "directory", name: "", path: "/", children: new Map() },
+    }),
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+  });
+
+  render(<FileTree readOnly />);
+
+  expect(screen.getByText("No files yet")).toBeDefined();
+  expect(screen.queryByText("Import")).toBeNull();
+  expect(screen.queryByTestId("file-tree-import-input")).toBeNull();
+});
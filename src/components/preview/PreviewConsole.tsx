@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { Ban, AlertCircle, AlertTriangle, Info, Terminal } from "lucide-react";
+import { usePreviewConsole } from "@/lib/contexts/preview-console-context";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import type { PreviewLogEntry } from "@/lib/transform/preview-bridge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+
+type LevelFilter = "all" | "error" | "warn" | "log";
+
+const FILTERS: Array<{ value: LevelFilter; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "error", label: "Errors" },
+  { value: "warn", label: "Warnings" },
+  { value: "log", label: "Logs" },
+];
+
+function matchesLevel(entry: PreviewLogEntry, filter: LevelFilter): boolean {
+  switch (filter) {
+    case "all":
+      return true;
+    case "error":
+      return entry.level === "error";
+    case "warn":
+      return entry.level === "warn";
+    case "log":
+      return (
+        entry.level === "log" || entry.level === "info" || entry.level === "debug"
+      );
+  }
+}
+
+function LevelIcon({ level }: { level: PreviewLogEntry["level"] }) {
+  switch (level) {
+    case "error":
+      return <AlertCircle className="h-3.5 w-3.5 shrink-0 text-red-500" />;
+    case "warn":
+      return <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-500" />;
+    case "info":
+      return <Info className="h-3.5 w-3.5 shrink-0 text-blue-500" />;
+    default:
+      return <Terminal className="h-3.5 w-3.5 shrink-0 text-neutral-400" />;
+  }
+}
+
+interface PreviewConsoleProps {
+  // Called after a source location is opened in the code editor
+  onOpenLocation?: () => void;
+}
+
+export function PreviewConsole({ onOpenLocation }: PreviewConsoleProps) {
+  const { entries, clear } = usePreviewConsole();
+  const { openFileAt } = useFileSystem();
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>("all");
+  const [textFilter, setTextFilter] = useState("");
+
+  const visibleEntries = entries.filter(
+    (entry) =>
+      matchesLevel(entry, levelFilter) &&
+      entry.message.toLowerCase().includes(textFilter.toLowerCase())
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="h-10 flex items-center gap-2 px-3 border-b border-neutral-200">
+        <button
+          onClick={clear}
+          title="Clear console"
+          className="p-1 rounded text-neutral-500 hover:bg-neutral-100 hover:text-neutral-900"
+        >
+          <Ban className="h-3.5 w-3.5" />
+        </button>
+        <input
+          value={textFilter}
+          onChange={(e) => setTextFilter(e.target.value)}
+          placeholder="Filter"
+          className="h-7 w-48 px-2 rounded border border-neutral-200 bg-neutral-50 text-xs focus:outline-none focus:border-blue-500/50 focus:bg-white"
+        />
+        <div className="flex items-center gap-1">
+          {FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setLevelFilter(filter.value)}
+              className={cn(
+                "px-2 py-1 rounded text-xs text-neutral-600 hover:bg-neutral-100",
+                levelFilter === filter.value &&
+                  "bg-neutral-100 text-neutral-900 font-medium"
+              )}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-neutral-400">
+          {entries.length === 0
+            ? "Console output from the preview will appear here"
+            : "No messages match the filter"}
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 overflow-hidden">
+          <div className="font-mono text-xs">
+            {visibleEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className={cn(
+                  "flex items-start gap-2 px-3 py-1.5 border-b border-neutral-100",
+                  entry.level === "error" && "bg-red-50/60 text-red-800",
+                  entry.level === "warn" && "bg-amber-50/60 text-amber-800"
+                )}
+              >
+                <div className="pt-0.5">
+                  <LevelIcon level={entry.level} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <pre className="whitespace-pre-wrap break-words">
+                    {entry.message}
+                  </pre>
+                  {entry.level === "error" && entry.stack && (
+                    <pre className="mt-1 whitespace-pre-wrap break-words text-neutral-500">
+                      {entry.stack}
+                    </pre>
+                  )}
+                </div>
+                {entry.location && (
+                  <button
+                    onClick={() => {
+                      openFileAt(entry.location!);
+                      onOpenLocation?.();
+                    }}
+                    title="Open in editor"
+                    className="shrink-0 text-neutral-400 hover:text-blue-600 hover:underline"
+                  >
+                    {entry.location.file}:{entry.location.line}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
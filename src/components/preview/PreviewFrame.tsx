@@ -6,15 +6,77 @@ import {
   createImportMap,
   createPreviewHTML,
 } from "@/lib/transform/jsx-transformer";
+import {
+  isPreviewBridgeMessage,
+  isPreviewNavigateMessage,
+  locateSource,
+  mapStackTrace,
+  type PreviewSource,
+} from "@/lib/transform/preview-bridge";
+import { usePreviewConsole } from "@/lib/contexts/preview-console-context";
 import { AlertCircle } from "lucide-react";
 
-export function PreviewFrame() {
+interface PreviewFrameProps {
+  // Called after an error location is opened in the code editor
+  onOpenLocation?: () => void;
+  // Runs the code on an opaque origin, for code the viewer didn't write: on
+  // the app's origin it could act with the viewer's session
+  isolated?: boolean;
+}
+
+export function PreviewFrame({
+  onOpenLocation,
+  isolated = false,
+}: PreviewFrameProps = {}) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const { getAllFiles, refreshTrigger } = useFileSystem();
+  const sourceFilesRef = useRef<Record<string, PreviewSource>>({});
+  const { getAllFiles, refreshTrigger, openFileAt } = useFileSystem();
+  const { addEntry, clear: clearConsole } = usePreviewConsole();
   const [error, setError] = useState<string | null>(null);
   const [entryPoint, setEntryPoint] = useState<string>("/App.jsx");
   const [isFirstLoad, setIsFirstLoad] = useState(true);
 
+  // Forward console output and runtime errors from the preview's bridge script
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (
+        !iframeRef.current ||
+        event.source !== iframeRef.current.contentWindow
+      ) {
+        return;
+      }
+
+      const sourceFiles = sourceFilesRef.current;
+
+      // An error in the preview overlay was clicked
+      if (isPreviewNavigateMessage(event.data)) {
+        const location =
+          event.data.location ?? locateSource(event.data.stack, sourceFiles);
+        if (location) {
+          openFileAt(location);
+          onOpenLocation?.();
+        }
+        return;
+      }
+
+      if (!isPreviewBridgeMessage(event.data)) {
+        return;
+      }
+
+      const { kind, level, message, stack } = event.data;
+      addEntry({
+        kind,
+        level,
+        message: mapStackTrace(message, sourceFiles),
+        stack: mapStackTrace(stack, sourceFiles),
+        location: locateSource(stack, sourceFiles),
+      });
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [addEntry, openFileAt, onOpenLocation]);
+
   useEffect(() => {
     const updatePreview = () => {
       try {
@@ -74,16 +136,41 @@ export function PreviewFrame() {
           return;
         }
 
-        const { importMap, styles, errors } = createImportMap(files);
+        const { importMap, styles, errors, sourceFiles } = createImportMap(
+          files,
+          undefined,
+          isolated
+        );
         const previewHTML = createPreviewHTML(foundEntryPoint, importMap, styles, errors);
 
         if (iframeRef.current) {
+          // Each reload starts a fresh console, like browser devtools
+          clearConsole();
+          sourceFilesRef.current = sourceFiles;
+
+          // Transform errors never reach the iframe, so log them here
+          for (const { path, error: message } of errors) {
+            // Babel reports 0-based columns
+            const position = message.match(/\((\d+):(\d+)\)/);
+            addEntry({
+              kind: "error",
+              level: "error",
+              message: `${path}: ${message}`,
+              location: position
+                ? { file: path, line: Number(position[1]), column: Number(position[2]) + 1 }
+                : { file: path, line: 1, column: 1 },
+            });
+          }
+
           const iframe = iframeRef.current;
 
-          // Need both allow-scripts and allow-same-origin for blob URLs in import map
+          // allow-same-origin lets the import map use blob URLs; isolated
+          // previews go without it and get data URLs instead
           iframe.setAttribute(
             "sandbox",
-            "allow-scripts allow-same-origin allow-forms"
+            isolated
+              ? "allow-scripts allow-forms"
+              : "allow-scripts allow-same-origin allow-forms"
           );
           iframe.srcdoc = previewHTML;
 
@@ -96,7 +183,16 @@ export function PreviewFrame() {
     };
 
     updatePreview();
-  }, [refreshTrigger, getAllFiles, entryPoint, error, isFirstLoad]);
+  }, [
+    refreshTrigger,
+    getAllFiles,
+    entryPoint,
+    error,
+    isFirstLoad,
+    addEntry,
+    clearConsole,
+    isolated,
+  ]);
 
   if (error) {
     if (error === "firstLoad") {
@@ -82,6 +82,32 @@ describe("anon-work-tracker", () => {
       );
       expect(storedData.messages).toEqual(secondMessages);
     });
+
+    test("drops attached images when the data outgrows the storage quota", () => {
+      const messages = [
+        {
+          role: "user",
+          content: "Build this",
+          experimental_attachments: [
+            { contentType: "image/png", url: "data:image/png;base64,AAAA" },
+          ],
+        },
+      ];
+      const setItem = Storage.prototype.setItem;
+      const spy = vi
+        .spyOn(Storage.prototype, "setItem")
+        .mockImplementationOnce(setItem)
+        .mockImplementationOnce(() => {
+          throw new DOMException("Quota exceeded", "QuotaExceededError");
+        });
+
+      setHasAnonWork(messages, { "/": { type: "directory" } });
+      spy.mockRestore();
+
+      expect(getAnonWorkData()?.messages).toEqual([
+        { role: "user", content: "Build this" },
+      ]);
+    });
   });
 
   describe("getHasAnonWork", () => {
@@ -250,3 +250,28 @@ describe("getSession", () => {
     expect(session?.expiresAt).toBeDefined();
   });
 });
+
+describe("isAdmin", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test("matches the session's email against ADMIN_EMAILS", async () => {
+    vi.stubEnv("ADMIN_EMAILS", "ops@example.com, Lead@Example.com");
+
+    const { isAdmin } = await import("@/lib/auth");
+
+    expect(isAdmin({ email: "lead@example.com" })).toBe(true);
+    expect(isAdmin({ email: "ops@example.com" })).toBe(true);
+    expect(isAdmin({ email: "designer@example.com" })).toBe(false);
+  });
+
+  test("has no admins when ADMIN_EMAILS is unset", async () => {
+    vi.stubEnv("ADMIN_EMAILS", "");
+
+    const { isAdmin } = await import("@/lib/auth");
+
+    expect(isAdmin({ email: "" })).toBe(false);
+    expect(isAdmin({ email: "ops@example.com" })).toBe(false);
+  });
+});
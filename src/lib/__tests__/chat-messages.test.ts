@@ -0,0 +1,245 @@
+import { test, expect } from "vitest";
+import {
+  findLatestLeaf,
+  findNewMessages,
+  findPathIndex,
+  fromMessageRow,
+  getBranchPoints,
+  getMessagePath,
+  getMessageText,
+  getSiblings,
+  toMessageRows,
+  toModelMessage,
+  type MessageTreeNode,
+} from "@/lib/chat-messages";
+
+test("toMessageRows chains messages from the parent and drops system messages", () => {
+  const rows = toMessageRows(
+    [
+      { role: "system", content: "You are helpful" },
+      { id: "user-1", role: "user", content: "Make a button" },
+      {
+        role: "assistant",
+        content: [{ type: "text", text: "Done" }],
+      },
+    ],
+    4,
+    "row-3"
+  );
+
+  expect(rows).toEqual([
+    {
+      id: expect.any(String),
+      parentId: "row-3",
+      messageId: "user-1",
+      role: "user",
+      position: 4,
+      content: '"Make a button"',
+      parts: null,
+      toolInvocations: null,
+      attachments: null,
+    },
+    {
+      id: expect.any(String),
+      parentId: rows[0].id,
+      messageId: null,
+      role: "assistant",
+      position: 5,
+      content: '[{"type":"text","text":"Done"}]',
+      parts: null,
+      toolInvocations: null,
+      attachments: null,
+    },
+  ]);
+});
+
+test("fromMessageRow restores the message a row was made from", () => {
+  const message = {
+    id: "assistant-1",
+    role: "assistant",
+    content: "Created the card",
+    parts: [{ type: "text", text: "Created the card" }],
+    toolInvocations: [
+      { toolCallId: "call-1", toolName: "str_replace_editor", args: {} },
+    ],
+  };
+
+  const [row] = toMessageRows([message]);
+
+  expect(fromMessageRow(row)).toEqual(message);
+});
+
+test("fromMessageRow restores the images attached to a prompt", () => {
+  const message = {
+    id: "user-1",
+    role: "user",
+    content: "Build this",
+    experimental_attachments: [
+      {
+        name: "mockup.png",
+        contentType: "image/png",
+        url: "data:image/png;base64,iVBORw0KGgo=",
+      },
+    ],
+  };
+
+  const [row] = toMessageRows([message]);
+
+  expect(row.attachments).toBe(
+    JSON.stringify(message.experimental_attachments)
+  );
+  expect(fromMessageRow(row)).toEqual(message);
+});
+
+test("getMessageText reads string content and text parts", () => {
+  expect(getMessageText({ content: "Make a card" })).toBe("Make a card");
+  expect(
+    getMessageText({
+      content: [
+        { type: "text", text: "Make" },
+        { type: "image" },
+        { type: "text", text: "a card" },
+      ],
+    })
+  ).toBe("Make a card");
+  expect(getMessageText({ parts: [{ type: "text", text: "A form" }] })).toBe(
+    "A form"
+  );
+});
+
+test("toModelMessage sends attached images as image parts", () => {
+  expect(
+    toModelMessage({
+      id: "user-1",
+      role: "user",
+      content: "Build this",
+      parts: [{ type: "text", text: "Build this" }],
+      experimental_attachments: [
+        {
+          name: "mockup.png",
+          contentType: "image/png",
+          url: "data:image/png;base64,iVBORw0KGgo=",
+        },
+      ],
+    })
+  ).toEqual({
+    role: "user",
+    content: [
+      { type: "text", text: "Build this" },
+      {
+        type: "image",
+        image: "data:image/png;base64,iVBORw0KGgo=",
+        mediaType: "image/png",
+      },
+    ],
+  });
+
+  const plain = { id: "user-2", role: "user", content: "Make it red" };
+  expect(toModelMessage(plain)).toBe(plain);
+});
+
+test("fromMessageRow leaves out fields the row doesn't have", () => {
+  expect(
+    fromMessageRow({
+      messageId: null,
+      role: "tool",
+      content: "[]",
+      parts: null,
+      toolInvocations: null,
+      attachments: null,
+    })
+  ).toEqual({ role: "tool", content: [] });
+});
+
+test("findNewMessages returns user messages after the last stored one", () => {
+  const clientMessages = [
+    { id: "user-1", role: "user", content: "Make a button" },
+    { id: "assistant-1", role: "assistant", content: "Done" },
+    { id: "user-2", role: "user", content: "Make it red" },
+  ];
+
+  expect(
+    findNewMessages(clientMessages, new Set(["user-1", "assistant-1"]))
+  ).toEqual([clientMessages[2]]);
+});
+
+test("findNewMessages treats every user message as new when none are stored", () => {
+  const clientMessages = [
+    { id: "user-1", role: "user", content: "Make a button" },
+    { id: "assistant-1", role: "assistant", content: "Done" },
+  ];
+
+  expect(findNewMessages(clientMessages, new Set())).toEqual([
+    clientMessages[0],
+  ]);
+});
+
+// user-1 was edited into user-1b, whose answer was regenerated as user-1c:
+//
+//   user-1 - answer-1
+//   user-1b - answer-1b
+//   user-1c - answer-1c - user-2 - answer-2
+function node(
+  id: string,
+  parentId: string | null,
+  role: string,
+  messageId: string | null,
+  minute: number
+): MessageTreeNode {
+  return { id, parentId, role, messageId, createdAt: new Date(2026, 0, 1, 0, minute) };
+}
+
+const tree = [
+  node("user-1", null, "user", "msg-1", 0),
+  node("answer-1", "user-1", "assistant", null, 1),
+  node("user-1b", null, "user", "msg-1", 2),
+  node("answer-1b", "user-1b", "assistant", null, 3),
+  node("user-1c", null, "user", "msg-1", 4),
+  node("answer-1c", "user-1c", "assistant", null, 5),
+  node("user-2", "answer-1c", "user", "msg-2", 6),
+  node("answer-2", "user-2", "assistant", null, 7),
+];
+
+test("getMessagePath walks from the first message down to the leaf", () => {
+  expect(getMessagePath(tree, "answer-2")).toEqual([
+    "user-1c",
+    "answer-1c",
+    "user-2",
+    "answer-2",
+  ]);
+  expect(getMessagePath(tree, null)).toEqual([]);
+});
+
+test("getSiblings lists a message's versions oldest first", () => {
+  expect(getSiblings(tree, "user-1b").map((sibling) => sibling.id)).toEqual([
+    "user-1",
+    "user-1b",
+    "user-1c",
+  ]);
+  expect(getSiblings(tree, "user-2").map((sibling) => sibling.id)).toEqual([
+    "user-2",
+  ]);
+});
+
+test("findLatestLeaf follows the newest child down", () => {
+  expect(findLatestLeaf(tree, "user-1c")).toBe("answer-2");
+  expect(findLatestLeaf(tree, "user-1")).toBe("answer-1");
+  expect(findLatestLeaf(tree, "answer-2")).toBe("answer-2");
+});
+
+test("getBranchPoints reports user messages with other versions", () => {
+  expect(getBranchPoints(tree, getMessagePath(tree, "answer-2"))).toEqual({
+    "msg-1": { index: 2, count: 3 },
+  });
+  expect(getBranchPoints(tree, getMessagePath(tree, "answer-1"))).toEqual({
+    "msg-1": { index: 0, count: 3 },
+  });
+});
+
+test("findPathIndex finds the version of a message that is on the path", () => {
+  const path = getMessagePath(tree, "answer-2");
+
+  expect(findPathIndex(tree, path, "msg-1")).toBe(0);
+  expect(findPathIndex(tree, path, "msg-2")).toBe(2);
+  expect(findPathIndex(tree, path, "missing")).toBe(-1);
+});
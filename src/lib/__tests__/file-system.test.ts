@@ -1,5 +1,5 @@
 import { test, expect } from "vitest";
-import { VirtualFileSystem } from "@/lib/file-system";
+import { VirtualFileSystem, MAX_EDIT_HISTORY } from "@/lib/file-system";
 
 test("creates a new file system with root directory", () => {
   const fs = new VirtualFileSystem();
@@ -384,11 +384,11 @@ test("createFileWithParents returns error for existing file", () => {
   expect(result).toBe("Error: File already exists: /test.txt");
 });
 
-test("replaceInFile replaces all occurrences", () => {
+test("replaceInFile replaces all occurrences with replaceAll", () => {
   const fs = new VirtualFileSystem();
   fs.createFile("/test.txt", "foo bar foo baz foo");
 
-  const result = fs.replaceInFile("/test.txt", "foo", "hello");
+  const result = fs.replaceInFile("/test.txt", "foo", "hello", true);
 
   expect(result).toBe("Replaced 3 occurrence(s) of the string in /test.txt");
   expect(fs.readFile("/test.txt")).toBe("hello bar hello baz hello");
@@ -398,7 +398,7 @@ test("replaceInFile handles empty replacement", () => {
   const fs = new VirtualFileSystem();
   fs.createFile("/test.txt", "foo bar foo");
 
-  const result = fs.replaceInFile("/test.txt", "foo", "");
+  const result = fs.replaceInFile("/test.txt", "foo", "", true);
 
   expect(result).toBe("Replaced 2 occurrence(s) of the string in /test.txt");
   expect(fs.readFile("/test.txt")).toBe(" bar ");
@@ -427,6 +427,42 @@ test("replaceInFile returns error when string not found", () => {
   expect(result).toBe('Error: String not found in file: "foo"');
 });
 
+test("replaceInFile rejects ambiguous matches and reports their lines", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "foo\nbar\nfoo baz\nfoo");
+
+  const result = fs.replaceInFile("/test.txt", "foo", "hello");
+
+  expect(result).toBe(
+    "Error: Found 3 matches of the string at lines 1, 3, 4. Include more surrounding context to make it unique, or set replace_all to replace every occurrence"
+  );
+  expect(fs.readFile("/test.txt")).toBe("foo\nbar\nfoo baz\nfoo");
+});
+
+test("replaceInFile suggests whitespace-only near misses", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile(
+    "/App.jsx",
+    "function App() {\n\treturn <div>Hi</div>;\n}"
+  );
+
+  const result = fs.replaceInFile(
+    "/App.jsx",
+    "  return <div>Hi</div>;",
+    "  return <p>Hi</p>;"
+  );
+
+  expect(result).toBe(
+    [
+      'Error: String not found in file: "  return <div>Hi</div>;"',
+      "Closest matches:",
+      "Line 2 (differs only in whitespace):",
+      "  2: →return·<div>Hi</div>;",
+      "     expected: ··return·<div>Hi</div>;",
+    ].join("\n")
+  );
+});
+
 test("insertInFile inserts text at specified line", () => {
   const fs = new VirtualFileSystem();
   fs.createFile("/test.txt", "line1\nline2\nline3");
@@ -675,3 +711,310 @@ test("rename handles empty directories", () => {
   expect(fs.exists("/moved-empty-dir")).toBe(true);
   expect(fs.getNode("/moved-empty-dir")?.type).toBe("directory");
 });
+
+test("undoEdit restores previous content after updateFile", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "v1");
+  fs.updateFile("/test.txt", "v2");
+  fs.updateFile("/test.txt", "v3");
+
+  expect(fs.undoEdit("/test.txt")).toBe("Last edit to /test.txt undone");
+  expect(fs.readFile("/test.txt")).toBe("v2");
+
+  fs.undoEdit("/test.txt");
+  expect(fs.readFile("/test.txt")).toBe("v1");
+});
+
+test("undoEdit reverts replaceInFile and insertInFile", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "line1\nline2");
+  fs.replaceInFile("/test.txt", "line1", "first");
+  fs.insertInFile("/test.txt", 2, "line3");
+
+  fs.undoEdit("/test.txt");
+  expect(fs.readFile("/test.txt")).toBe("first\nline2");
+
+  fs.undoEdit("/test.txt");
+  expect(fs.readFile("/test.txt")).toBe("line1\nline2");
+});
+
+test("undoEdit removes a newly created file and the directories it made", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/src/existing.js", "content");
+  fs.createFileWithParents("/src/components/ui/new.js", "content");
+
+  fs.undoEdit("/src/components/ui/new.js");
+
+  expect(fs.exists("/src/components/ui/new.js")).toBe(false);
+  expect(fs.exists("/src/components")).toBe(false);
+  expect(fs.exists("/src")).toBe(true);
+});
+
+test("undoEdit of a create keeps directories that gained other files", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/src/a.js", "a");
+  fs.createFile("/src/b.js", "b");
+
+  fs.undoEdit("/src/a.js");
+
+  expect(fs.exists("/src/a.js")).toBe(false);
+  expect(fs.readFile("/src/b.js")).toBe("b");
+});
+
+test("clearHistory and withoutHistory keep edits out of undo", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "v1");
+  fs.updateFile("/test.txt", "v2");
+  fs.clearHistory();
+
+  fs.withoutHistory(() => fs.updateFile("/test.txt", "v3"));
+  expect(fs.undoEdit("/test.txt")).toBe(
+    "Error: No edit history found for /test.txt"
+  );
+
+  fs.updateFile("/test.txt", "v4");
+  fs.undoEdit("/test.txt");
+  expect(fs.readFile("/test.txt")).toBe("v3");
+});
+
+test("undoEdit restores a deleted file", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "content");
+  fs.deleteFile("/test.txt");
+
+  fs.undoEdit("/test.txt");
+
+  expect(fs.readFile("/test.txt")).toBe("content");
+});
+
+test("undoEdit restores a deleted directory with its contents", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/src/a.js", "a");
+  fs.createFile("/src/lib/b.js", "b");
+  fs.createDirectory("/src/empty");
+  fs.deleteFile("/src");
+
+  fs.undoEdit("/src");
+
+  expect(fs.readFile("/src/a.js")).toBe("a");
+  expect(fs.readFile("/src/lib/b.js")).toBe("b");
+  expect(fs.getNode("/src/empty")?.type).toBe("directory");
+});
+
+test("undoEdit reverts a rename and keeps earlier history", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/old.js", "v1");
+  fs.updateFile("/old.js", "v2");
+  fs.rename("/old.js", "/new.js");
+
+  fs.undoEdit("/new.js");
+  expect(fs.exists("/new.js")).toBe(false);
+  expect(fs.readFile("/old.js")).toBe("v2");
+
+  fs.undoEdit("/old.js");
+  expect(fs.readFile("/old.js")).toBe("v1");
+});
+
+test("undoEdit returns error when there is no history", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "content");
+  fs.undoEdit("/test.txt");
+
+  expect(fs.undoEdit("/test.txt")).toBe(
+    "Error: No edit history found for /test.txt"
+  );
+});
+
+test("updateFile does not record history when content is unchanged", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "v1");
+  fs.updateFile("/test.txt", "v2");
+  fs.updateFile("/test.txt", "v2");
+
+  fs.undoEdit("/test.txt");
+  expect(fs.readFile("/test.txt")).toBe("v1");
+});
+
+test("edit history is bounded per file", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "0");
+  for (let i = 1; i <= MAX_EDIT_HISTORY + 5; i++) {
+    fs.updateFile("/test.txt", String(i));
+  }
+
+  let undone = 0;
+  while (!fs.undoEdit("/test.txt").startsWith("Error:")) {
+    undone++;
+  }
+
+  expect(undone).toBe(MAX_EDIT_HISTORY);
+  expect(fs.readFile("/test.txt")).toBe("5");
+});
+
+test("deserialize clears edit history", () => {
+  const fs = new VirtualFileSystem();
+  fs.deserialize({ "/test.txt": "content" });
+
+  expect(fs.undoEdit("/test.txt")).toBe(
+    "Error: No edit history found for /test.txt"
+  );
+  expect(fs.readFile("/test.txt")).toBe("content");
+});
+
+test("multiEdit applies edits in order", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/App.jsx", "const title = 'Hi';\nconst color = 'red';");
+
+  const result = fs.multiEdit("/App.jsx", [
+    { old_str: "'Hi'", new_str: "'Hello'" },
+    { old_str: "'Hello';\nconst color = 'red'", new_str: "'Hello';\nconst color = 'blue'" },
+  ]);
+
+  expect(result).toBe("Applied 2 edit(s) to /App.jsx");
+  expect(fs.readFile("/App.jsx")).toBe(
+    "const title = 'Hello';\nconst color = 'blue';"
+  );
+});
+
+test("multiEdit applies nothing when one edit fails", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/App.jsx", "const title = 'Hi';");
+
+  const result = fs.multiEdit("/App.jsx", [
+    { old_str: "'Hi'", new_str: "'Hello'" },
+    { old_str: "missing", new_str: "x" },
+  ]);
+
+  expect(result).toBe(
+    'Error: Edit 2 of 2 failed: String not found in file: "missing". No edits were applied to /App.jsx'
+  );
+  expect(fs.readFile("/App.jsx")).toBe("const title = 'Hi';");
+});
+
+test("multiEdit is undone as a single edit", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/App.jsx", "a b");
+
+  fs.multiEdit("/App.jsx", [
+    { old_str: "a", new_str: "x" },
+    { old_str: "b", new_str: "y" },
+  ]);
+  fs.undoEdit("/App.jsx");
+
+  expect(fs.readFile("/App.jsx")).toBe("a b");
+});
+
+test("applyPatch modifies, creates and deletes files", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/App.jsx", "import Card from './Card';\n\nexport default App;\n");
+  fs.createFile("/old.js", "unused\n");
+
+  const result = fs.applyPatch(
+    [
+      "diff --git a/App.jsx b/App.jsx",
+      "--- a/App.jsx",
+      "+++ b/App.jsx",
+      "@@ -1,3 +1,4 @@",
+      " import Card from './Card';",
+      "+import Badge from './components/Badge';",
+      " ",
+      " export default App;",
+      "--- /dev/null",
+      "+++ b/components/Badge.jsx",
+      "@@ -0,0 +1 @@",
+      "+export default function Badge() {}",
+      "--- a/old.js",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-unused",
+    ].join("\n")
+  );
+
+  expect(result).toBe(
+    "Patch applied:\nModified /App.jsx\nCreated /components/Badge.jsx\nDeleted /old.js"
+  );
+  expect(fs.readFile("/App.jsx")).toBe(
+    "import Card from './Card';\nimport Badge from './components/Badge';\n\nexport default App;\n"
+  );
+  expect(fs.readFile("/components/Badge.jsx")).toBe(
+    "export default function Badge() {}"
+  );
+  expect(fs.exists("/old.js")).toBe(false);
+});
+
+test("applyPatch rejects the whole patch when a hunk fails", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/a.js", "one\ntwo\n");
+  fs.createFile("/b.js", "three\n");
+
+  const result = fs.applyPatch(
+    [
+      "--- a/a.js",
+      "+++ b/a.js",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "--- a/b.js",
+      "+++ b/b.js",
+      "@@ -1 +1 @@",
+      "-four",
+      "+FOUR",
+    ].join("\n")
+  );
+
+  expect(result).toBe(
+    "Error: Hunk 1 of 1 for /b.js failed (@@ -1 +1 @@): the context and removed lines do not match the file. No files were changed"
+  );
+  expect(fs.readFile("/a.js")).toBe("one\ntwo\n");
+  expect(fs.readFile("/b.js")).toBe("three\n");
+});
+
+test("applyPatch rejects patches for missing files", () => {
+  const fs = new VirtualFileSystem();
+
+  expect(
+    fs.applyPatch("--- a/missing.js\n+++ b/missing.js\n@@ -1 +1 @@\n-a\n+b")
+  ).toBe("Error: File not found: /missing.js. No files were changed");
+  expect(fs.applyPatch("not a diff")).toBe(
+    "Error: Patch contains no file changes"
+  );
+});
+
+test("findFiles returns sorted files matching a glob", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/components/Card.jsx", "");
+  fs.createFile("/App.jsx", "");
+  fs.createFile("/styles.css", "");
+
+  expect(fs.findFiles("*.jsx")).toEqual(["/App.jsx", "/components/Card.jsx"]);
+  expect(fs.findFiles()).toEqual([
+    "/App.jsx",
+    "/components/Card.jsx",
+    "/styles.css",
+  ]);
+});
+
+test("searchFiles merges overlapping context", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/a.js", "one\ntwo\nthree\nfour");
+
+  const results = fs.searchFiles(/two|three/g, { contextLines: 1 });
+
+  expect(results).toEqual({
+    files: [
+      {
+        path: "/a.js",
+        matchCount: 2,
+        lines: [
+          { line: 1, text: "one", isMatch: false },
+          { line: 2, text: "two", isMatch: true },
+          { line: 3, text: "three", isMatch: true },
+          { line: 4, text: "four", isMatch: false },
+        ],
+      },
+    ],
+    matchCount: 2,
+    truncated: false,
+  });
+});
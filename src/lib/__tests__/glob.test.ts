@@ -0,0 +1,37 @@
+import { test, expect } from "vitest";
+import { matchesGlob } from "@/lib/glob";
+
+test("matchesGlob matches file names in any directory without a slash", () => {
+  expect(matchesGlob("/App.jsx", "*.jsx")).toBe(true);
+  expect(matchesGlob("/components/Card.jsx", "*.jsx")).toBe(true);
+  expect(matchesGlob("/components/Card.tsx", "*.jsx")).toBe(false);
+});
+
+test("matchesGlob anchors patterns with a slash at the root", () => {
+  expect(matchesGlob("/components/Card.jsx", "components/*.jsx")).toBe(true);
+  expect(matchesGlob("/components/Card.jsx", "/components/*.jsx")).toBe(true);
+  expect(matchesGlob("/components/ui/Button.jsx", "components/*.jsx")).toBe(
+    false
+  );
+});
+
+test("matchesGlob supports ** across directories", () => {
+  expect(matchesGlob("/components/ui/Button.jsx", "components/**/*.jsx")).toBe(
+    true
+  );
+  expect(matchesGlob("/components/Card.jsx", "components/**/*.jsx")).toBe(true);
+  expect(matchesGlob("/lib/utils.js", "components/**")).toBe(false);
+  expect(matchesGlob("/lib/utils.js", "**/*")).toBe(true);
+});
+
+test("matchesGlob supports ? and brace alternatives", () => {
+  expect(matchesGlob("/App.tsx", "App.{jsx,tsx}")).toBe(true);
+  expect(matchesGlob("/App.ts", "App.{jsx,tsx}")).toBe(false);
+  expect(matchesGlob("/v1.js", "v?.js")).toBe(true);
+  expect(matchesGlob("/v10.js", "v?.js")).toBe(false);
+});
+
+test("matchesGlob treats regex characters literally", () => {
+  expect(matchesGlob("/a+b.css", "a+b.css")).toBe(true);
+  expect(matchesGlob("/aab.css", "a+b.css")).toBe(false);
+});
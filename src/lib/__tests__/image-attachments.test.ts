@@ -0,0 +1,150 @@
+import { test, expect } from "vitest";
+import {
+  getAttachmentBytes,
+  getImageAttachments,
+  MAX_ATTACHMENT_BYTES,
+  MAX_IMAGES_PER_MESSAGE,
+  readImageFile,
+  validateAttachments,
+  validateImageFile,
+} from "@/lib/image-attachments";
+
+test("validateImageFile accepts supported images up to the size limit", () => {
+  expect(
+    validateImageFile({
+      name: "mockup.png",
+      type: "image/png",
+      size: MAX_ATTACHMENT_BYTES,
+    })
+  ).toBeNull();
+  expect(
+    validateImageFile({ name: "photo.webp", type: "image/webp", size: 1024 })
+  ).toBeNull();
+});
+
+test("validateImageFile explains why a file can't be attached", () => {
+  expect(
+    validateImageFile({ name: "notes.pdf", type: "application/pdf", size: 1024 })
+  ).toBe("notes.pdf isn't a PNG, JPEG, GIF or WebP image");
+  expect(
+    validateImageFile({ name: "icon.svg", type: "image/svg+xml", size: 1024 })
+  ).toBe("icon.svg isn't a PNG, JPEG, GIF or WebP image");
+  expect(
+    validateImageFile({
+      name: "huge.png",
+      type: "image/png",
+      size: MAX_ATTACHMENT_BYTES + 1,
+    })
+  ).toBe("huge.png is too large: images can add up to 512 KB per message");
+});
+
+test("validateImageFile counts the images already attached", () => {
+  const file = { name: "second.png", type: "image/png", size: 200 * 1024 };
+
+  expect(validateImageFile(file, 300 * 1024)).toBeNull();
+  expect(validateImageFile(file, 400 * 1024)).toBe(
+    "second.png is too large: images can add up to 512 KB per message"
+  );
+});
+
+test("getAttachmentBytes measures the image in a data URL", () => {
+  const attachment = { name: "a.png", contentType: "image/png", url: "" };
+
+  expect(
+    getAttachmentBytes({ ...attachment, url: "data:image/png;base64,cG5n" })
+  ).toBe(3);
+  expect(
+    getAttachmentBytes({ ...attachment, url: "data:image/png;base64,cG4=" })
+  ).toBe(2);
+});
+
+test("validateAttachments accepts inline images within the limits", () => {
+  const image = {
+    name: "mockup.png",
+    contentType: "image/png",
+    url: "data:image/png;base64,iVBORw0KGgo=",
+  };
+
+  expect(validateAttachments({})).toBeNull();
+  expect(validateAttachments({ experimental_attachments: [] })).toBeNull();
+  expect(
+    validateAttachments({
+      experimental_attachments: Array(MAX_IMAGES_PER_MESSAGE).fill(image),
+    })
+  ).toBeNull();
+});
+
+test("validateAttachments rejects what the browser wouldn't attach", () => {
+  const image = {
+    name: "mockup.png",
+    contentType: "image/png",
+    url: "data:image/png;base64,iVBORw0KGgo=",
+  };
+
+  expect(
+    validateAttachments({
+      experimental_attachments: Array(MAX_IMAGES_PER_MESSAGE + 1).fill(image),
+    })
+  ).toBe("A message can have up to 4 images");
+  expect(
+    validateAttachments({
+      experimental_attachments: [
+        {
+          ...image,
+          contentType: "image/svg+xml",
+          url: "data:image/svg+xml;base64,PHN2Zz4=",
+        },
+      ],
+    })
+  ).toBe("Attachments must be PNG, JPEG, GIF or WebP images");
+  expect(
+    validateAttachments({
+      experimental_attachments: [
+        { ...image, url: "https://example.com/mockup.png" },
+      ],
+    })
+  ).toBe("Attachments must be inline base64 data URLs of their type");
+  expect(
+    validateAttachments({
+      experimental_attachments: [
+        { ...image, url: "data:image/jpeg;base64,iVBORw0KGgo=" },
+      ],
+    })
+  ).toBe("Attachments must be inline base64 data URLs of their type");
+  expect(
+    validateAttachments({
+      experimental_attachments: [
+        {
+          ...image,
+          url:
+            "data:image/png;base64," +
+            "A".repeat(4 * Math.ceil(MAX_ATTACHMENT_BYTES / 3) + 4),
+        },
+      ],
+    })
+  ).toBe("Images can add up to 512 KB per message");
+});
+
+test("readImageFile reads the image as a data URL", async () => {
+  const file = new File(["png"], "mockup.png", { type: "image/png" });
+
+  expect(await readImageFile(file)).toEqual({
+    name: "mockup.png",
+    contentType: "image/png",
+    url: "data:image/png;base64,cG5n",
+  });
+});
+
+test("getImageAttachments keeps only image attachments", () => {
+  expect(
+    getImageAttachments({
+      experimental_attachments: [
+        { name: "mockup.png", contentType: "image/png", url: "data:image/png;base64,AA" },
+        { name: "notes.txt", contentType: "text/plain", url: "data:text/plain;base64,AA" },
+      ],
+    })
+  ).toEqual([
+    { name: "mockup.png", contentType: "image/png", url: "data:image/png;base64,AA" },
+  ]);
+  expect(getImageAttachments({})).toEqual([]);
+});
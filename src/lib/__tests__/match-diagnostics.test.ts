@@ -0,0 +1,65 @@
+import { test, expect } from "vitest";
+import {
+  findMatchLines,
+  findClosestMatches,
+  formatClosestMatches,
+} from "@/lib/match-diagnostics";
+
+test("findMatchLines returns the line of each occurrence", () => {
+  expect(findMatchLines("a\nb a\nc\na", "a")).toEqual([1, 2, 4]);
+  expect(findMatchLines("x\ny", "x\ny")).toEqual([1]);
+  expect(findMatchLines("abc", "")).toEqual([]);
+});
+
+test("findClosestMatches ranks near misses by similarity", () => {
+  const content = [
+    "export function Card({ title }) {",
+    "  return <h2 className='text-lg'>{title}</h2>;",
+    "}",
+    "",
+    "export function Badge({ label }) {",
+    "  return <span>{label}</span>;",
+    "}",
+  ].join("\n");
+
+  const [best] = findClosestMatches(
+    content,
+    "  return <h2 className='text-xl'>{title}</h2>;"
+  );
+
+  expect(best.startLine).toBe(2);
+  expect(best.endLine).toBe(2);
+  expect(best.whitespaceOnly).toBe(false);
+  expect(best.similarity).toBeGreaterThan(0.9);
+});
+
+test("findClosestMatches prefers whitespace-only differences", () => {
+  const content = "if (a) {\n    go();\n}\nif (a) {\n  go();\n}";
+
+  const [best] = findClosestMatches(content, "if (a) {\n\tgo();\n}");
+
+  expect(best).toMatchObject({
+    startLine: 1,
+    endLine: 3,
+    whitespaceOnly: true,
+  });
+});
+
+test("findClosestMatches ignores unrelated text", () => {
+  expect(findClosestMatches("hello world", "notfound")).toEqual([]);
+});
+
+test("formatClosestMatches shows differing lines with visible whitespace", () => {
+  const needle = "<div>\n  <p>Hi</p>\n</div>";
+  const candidates = findClosestMatches("<div>\n    <p>Hi</p>\n</div>", needle);
+
+  expect(formatClosestMatches(candidates, needle)).toBe(
+    [
+      "Lines 1-3 (differs only in whitespace):",
+      "  1: <div>",
+      "  2: ····<p>Hi</p>",
+      "     expected: ··<p>Hi</p>",
+      "  3: </div>",
+    ].join("\n")
+  );
+});
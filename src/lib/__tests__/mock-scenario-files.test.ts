@@ -0,0 +1,58 @@
+/**
+ * @vitest-environment node
+ */
+import { test, expect, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { loadScenarios, saveScenario } from "@/lib/mock-scenario-files";
+
+const dirs: string[] = [];
+
+async function makeDir(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "mock-scenarios-"));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(
+    dirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true }))
+  );
+});
+
+test("saved scenarios load back in file name order", async () => {
+  const dir = await makeDir();
+
+  const file = await saveScenario(dir, {
+    name: "b-second",
+    steps: [{ text: "Second" }],
+  });
+  await saveScenario(dir, { name: "a-first", steps: [{ text: "First" }] });
+  await writeFile(path.join(dir, "notes.txt"), "not a scenario");
+
+  expect(file).toBe(path.join(dir, "b-second.json"));
+  expect((await loadScenarios(dir)).map((scenario) => scenario.name)).toEqual([
+    "a-first",
+    "b-second",
+  ]);
+});
+
+test("loadScenarios rejects invalid files", async () => {
+  const dir = await makeDir();
+  await writeFile(path.join(dir, "broken.json"), JSON.stringify({ steps: [] }));
+
+  await expect(loadScenarios(dir)).rejects.toThrow(
+    "Invalid mock scenario broken.json: name Required"
+  );
+});
+
+test("the example scenarios are valid", async () => {
+  const scenarios = await loadScenarios("mock-scenarios");
+
+  expect(scenarios.map((scenario) => scenario.name)).toEqual([
+    "dashboard",
+    "overloaded",
+    "rename-component",
+  ]);
+});
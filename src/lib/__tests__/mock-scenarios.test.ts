@@ -0,0 +1,236 @@
+import { test, expect, vi } from "vitest";
+import type {
+  LanguageModelV1,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+import {
+  createRecordedScenario,
+  findScenario,
+  getStepIndex,
+  getStepParts,
+  parseScenario,
+  recordScenarioSteps,
+  type MockScenario,
+} from "@/lib/mock-scenarios";
+
+function userPrompt(text: string): LanguageModelV1Prompt {
+  return [
+    { role: "system", content: "You are a component generator" },
+    { role: "user", content: [{ type: "text", text }] },
+  ];
+}
+
+async function readStream<T>(stream: ReadableStream<T>): Promise<T[]> {
+  const parts: T[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return parts;
+    parts.push(value);
+  }
+}
+
+const scenario: MockScenario = {
+  name: "two-files",
+  match: "two files",
+  steps: [
+    {
+      text: ["Creating ", "both files."],
+      toolCalls: [
+        {
+          toolName: "str_replace_editor",
+          args: { command: "create", path: "/App.jsx", file_text: "app" },
+        },
+        {
+          id: "call_custom",
+          toolName: "file_manager",
+          args: { command: "delete", path: "/old.jsx" },
+        },
+      ],
+    },
+    { text: "Done.", usage: { promptTokens: 10, completionTokens: 2 } },
+  ],
+};
+
+test("parseScenario names the file and field that are wrong", () => {
+  expect(() => parseScenario({ name: "empty", steps: [] }, "empty.json")).toThrow(
+    "Invalid mock scenario empty.json: steps Array must contain at least 1 element(s)"
+  );
+  expect(() =>
+    parseScenario({ name: "bad", match: "(", steps: [{}] }, "bad.json")
+  ).toThrow(
+    "Invalid mock scenario bad.json: match is not a valid regular expression"
+  );
+  expect(parseScenario(scenario, "two-files.json")).toEqual(scenario);
+});
+
+test("findScenario matches the last user message, ignoring case", () => {
+  const fallback: MockScenario = { name: "any", steps: [{ text: "Hi" }] };
+
+  expect(findScenario([scenario, fallback], userPrompt("Make TWO FILES"))).toBe(
+    scenario
+  );
+  expect(findScenario([scenario, fallback], userPrompt("A counter"))).toBe(
+    fallback
+  );
+  expect(findScenario([scenario], userPrompt("A counter"))).toBeUndefined();
+});
+
+test("getStepIndex counts the steps taken since the user message", () => {
+  const prompt: LanguageModelV1Prompt = [
+    ...userPrompt("Make two files"),
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call_1_1",
+          toolName: "str_replace_editor",
+          args: {},
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: "call_1_1",
+          toolName: "str_replace_editor",
+          result: "ok",
+        },
+      ],
+    },
+  ];
+
+  expect(getStepIndex(userPrompt("Make two files"))).toBe(0);
+  expect(getStepIndex(prompt)).toBe(1);
+});
+
+test("getStepParts streams text, then tool calls, then the finish", () => {
+  expect(getStepParts(scenario, 0)).toEqual([
+    { type: "text-delta", textDelta: "Creating " },
+    { type: "text-delta", textDelta: "both files." },
+    {
+      type: "tool-call",
+      toolCallType: "function",
+      toolCallId: "call_1_1",
+      toolName: "str_replace_editor",
+      args: JSON.stringify({
+        command: "create",
+        path: "/App.jsx",
+        file_text: "app",
+      }),
+    },
+    {
+      type: "tool-call",
+      toolCallType: "function",
+      toolCallId: "call_custom",
+      toolName: "file_manager",
+      args: JSON.stringify({ command: "delete", path: "/old.jsx" }),
+    },
+    {
+      type: "finish",
+      finishReason: "tool-calls",
+      usage: { promptTokens: 0, completionTokens: 0 },
+    },
+  ]);
+  expect(getStepParts(scenario, 1)).toEqual([
+    { type: "text-delta", textDelta: "Done." },
+    {
+      type: "finish",
+      finishReason: "stop",
+      usage: { promptTokens: 10, completionTokens: 2 },
+    },
+  ]);
+});
+
+test("getStepParts ends scripted errors and runs past the last step", () => {
+  const failing: MockScenario = {
+    name: "overloaded",
+    steps: [{ text: "Let me", error: "Overloaded" }],
+  };
+
+  const parts = getStepParts(failing, 0);
+  expect(parts[1]).toEqual({ type: "error", error: new Error("Overloaded") });
+  expect(parts[2]).toMatchObject({ type: "finish", finishReason: "error" });
+
+  expect(getStepParts(failing, 1)).toEqual([
+    {
+      type: "finish",
+      finishReason: "stop",
+      usage: { promptTokens: 0, completionTokens: 0 },
+    },
+  ]);
+});
+
+test("recordScenarioSteps captures what the model streams without changing it", async () => {
+  const streamed: LanguageModelV1StreamPart[] = [
+    ...getStepParts(scenario, 0).slice(0, -1),
+    {
+      type: "finish",
+      finishReason: "tool-calls",
+      usage: { promptTokens: 1200, completionTokens: 80 },
+      providerMetadata: {
+        anthropic: { cacheCreationInputTokens: 0, cacheReadInputTokens: 900 },
+      },
+    },
+  ];
+  const model = {
+    specificationVersion: "v1",
+    provider: "anthropic.messages",
+    modelId: "claude-haiku-4-5",
+    doStream: vi.fn(async () => ({
+      stream: new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          streamed.forEach((part) => controller.enqueue(part));
+          controller.close();
+        },
+      }),
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    })),
+  } as unknown as LanguageModelV1;
+
+  const recording = recordScenarioSteps(model);
+  const result = await recording.model.doStream({
+    prompt: userPrompt("Make two files"),
+  } as any);
+
+  expect(recording.model.modelId).toBe("claude-haiku-4-5");
+  expect(await readStream(result.stream)).toEqual(streamed);
+  expect(recording.steps).toEqual([
+    {
+      text: ["Creating ", "both files."],
+      toolCalls: [
+        { id: "call_1_1", ...scenario.steps[0].toolCalls![0] },
+        scenario.steps[0].toolCalls![1],
+      ],
+      finishReason: "tool-calls",
+      usage: { promptTokens: 1200, completionTokens: 80 },
+      providerMetadata: {
+        anthropic: { cacheCreationInputTokens: 0, cacheReadInputTokens: 900 },
+      },
+    },
+  ]);
+
+  // Replaying the recording streams the same parts again
+  const recorded = parseScenario(
+    JSON.parse(
+      JSON.stringify(
+        createRecordedScenario(
+          "Make two files (v2)",
+          recording.steps,
+          new Date("2026-10-18T12:00:00Z")
+        )
+      )
+    ),
+    "recorded.json"
+  );
+  expect(recorded.name).toBe("make-two-files-v2-2026-10-18T12-00-00-000Z");
+  expect(findScenario([recorded], userPrompt("make two files (v2) "))).toBe(
+    recorded
+  );
+  expect(findScenario([recorded], userPrompt("Make two files"))).toBeUndefined();
+  expect(getStepParts(recorded, 0)).toEqual(streamed);
+});
@@ -0,0 +1,110 @@
+/**
+ * @vitest-environment node
+ */
+import { test, expect } from "vitest";
+import { VirtualFileSystem } from "@/lib/file-system";
+import {
+  diffProjectFiles,
+  hashContent,
+  hasSameFiles,
+  toFileNodes,
+  toProjectFileRows,
+} from "@/lib/project-files";
+
+function buildFileSystem() {
+  const fileSystem = new VirtualFileSystem();
+  fileSystem.createFileWithParents("/App.jsx", "app");
+  fileSystem.createFileWithParents("/components/ui/Button.jsx", "button");
+  return fileSystem;
+}
+
+test("hashContent returns the hex SHA-256 of the content", () => {
+  expect(hashContent("")).toBe(
+    "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+  );
+  expect(hashContent("app")).not.toBe(hashContent("app "));
+});
+
+test("toProjectFileRows keeps files and leaves directories out", () => {
+  const rows = toProjectFileRows(buildFileSystem().serialize());
+
+  expect(rows).toEqual([
+    { path: "/App.jsx", content: "app", contentHash: hashContent("app") },
+    {
+      path: "/components/ui/Button.jsx",
+      content: "button",
+      contentHash: hashContent("button"),
+    },
+  ]);
+});
+
+test("toFileNodes round-trips through deserializeFromNodes", () => {
+  const original = buildFileSystem();
+  const nodes = toFileNodes(toProjectFileRows(original.serialize()));
+
+  expect(nodes["/components"]).toEqual({
+    type: "directory",
+    name: "components",
+    path: "/components",
+  });
+
+  const restored = new VirtualFileSystem();
+  restored.deserializeFromNodes(nodes);
+
+  expect(restored.serialize()).toEqual(original.serialize());
+});
+
+test("diffProjectFiles writes only added, changed and removed files", () => {
+  const fileSystem = buildFileSystem();
+  fileSystem.updateFile("/App.jsx", "new app");
+  fileSystem.createFileWithParents("/Card.jsx", "card");
+
+  const changes = diffProjectFiles(
+    "project-1",
+    [
+      { path: "/App.jsx", contentHash: hashContent("app") },
+      { path: "/components/ui/Button.jsx", contentHash: hashContent("button") },
+      { path: "/Old.jsx", contentHash: hashContent("old") },
+    ],
+    fileSystem.serialize()
+  );
+
+  expect(changes).toEqual({
+    create: [
+      { path: "/Card.jsx", content: "card", contentHash: hashContent("card") },
+    ],
+    update: [
+      {
+        where: { projectId_path: { projectId: "project-1", path: "/App.jsx" } },
+        data: { content: "new app", contentHash: hashContent("new app") },
+      },
+    ],
+    deleteMany: { path: { in: ["/Old.jsx"] } },
+  });
+});
+
+test("diffProjectFiles changes nothing when every hash matches", () => {
+  const data = buildFileSystem().serialize();
+  const stored = toProjectFileRows(data);
+
+  expect(diffProjectFiles("project-1", stored, data)).toEqual({
+    create: [],
+    update: [],
+    deleteMany: { path: { in: [] } },
+  });
+});
+
+test("hasSameFiles compares file paths and contents only", () => {
+  const data = buildFileSystem().serialize();
+  const copy = buildFileSystem();
+  copy.createDirectory("/empty");
+
+  expect(hasSameFiles(data, copy.serialize())).toBe(true);
+
+  copy.updateFile("/App.jsx", "changed");
+  expect(hasSameFiles(data, copy.serialize())).toBe(false);
+
+  const fewer = buildFileSystem();
+  fewer.deleteFile("/App.jsx");
+  expect(hasSameFiles(data, fewer.serialize())).toBe(false);
+});
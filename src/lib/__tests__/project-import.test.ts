@@ -0,0 +1,134 @@
+/**
+ * @vitest-environment node
+ */
+import { test, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import {
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_TOTAL_SIZE,
+  readImportEntries,
+  readSelectedFiles,
+  readZipArchive,
+} from "@/lib/project-import";
+
+test("readImportEntries keeps text files at their paths", () => {
+  const result = readImportEntries([
+    { path: "components/Card.jsx", data: strToU8("export default 1;") },
+    { path: "./styles\\theme.css", data: strToU8("body {}") },
+  ]);
+
+  expect(result.files).toEqual({
+    "/components/Card.jsx": "export default 1;",
+    "/styles/theme.css": "body {}",
+  });
+  expect(result.rejected).toEqual([]);
+});
+
+test("readImportEntries rejects binary and oversized files", () => {
+  const result = readImportEntries([
+    { path: "logo.png", data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 1]) },
+    { path: "latin1.txt", data: new Uint8Array([0x63, 0x61, 0x66, 0xe9]) },
+    { path: "big.js", data: new Uint8Array(MAX_IMPORT_FILE_SIZE + 1).fill(97) },
+    { path: "App.jsx", data: strToU8("ok") },
+  ]);
+
+  expect(Object.keys(result.files)).toEqual(["/App.jsx"]);
+  expect(result.rejected).toEqual([
+    { path: "/logo.png", reason: "binary file" },
+    { path: "/latin1.txt", reason: "binary file" },
+    { path: "/big.js", reason: "larger than 256 KB (257 KB)" },
+  ]);
+});
+
+test("readImportEntries stops taking files at the total size limit", () => {
+  const chunk = MAX_IMPORT_TOTAL_SIZE / 4;
+  const result = readImportEntries(
+    ["a.js", "b.js", "c.js", "d.js", "e.js", "f.js"].map((path, i) => ({
+      path,
+      data: new Uint8Array(i === 5 ? 10 : chunk).fill(97),
+    }))
+  );
+
+  expect(Object.keys(result.files)).toEqual(["/a.js", "/b.js", "/c.js", "/d.js"]);
+  expect(result.rejected).toEqual([
+    { path: "/e.js", reason: "over the 512 KB limit for one import" },
+    { path: "/f.js", reason: "over the 512 KB limit for one import" },
+  ]);
+});
+
+test("readImportEntries skips dependency folders and escaping paths", () => {
+  const result = readImportEntries([
+    { path: "node_modules/react/index.js", data: strToU8("") },
+    { path: "app/.DS_Store", data: strToU8("") },
+    { path: "../outside.js", data: strToU8("") },
+    { path: "App.jsx", data: strToU8("ok") },
+  ]);
+
+  expect(Object.keys(result.files)).toEqual(["/App.jsx"]);
+  expect(result.skipped).toBe(2);
+});
+
+test("readZipArchive strips a single wrapper folder", () => {
+  const archive = zipSync({
+    "my-app/App.jsx": strToU8("app"),
+    "my-app/components/Button.jsx": strToU8("button"),
+    "__MACOSX/my-app/._App.jsx": new Uint8Array([0, 5, 22]),
+  });
+
+  const result = readZipArchive(archive);
+
+  expect(result.files).toEqual({
+    "/App.jsx": "app",
+    "/components/Button.jsx": "button",
+  });
+  expect(result.skipped).toBe(1);
+});
+
+test("readZipArchive keeps paths when there is no wrapper folder", () => {
+  const archive = zipSync({
+    "App.jsx": strToU8("app"),
+    "components/Button.jsx": strToU8("button"),
+  });
+
+  expect(Object.keys(readZipArchive(archive).files)).toEqual([
+    "/App.jsx",
+    "/components/Button.jsx",
+  ]);
+});
+
+test("readZipArchive rejects entries by their unpacked size before inflating", () => {
+  const archive = zipSync({
+    "my-app/App.jsx": strToU8("app"),
+    "my-app/bomb.js": new Uint8Array(8 * 1024 * 1024).fill(97),
+    "my-app/a.js": new Uint8Array(200 * 1024).fill(97),
+    "my-app/b.js": new Uint8Array(200 * 1024).fill(97),
+    "my-app/c.js": new Uint8Array(200 * 1024).fill(97),
+  });
+  // The whole archive is a tiny fraction of what it unpacks to
+  expect(archive.length).toBeLessThan(64 * 1024);
+
+  const result = readZipArchive(archive);
+
+  expect(Object.keys(result.files)).toEqual(["/App.jsx", "/a.js", "/b.js"]);
+  expect(result.rejected).toEqual([
+    { path: "/bomb.js", reason: "larger than 256 KB (8.0 MB)" },
+    { path: "/c.js", reason: "over the 512 KB limit for one import" },
+  ]);
+});
+
+test("readZipArchive throws for data that is not a zip", () => {
+  expect(() => readZipArchive(strToU8("not a zip"))).toThrow(
+    "The file is not a valid zip archive"
+  );
+});
+
+test("readSelectedFiles unpacks a single zip and imports loose files", async () => {
+  const zip = new File([zipSync({ "App.jsx": strToU8("app") })], "app.zip");
+  expect((await readSelectedFiles([zip])).files).toEqual({ "/App.jsx": "app" });
+
+  const loose = await readSelectedFiles([
+    new File(["card"], "Card.jsx"),
+    new File(["btn"], "Button.jsx"),
+  ]);
+  expect(loose.files).toEqual({ "/Card.jsx": "card", "/Button.jsx": "btn" });
+});
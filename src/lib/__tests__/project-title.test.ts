@@ -0,0 +1,95 @@
+/**
+ * @vitest-environment node
+ */
+import { test, expect, vi, beforeEach } from "vitest";
+import { generateText } from "ai";
+import { MockLanguageModel } from "@/lib/provider";
+import {
+  cleanTitle,
+  generateProjectTitle,
+  heuristicProjectTitle,
+  isDefaultProjectName,
+} from "@/lib/project-title";
+
+vi.mock("ai", () => ({
+  generateText: vi.fn(),
+}));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+test("isDefaultProjectName matches only generated names", () => {
+  expect(isDefaultProjectName("New Design #12345")).toBe(true);
+  expect(isDefaultProjectName("Design #7")).toBe(true);
+  expect(isDefaultProjectName("Design from 10:42:01 AM")).toBe(true);
+  expect(isDefaultProjectName("Pricing Table")).toBe(false);
+  expect(isDefaultProjectName("Design #12 (copy)")).toBe(false);
+});
+
+test("heuristicProjectTitle keeps the first meaningful words", () => {
+  expect(
+    heuristicProjectTitle("Create a pricing card with three tiers and a toggle")
+  ).toBe("Pricing Card with Three Tiers");
+  expect(
+    heuristicProjectTitle("Can you make me a React component for a login form? Use blue")
+  ).toBe("Login Form");
+  expect(heuristicProjectTitle("dashboard")).toBe("Dashboard");
+  expect(heuristicProjectTitle("")).toBe("");
+});
+
+test("cleanTitle strips quotes, prefixes and extra lines", () => {
+  expect(cleanTitle('"Pricing Table."')).toBe("Pricing Table");
+  expect(cleanTitle("Title: Contact Form\nA form for contacting")).toBe(
+    "Contact Form"
+  );
+  expect(cleanTitle("**Todo   List**")).toBe("Todo List");
+});
+
+test("generateProjectTitle uses the heuristic for the mock provider", async () => {
+  const result = await generateProjectTitle(
+    "Build a todo list",
+    new MockLanguageModel("mock") as any
+  );
+
+  expect(result).toEqual({ title: "Todo List", usage: null });
+  expect(generateText).not.toHaveBeenCalled();
+});
+
+test("generateProjectTitle asks the model for a title", async () => {
+  (generateText as ReturnType<typeof vi.fn>).mockResolvedValue({
+    text: '"Weather Widget"',
+    usage: { inputTokens: 40, outputTokens: 4, totalTokens: 44 },
+  });
+  const model = { modelId: "claude" } as any;
+
+  const result = await generateProjectTitle("Show the weather", model);
+
+  expect(result).toEqual({
+    title: "Weather Widget",
+    usage: {
+      inputTokens: 40,
+      outputTokens: 4,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    },
+  });
+  expect(generateText).toHaveBeenCalledWith(
+    expect.objectContaining({
+      model,
+      prompt: "Show the weather",
+      maxOutputTokens: 30,
+    })
+  );
+});
+
+test("generateProjectTitle falls back to the heuristic when the model fails", async () => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  (generateText as ReturnType<typeof vi.fn>).mockRejectedValue(
+    new Error("overloaded")
+  );
+
+  const result = await generateProjectTitle("Make a navbar", {} as any);
+
+  expect(result).toEqual({ title: "Navbar", usage: null });
+});
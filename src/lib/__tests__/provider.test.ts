@@ -394,3 +394,263 @@ describe("getLanguageModel", () => {
     expect(model.provider).toBe("anthropic");
   });
 });
+
+describe("model registry", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    vi.resetModules();
+    process.env = { ...originalEnv };
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_MODELS;
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    delete process.env.OPENAI_COMPATIBLE_MODELS;
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_NAME;
+    delete process.env.DEFAULT_MODEL;
+    delete process.env.MOCK_SCENARIOS_DIR;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.clearAllMocks();
+  });
+
+  test("offers only the mock model when nothing is configured", async () => {
+    const { getModelOptions, resolveModelId } = await import("@/lib/provider");
+
+    expect(getModelOptions()).toEqual([
+      { id: "mock", label: "Mock (no API key)" },
+    ]);
+    expect(resolveModelId("anthropic:claude-sonnet-4-5")).toBe("mock");
+  });
+
+  test("offers the Anthropic models when an API key is set", async () => {
+    process.env.ANTHROPIC_API_KEY = "sk-test-key-12345";
+
+    const { getModelOptions } = await import("@/lib/provider");
+
+    expect(getModelOptions()).toEqual([
+      { id: "anthropic:claude-haiku-4-5", label: "Claude Haiku 4.5" },
+      { id: "anthropic:claude-sonnet-4-5", label: "Claude Sonnet 4.5" },
+      { id: "anthropic:claude-opus-4-1", label: "Claude Opus 4.1" },
+    ]);
+  });
+
+  test("reads the model lists from the environment", async () => {
+    process.env.ANTHROPIC_API_KEY = "sk-test-key-12345";
+    process.env.ANTHROPIC_MODELS = "claude-sonnet-4-5, claude-3-7-sonnet-latest";
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+    process.env.OPENAI_COMPATIBLE_MODELS = "qwen2.5-coder:14b,llama3.1";
+    process.env.OPENAI_COMPATIBLE_NAME = "Ollama";
+
+    const { getModelOptions } = await import("@/lib/provider");
+
+    expect(getModelOptions()).toEqual([
+      { id: "anthropic:claude-sonnet-4-5", label: "Claude Sonnet 4.5" },
+      {
+        id: "anthropic:claude-3-7-sonnet-latest",
+        label: "claude-3-7-sonnet-latest",
+      },
+      {
+        id: "openai-compatible:qwen2.5-coder:14b",
+        label: "qwen2.5-coder:14b (Ollama)",
+      },
+      { id: "openai-compatible:llama3.1", label: "llama3.1 (Ollama)" },
+    ]);
+  });
+
+  test("falls back to DEFAULT_MODEL, then the first model", async () => {
+    process.env.ANTHROPIC_API_KEY = "sk-test-key-12345";
+
+    const { resolveModelId } = await import("@/lib/provider");
+
+    expect(resolveModelId("anthropic:claude-opus-4-1")).toBe(
+      "anthropic:claude-opus-4-1"
+    );
+    expect(resolveModelId("openai-compatible:llama3.1")).toBe(
+      "anthropic:claude-haiku-4-5"
+    );
+
+    process.env.DEFAULT_MODEL = "anthropic:claude-sonnet-4-5";
+    expect(resolveModelId(null)).toBe("anthropic:claude-sonnet-4-5");
+
+    process.env.DEFAULT_MODEL = "anthropic:claude-2";
+    expect(resolveModelId(null)).toBe("anthropic:claude-haiku-4-5");
+  });
+
+  test("getLanguageModel creates the requested model", async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:8080/v1";
+    process.env.OPENAI_COMPATIBLE_MODELS = "llama3.1";
+
+    const { getLanguageModel } = await import("@/lib/provider");
+    const model = getLanguageModel("openai-compatible:llama3.1");
+
+    expect(model.provider).toBe("openai-compatible.chat");
+    expect(model.modelId).toBe("llama3.1");
+  });
+
+  test("streams from an OpenAI-compatible server through streamText", async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:8080/v1";
+    process.env.OPENAI_COMPATIBLE_MODELS = "llama3.1";
+
+    const chunks = [
+      { choices: [{ index: 0, delta: { role: "assistant", content: "Hello" } }] },
+      { choices: [{ index: 0, delta: { content: " there" } }] },
+      { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+    ];
+    const fetch = vi.fn(
+      async () =>
+        new Response(
+          chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("") +
+            "data: [DONE]\n\n",
+          { headers: { "Content-Type": "text/event-stream" } }
+        )
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    try {
+      const { streamText } = await import("ai");
+      const { getLanguageModel } = await import("@/lib/provider");
+
+      const result = streamText({
+        model: getLanguageModel("openai-compatible:llama3.1") as any,
+        prompt: "Say hello",
+      });
+
+      expect(await result.text).toBe("Hello there");
+      expect(fetch).toHaveBeenCalledWith(
+        "http://localhost:8080/v1/chat/completions",
+        expect.anything()
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  test("notes the mock fallback only when no provider is configured", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const { getLanguageModel } = await import("@/lib/provider");
+    getLanguageModel("mock");
+    expect(log).toHaveBeenCalledWith(
+      "No model provider configured, using mock provider"
+    );
+
+    log.mockClear();
+    process.env.ANTHROPIC_API_KEY = "sk-test-key-12345";
+    process.env.MOCK_SCENARIOS_DIR = "mock-scenarios";
+    getLanguageModel("mock");
+    expect(log).not.toHaveBeenCalled();
+
+    log.mockRestore();
+  });
+});
+
+describe("MockLanguageModel scenarios", () => {
+  async function readParts(stream: ReadableStream<any>): Promise<any[]> {
+    const parts: any[] = [];
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return parts;
+      parts.push(value);
+    }
+  }
+
+  test("replays a scenario file step by step", async () => {
+    const { MockLanguageModel } = await import("@/lib/provider");
+    const { loadScenarios } = await import("@/lib/mock-scenario-files");
+    const model = new MockLanguageModel("mock-claude-sonnet-4-0", () =>
+      loadScenarios("mock-scenarios")
+    );
+    const user = {
+      role: "user" as const,
+      content: [{ type: "text" as const, text: "Build a sales dashboard" }],
+    };
+
+    const first = await readParts(
+      (await model.doStream({ prompt: [user] } as any)).stream
+    );
+    expect(
+      first
+        .filter((part) => part.type === "tool-call")
+        .map((part) => JSON.parse(part.args).path)
+    ).toEqual([
+      "/components/StatCard.jsx",
+      "/components/Dashboard.jsx",
+      "/App.jsx",
+    ]);
+    expect(first[first.length - 1]).toMatchObject({
+      type: "finish",
+      finishReason: "tool-calls",
+    });
+
+    const second = await readParts(
+      (
+        await model.doStream({
+          prompt: [
+            user,
+            { role: "assistant", content: [] },
+            { role: "tool", content: [] },
+          ],
+        } as any)
+      ).stream
+    );
+    expect(
+      second
+        .filter((part) => part.type === "text-delta")
+        .map((part) => part.textDelta)
+        .join("")
+    ).toContain("The dashboard is ready");
+    expect(second[second.length - 1]).toMatchObject({ finishReason: "stop" });
+  });
+
+  test("scripted errors reach the stream", async () => {
+    const { MockLanguageModel } = await import("@/lib/provider");
+    const model = new MockLanguageModel("mock-claude-sonnet-4-0", [
+      {
+        name: "overloaded",
+        steps: [{ text: "Let me", error: "Overloaded" }],
+      },
+    ]);
+
+    const parts = await readParts(
+      (
+        await model.doStream({
+          prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+        } as any)
+      ).stream
+    );
+
+    expect(parts.map((part) => part.type)).toEqual([
+      "text-delta",
+      "error",
+      "finish",
+    ]);
+    expect(parts[1].error.message).toBe("Overloaded");
+  });
+
+  test("MOCK_SCENARIOS_DIR offers the mock beside real models", async () => {
+    const originalEnv = process.env;
+    process.env = {
+      ...originalEnv,
+      ANTHROPIC_API_KEY: "sk-test-key-12345",
+      ANTHROPIC_MODELS: "claude-haiku-4-5",
+      MOCK_SCENARIOS_DIR: "mock-scenarios",
+    };
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+
+    try {
+      vi.resetModules();
+      const { getModelOptions } = await import("@/lib/provider");
+
+      expect(getModelOptions()).toEqual([
+        { id: "anthropic:claude-haiku-4-5", label: "Claude Haiku 4.5" },
+        { id: "mock", label: "Mock scenarios" },
+      ]);
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+});
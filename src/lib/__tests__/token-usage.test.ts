@@ -0,0 +1,155 @@
+import { test, expect } from "vitest";
+import {
+  estimateCost,
+  formatCost,
+  quotaExceededMessage,
+  startOfMonth,
+  startOfNextMonth,
+  sumStepUsage,
+  toUsageSummary,
+  totalTokens,
+} from "@/lib/token-usage";
+
+test("sumStepUsage adds up input, output and cache tokens across steps", () => {
+  const usage = sumStepUsage([
+    {
+      usage: { promptTokens: 120, completionTokens: 300 },
+      providerMetadata: {
+        anthropic: { cacheCreationInputTokens: 2000, cacheReadInputTokens: 0 },
+      },
+    },
+    {
+      usage: { promptTokens: 80, completionTokens: 50 },
+      providerMetadata: {
+        anthropic: { cacheCreationInputTokens: 0, cacheReadInputTokens: 2000 },
+      },
+    },
+  ]);
+
+  expect(usage).toEqual({
+    inputTokens: 200,
+    outputTokens: 350,
+    cacheCreationInputTokens: 2000,
+    cacheReadInputTokens: 2000,
+  });
+  expect(totalTokens(usage)).toBe(4550);
+});
+
+test("sumStepUsage reads the usage the current AI SDK reports", () => {
+  // Input tokens include the cached ones, which the details split out
+  const step = {
+    usage: {
+      inputTokens: 2120,
+      inputTokenDetails: {
+        noCacheTokens: 120,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 2000,
+      },
+      outputTokens: 300,
+      outputTokenDetails: { textTokens: 300, reasoningTokens: undefined },
+      totalTokens: 2420,
+    },
+    providerMetadata: {
+      anthropic: { cacheCreationInputTokens: 2000, cacheReadInputTokens: 0 },
+    },
+  };
+
+  expect(sumStepUsage([step, { usage: { inputTokens: 80, outputTokens: 50 } }]))
+    .toEqual({
+      inputTokens: 200,
+      outputTokens: 350,
+      cacheCreationInputTokens: 2000,
+      cacheReadInputTokens: 0,
+    });
+});
+
+test("sumStepUsage counts missing usage as zero", () => {
+  expect(sumStepUsage([{}, { usage: { promptTokens: NaN } }])).toEqual({
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  });
+});
+
+test("estimateCost prices cache reads below regular input", () => {
+  const uncached = estimateCost("claude-haiku-4-5", {
+    inputTokens: 1_000_000,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+  });
+  const cached = estimateCost("claude-haiku-4-5", {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 1_000_000,
+  });
+
+  expect(uncached).toBeCloseTo(1);
+  expect(cached).toBeCloseTo(0.1);
+  expect(
+    estimateCost("claude-haiku-4-5", {
+      inputTokens: 0,
+      outputTokens: 1_000_000,
+      cacheCreationInputTokens: 1_000_000,
+      cacheReadInputTokens: 0,
+    })
+  ).toBeCloseTo(6.25);
+});
+
+test("estimateCost treats unpriced models as free", () => {
+  expect(
+    estimateCost("mock-claude-sonnet-4-0", {
+      inputTokens: 100,
+      outputTokens: 100,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    })
+  ).toBe(0);
+});
+
+test("toUsageSummary fills in empty aggregates", () => {
+  expect(toUsageSummary({ _sum: {}, _count: { _all: 0 } })).toEqual({
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    turns: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  });
+  expect(
+    toUsageSummary({
+      _sum: {
+        inputTokens: 10,
+        outputTokens: 20,
+        cacheCreationInputTokens: null,
+        cacheReadInputTokens: 30,
+        costUsd: 0.5,
+      },
+      _count: { _all: 2 },
+    })
+  ).toMatchObject({ turns: 2, totalTokens: 60, costUsd: 0.5 });
+});
+
+test("months start and end at midnight UTC on the first", () => {
+  const date = new Date("2026-12-31T23:30:00Z");
+
+  expect(startOfMonth(date).toISOString()).toBe("2026-12-01T00:00:00.000Z");
+  expect(startOfNextMonth(date).toISOString()).toBe("2027-01-01T00:00:00.000Z");
+});
+
+test("formatCost rounds to cents and marks tiny amounts", () => {
+  expect(formatCost(0)).toBe("$0.00");
+  expect(formatCost(0.004)).toBe("<$0.01");
+  expect(formatCost(12.345)).toBe("$12.35");
+});
+
+test("quotaExceededMessage names the quota and when it resets", () => {
+  expect(
+    quotaExceededMessage(1_000_000, new Date("2026-11-01T00:00:00Z"))
+  ).toBe(
+    "You've used your monthly quota of 1,000,000 tokens. It resets on November 1; ask an admin if you need more before then."
+  );
+});
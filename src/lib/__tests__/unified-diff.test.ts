@@ -0,0 +1,114 @@
+import { test, expect } from "vitest";
+import { parseUnifiedDiff, applyHunks } from "@/lib/unified-diff";
+
+test("parseUnifiedDiff reads files and hunks", () => {
+  const patches = parseUnifiedDiff(
+    [
+      "diff --git a/src/App.jsx b/src/App.jsx",
+      "index 83db48f..bf269f4 100644",
+      "--- a/src/App.jsx",
+      "+++ b/src/App.jsx",
+      "@@ -2,3 +2,3 @@ export default function App() {",
+      " return (",
+      "-  <div />",
+      "+  <main />",
+      " );",
+      "",
+    ].join("\n")
+  );
+
+  expect(patches).toEqual([
+    {
+      oldPath: "/src/App.jsx",
+      newPath: "/src/App.jsx",
+      hunks: [
+        {
+          header: "@@ -2,3 +2,3 @@ export default function App() {",
+          oldStart: 2,
+          lines: [
+            { type: "context", text: "return (" },
+            { type: "removed", text: "  <div />" },
+            { type: "added", text: "  <main />" },
+            { type: "context", text: ");" },
+          ],
+        },
+      ],
+    },
+  ]);
+});
+
+test("parseUnifiedDiff treats /dev/null as a missing side", () => {
+  const [created, deleted] = parseUnifiedDiff(
+    [
+      "--- /dev/null",
+      "+++ /components/New.jsx\t2024-01-01 00:00:00",
+      "@@ -0,0 +1 @@",
+      "+new",
+      "--- a/Old.jsx",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-old",
+    ].join("\n")
+  );
+
+  expect(created.oldPath).toBeNull();
+  expect(created.newPath).toBe("/components/New.jsx");
+  expect(deleted.oldPath).toBe("/Old.jsx");
+  expect(deleted.newPath).toBeNull();
+});
+
+test("parseUnifiedDiff rejects a hunk without a file header", () => {
+  expect(() => parseUnifiedDiff("@@ -1 +1 @@\n-a\n+b")).toThrow(
+    "Invalid hunk header: @@ -1 +1 @@"
+  );
+});
+
+test("applyHunks finds hunks whose line numbers have drifted", () => {
+  const [patch] = parseUnifiedDiff(
+    ["--- a/f", "+++ b/f", "@@ -1,2 +1,2 @@", " c", "-d", "+D"].join("\n")
+  );
+
+  expect(applyHunks("a\nb\nc\nd\ne", patch.hunks)).toEqual({
+    content: "a\nb\nc\nD\ne",
+  });
+});
+
+test("applyHunks applies several hunks with shifting offsets", () => {
+  const [patch] = parseUnifiedDiff(
+    [
+      "--- a/f",
+      "+++ b/f",
+      "@@ -1,2 +1,3 @@",
+      " a",
+      "+a2",
+      " b",
+      "@@ -4,2 +5,1 @@",
+      " d",
+      "-e",
+    ].join("\n")
+  );
+
+  expect(applyHunks("a\nb\nc\nd\ne", patch.hunks)).toEqual({
+    content: "a\na2\nb\nc\nd",
+  });
+});
+
+test("applyHunks reports the hunk that does not match", () => {
+  const [patch] = parseUnifiedDiff(
+    [
+      "--- a/f",
+      "+++ b/f",
+      "@@ -1 +1 @@",
+      "-a",
+      "+A",
+      "@@ -3 +3 @@",
+      "-z",
+      "+Z",
+    ].join("\n")
+  );
+
+  expect(applyHunks("a\nb\nc", patch.hunks)).toEqual({
+    failedHunk: 1,
+    reason: "the context and removed lines do not match the file",
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, test, expect, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+import {
+  buildVendoredModule,
+  isVendoredModule,
+  readTailwindRuntime,
+} from "@/lib/vendored-modules";
+
+describe("vendored preview modules", () => {
+  test("recognizes the modules the preview runtime needs", () => {
+    expect(isVendoredModule("react")).toBe(true);
+    expect(isVendoredModule("react-dom/client")).toBe(true);
+    expect(isVendoredModule("scheduler")).toBe(true);
+    expect(isVendoredModule("lodash")).toBe(false);
+    expect(isVendoredModule("toString")).toBe(false);
+  });
+
+  test("wraps react as an ES module with named exports", async () => {
+    const code = await buildVendoredModule("react");
+
+    expect(code).toContain("export default __exports;");
+    expect(code).toContain("export const useState = __exports.useState;");
+    expect(code).toContain("export const createElement = __exports.createElement;");
+    expect(code).not.toContain("import __dep0");
+  });
+
+  test("imports CommonJS dependencies through the import map", async () => {
+    const code = await buildVendoredModule("react-dom/client");
+
+    expect(code).toContain('from "react";');
+    expect(code).toContain('from "scheduler";');
+    expect(code).toContain("export const createRoot = __exports.createRoot;");
+  });
+
+  test("reads the Tailwind browser runtime", async () => {
+    const code = await readTailwindRuntime();
+
+    expect(code.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect } from "vitest";
+import { diffLines, diffSnapshots } from "@/lib/version-diff";
+import type { FileNode } from "@/lib/file-system";
+
+function file(path: string, content: string): FileNode {
+  return { type: "file", name: path.split("/").pop()!, path, content };
+}
+
+describe("diffLines", () => {
+  test("returns only unchanged lines for identical content", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { type: "unchanged", line: "a" },
+      { type: "unchanged", line: "b" },
+    ]);
+  });
+
+  test("detects added and removed lines", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+      { type: "unchanged", line: "a" },
+      { type: "removed", line: "b" },
+      { type: "added", line: "x" },
+      { type: "unchanged", line: "c" },
+      { type: "added", line: "d" },
+    ]);
+  });
+
+  test("treats empty content as no lines", () => {
+    expect(diffLines("", "a")).toEqual([{ type: "added", line: "a" }]);
+    expect(diffLines("a", "")).toEqual([{ type: "removed", line: "a" }]);
+  });
+});
+
+describe("diffSnapshots", () => {
+  test("reports added, removed and modified files sorted by path", () => {
+    const before = {
+      "/": { type: "directory" as const, name: "/", path: "/" },
+      "/App.jsx": file("/App.jsx", "one\ntwo"),
+      "/Old.jsx": file("/Old.jsx", "old"),
+    };
+    const after = {
+      "/": { type: "directory" as const, name: "/", path: "/" },
+      "/App.jsx": file("/App.jsx", "one\nthree"),
+      "/New.jsx": file("/New.jsx", "new\nfile"),
+    };
+
+    const diffs = diffSnapshots(before, after);
+
+    expect(diffs.map((d) => [d.path, d.status, d.additions, d.deletions])).toEqual([
+      ["/App.jsx", "modified", 1, 1],
+      ["/New.jsx", "added", 2, 0],
+      ["/Old.jsx", "removed", 0, 1],
+    ]);
+  });
+
+  test("skips unchanged files and directories", () => {
+    const snapshot = {
+      "/components": { type: "directory" as const, name: "components", path: "/components" },
+      "/components/Button.jsx": file("/components/Button.jsx", "button"),
+    };
+
+    expect(diffSnapshots(snapshot, { ...snapshot })).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { test, expect } from "vitest";
+import { strFromU8, unzipSync } from "fflate";
+import {
+  buildViteProject,
+  collectPackageImports,
+  createViteProjectZip,
+} from "@/lib/vite-export";
+
+const files = new Map([
+  [
+    "/App.jsx",
+    [
+      "import { motion } from 'framer-motion';",
+      "import debounce from 'lodash/debounce';",
+      "import Card from '@/components/Card';",
+      "import { Tabs } from '@radix-ui/react-tabs';",
+      "export default function App() { return <Card />; }",
+    ].join("\n"),
+  ],
+  [
+    "/components/Card.jsx",
+    "import React from 'react';\nimport './Card.css';\nexport default function Card() { return <div />; }",
+  ],
+  ["/components/Card.css", ".card { color: red; }"],
+]);
+
+test("collectPackageImports finds third-party packages only", () => {
+  expect(collectPackageImports(files)).toEqual({
+    packages: {
+      "@radix-ui/react-tabs": null,
+      "framer-motion": null,
+      lodash: null,
+      react: null,
+    },
+    pinned: [],
+    projectRoots: [],
+  });
+});
+
+const bareImports = new Map([
+  [
+    "/App.jsx",
+    [
+      "import Button from 'components/Button';",
+      "import { theme } from 'theme';",
+      "import { motion } from 'framer-motion@11.2.0';",
+      "import { Sheet } from '@acme/ui@2/sheet';",
+      "export default function App() { return <Button />; }",
+    ].join("\n"),
+  ],
+  ["/components/Button.jsx", "export default function Button() { return null; }"],
+  ["/theme.js", "export const theme = {};"],
+]);
+
+test("collectPackageImports tells project files and pinned versions apart", () => {
+  expect(collectPackageImports(bareImports)).toEqual({
+    packages: { "@acme/ui": "2", "framer-motion": "11.2.0" },
+    pinned: ["@acme/ui@2", "framer-motion@11.2.0"],
+    projectRoots: ["components", "theme"],
+  });
+});
+
+test("buildViteProject pins known versions and aliases bare project imports", () => {
+  const project = buildViteProject(bareImports, "Bare");
+
+  expect(JSON.parse(project["package.json"]).dependencies).toEqual({
+    react: "^19.0.0",
+    "react-dom": "^19.0.0",
+    "@acme/ui": "2",
+    "framer-motion": "11.2.0",
+  });
+  expect(project["vite.config.js"]).toContain(
+    '"components": path.resolve(root, "src/components"),'
+  );
+  expect(project["vite.config.js"]).toContain(
+    '"theme": path.resolve(root, "src/theme"),'
+  );
+  expect(project["vite.config.js"]).toContain(
+    '"framer-motion@11.2.0": "framer-motion",'
+  );
+  expect(project["vite.config.js"]).toContain('"@acme/ui@2": "@acme/ui",');
+});
+
+test("buildViteProject lays files out under src with Vite config", () => {
+  const project = buildViteProject(files, "My Landing Page");
+
+  expect(Object.keys(project).sort()).toEqual([
+    "index.html",
+    "package.json",
+    "src/App.jsx",
+    "src/components/Card.css",
+    "src/components/Card.jsx",
+    "src/main.jsx",
+    "src/tailwind.css",
+    "vite.config.js",
+  ]);
+  expect(project["src/App.jsx"]).toBe(files.get("/App.jsx"));
+  expect(project["vite.config.js"]).toContain('"@": path.resolve(root, "src")');
+  expect(project["vite.config.js"]).toContain("plugins: [react(), tailwindcss()]");
+  expect(project["src/tailwind.css"]).toBe('@import "tailwindcss";\n');
+  expect(project["src/main.jsx"]).toContain('import App from "./App.jsx";');
+  expect(project["index.html"]).toContain('src="/src/main.jsx"');
+  expect(project["index.html"]).toContain("<title>My Landing Page</title>");
+});
+
+test("buildViteProject adds imported packages as dependencies", () => {
+  const pkg = JSON.parse(buildViteProject(files, "My Landing Page")["package.json"]);
+
+  expect(pkg.name).toBe("my-landing-page");
+  expect(pkg.dependencies).toEqual({
+    react: "^19.0.0",
+    "react-dom": "^19.0.0",
+    "@radix-ui/react-tabs": "latest",
+    "framer-motion": "latest",
+    lodash: "latest",
+  });
+  expect(pkg.devDependencies).toHaveProperty("vite");
+  expect(pkg.devDependencies).toMatchObject({
+    tailwindcss: "^4.1.0",
+    "@tailwindcss/vite": "^4.1.0",
+  });
+});
+
+test("buildViteProject keeps project files that clash with generated ones", () => {
+  const project = buildViteProject(
+    new Map([
+      ["/App.tsx", "export default function App() { return null; }"],
+      ["/main.jsx", "export const main = true;"],
+    ]),
+    "Clash"
+  );
+
+  expect(project["src/main.jsx"]).toBe("export const main = true;");
+  expect(project["src/main-2.jsx"]).toContain('import App from "./App.tsx";');
+  expect(project["index.html"]).toContain('src="/src/main-2.jsx"');
+});
+
+test("buildViteProject rejects projects without components", () => {
+  expect(() => buildViteProject(new Map(), "Empty")).toThrow(
+    "The project has no component to export"
+  );
+});
+
+test("createViteProjectZip wraps the project in a folder", () => {
+  const entries = unzipSync(createViteProjectZip(files, "My Landing Page"));
+
+  expect(strFromU8(entries["my-landing-page/src/App.jsx"])).toBe(
+    files.get("/App.jsx")
+  );
+  expect(entries["my-landing-page/package.json"]).toBeDefined();
+});
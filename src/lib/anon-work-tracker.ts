@@ -8,7 +8,18 @@ export function setHasAnonWork(messages: any[], fileSystemData: any) {
   // Only set if there's actual content
   if (messages.length > 0 || Object.keys(fileSystemData).length > 1) { // > 1 because root "/" always exists
     sessionStorage.setItem(STORAGE_KEY, "true");
-    sessionStorage.setItem(DATA_KEY, JSON.stringify({ messages, fileSystemData }));
+    try {
+      sessionStorage.setItem(DATA_KEY, JSON.stringify({ messages, fileSystemData }));
+    } catch {
+      // Attached images can outgrow the storage quota; keep the rest
+      const withoutImages = messages.map(
+        ({ experimental_attachments, ...message }) => message
+      );
+      sessionStorage.setItem(
+        DATA_KEY,
+        JSON.stringify({ messages: withoutImages, fileSystemData })
+      );
+    }
   }
 }
 
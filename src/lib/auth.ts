@@ -51,6 +51,15 @@ export async function getSession(): Promise<SessionPayload | null> {
   }
 }
 
+// Admins are listed by email in ADMIN_EMAILS, separated by commas
+export function isAdmin(session: Pick<SessionPayload, "email">): boolean {
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(session.email.toLowerCase());
+}
+
 export async function deleteSession() {
   const cookieStore = await cookies();
   cookieStore.delete(COOKIE_NAME);
@@ -0,0 +1,241 @@
+import { getImageAttachments } from "@/lib/image-attachments";
+
+// Chat history is stored one row per message in the Message table. A stored
+// message is either a UI message from the client (content, parts and
+// toolInvocations) or a response message from the model, whose content is an
+// array of text, tool-call and tool-result parts.
+//
+// Rows form a tree through parentId: editing or regenerating a user message
+// adds a sibling instead of replacing it, which starts a new branch. The
+// project's activeMessageId is the last message of the branch the chat is on.
+
+// Messages loaded with a project; older ones are fetched on demand
+export const RECENT_MESSAGE_LIMIT = 50;
+
+export interface MessageRowData {
+  id: string;
+  parentId: string | null;
+  messageId: string | null;
+  role: string;
+  position: number;
+  content: string;
+  parts: string | null;
+  toolInvocations: string | null;
+  attachments: string | null;
+}
+
+// Rows for messages appended after parentId, each the parent of the next.
+// Ids are assigned here so the rows can be created in a single write
+export function toMessageRows(
+  messages: any[],
+  startPosition = 0,
+  parentId: string | null = null
+): MessageRowData[] {
+  let previousId = parentId;
+  return messages
+    .filter((message) => message.role !== "system")
+    .map((message, i) => {
+      const id = crypto.randomUUID();
+      const row = {
+        id,
+        parentId: previousId,
+        messageId: message.id ?? null,
+        role: message.role,
+        position: startPosition + i,
+        content: JSON.stringify(message.content ?? ""),
+        parts: message.parts ? JSON.stringify(message.parts) : null,
+        toolInvocations: message.toolInvocations
+          ? JSON.stringify(message.toolInvocations)
+          : null,
+        attachments: message.experimental_attachments?.length
+          ? JSON.stringify(message.experimental_attachments)
+          : null,
+      };
+      previousId = id;
+      return row;
+    });
+}
+
+export function fromMessageRow(
+  row: Pick<
+    MessageRowData,
+    | "messageId"
+    | "role"
+    | "content"
+    | "parts"
+    | "toolInvocations"
+    | "attachments"
+  >
+): any {
+  const message: Record<string, unknown> = {
+    role: row.role,
+    content: JSON.parse(row.content),
+  };
+  if (row.messageId) message.id = row.messageId;
+  if (row.parts) message.parts = JSON.parse(row.parts);
+  if (row.toolInvocations) {
+    message.toolInvocations = JSON.parse(row.toolInvocations);
+  }
+  if (row.attachments) {
+    message.experimental_attachments = JSON.parse(row.attachments);
+  }
+  return message;
+}
+
+// Text of a chat message in either the string or the parts format
+export function getMessageText(message: {
+  content?: unknown;
+  parts?: Array<{ type: string; text?: string }>;
+}): string {
+  if (typeof message.content === "string" && message.content) {
+    return message.content;
+  }
+  const parts = Array.isArray(message.content)
+    ? (message.content as Array<{ type: string; text?: string }>)
+    : message.parts || [];
+  return parts
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join(" ");
+}
+
+// A message as the model takes it. Images attached to a user message are
+// stored as experimental_attachments, which the AI SDK no longer reads, so
+// they are sent as image parts after the text
+export function toModelMessage(message: any): any {
+  const images = getImageAttachments(message);
+  if (message.role !== "user" || images.length === 0) {
+    return message;
+  }
+
+  return {
+    role: "user",
+    content: [
+      { type: "text", text: getMessageText(message) },
+      ...images.map((image) => ({
+        type: "image",
+        image: image.url,
+        mediaType: image.contentType,
+      })),
+    ],
+  };
+}
+
+// The client only holds the messages it has loaded, and the server already
+// stored every assistant and tool message it produced. So only user
+// messages after the last one the server knows about are new.
+export function findNewMessages(
+  clientMessages: any[],
+  storedMessageIds: Set<string>
+): any[] {
+  let lastKnown = -1;
+  clientMessages.forEach((message, i) => {
+    if (message.id && storedMessageIds.has(message.id)) {
+      lastKnown = i;
+    }
+  });
+
+  return clientMessages
+    .slice(lastKnown + 1)
+    .filter((message) => message.role === "user");
+}
+
+// The fields needed to walk the tree without loading message contents
+export const MESSAGE_TREE_SELECT = {
+  id: true,
+  parentId: true,
+  messageId: true,
+  role: true,
+  createdAt: true,
+} as const;
+
+export interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+  messageId: string | null;
+  role: string;
+  createdAt: Date;
+}
+
+export interface BranchInfo {
+  // Which of the message's versions is shown, from 0, and how many there are
+  index: number;
+  count: number;
+}
+
+// Row ids from the first message down to leafId
+export function getMessagePath(
+  nodes: MessageTreeNode[],
+  leafId: string | null
+): string[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const path: string[] = [];
+  let node = leafId ? byId.get(leafId) : undefined;
+  while (node) {
+    path.unshift(node.id);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path;
+}
+
+// Index on a path of the message the chat client knows as messageId, or -1.
+// Versions of an edited message share its id, but only one is on a path
+export function findPathIndex(
+  nodes: MessageTreeNode[],
+  path: string[],
+  messageId: string
+): number {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  return path.findIndex((id) => byId.get(id)?.messageId === messageId);
+}
+
+function getChildren(nodes: MessageTreeNode[], parentId: string | null) {
+  return nodes
+    .filter((node) => node.parentId === parentId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// The user messages sharing a message's parent, oldest first: the versions
+// a branch switcher steps through
+export function getSiblings(
+  nodes: MessageTreeNode[],
+  id: string
+): MessageTreeNode[] {
+  const node = nodes.find((candidate) => candidate.id === id);
+  if (!node) return [];
+  return getChildren(nodes, node.parentId).filter(
+    (sibling) => sibling.role === node.role
+  );
+}
+
+// Where a branch currently ends: follows the newest child down from id
+export function findLatestLeaf(nodes: MessageTreeNode[], id: string): string {
+  let leafId = id;
+  for (;;) {
+    const children = getChildren(nodes, leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+// Branch positions of the user messages on a path that have other
+// versions, keyed by the id the chat client knows the message by
+export function getBranchPoints(
+  nodes: MessageTreeNode[],
+  path: string[]
+): Record<string, BranchInfo> {
+  const branches: Record<string, BranchInfo> = {};
+  for (const id of path) {
+    const node = nodes.find((candidate) => candidate.id === id);
+    if (!node || node.role !== "user" || !node.messageId) continue;
+
+    const siblings = getSiblings(nodes, id);
+    if (siblings.length > 1) {
+      branches[node.messageId] = {
+        index: siblings.findIndex((sibling) => sibling.id === id),
+        count: siblings.length,
+      };
+    }
+  }
+  return branches;
+}
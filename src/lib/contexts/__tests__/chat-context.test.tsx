@@ -1,15 +1,29 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, waitFor, act, cleanup } from "@testing-library/react";
-import { ChatProvider, useChat } from "../chat-context";
+import {
+  ChatProvider,
+  useChat,
+  AUTO_FIX_SETTLE_MS,
+  MAX_AUTO_FIX_ATTEMPTS,
+} from "../chat-context";
 import { useFileSystem } from "../file-system-context";
+import { usePreviewConsole } from "../preview-console-context";
 import { useChat as useAIChat } from "@ai-sdk/react";
 import * as anonTracker from "@/lib/anon-work-tracker";
+import { getProjectMessages } from "@/actions/get-project-messages";
+import { getMessageFiles } from "@/actions/get-message-files";
+import { switchBranch } from "@/actions/switch-branch";
+import { setProjectModel } from "@/actions/set-project-model";
 
 // Mock dependencies
 vi.mock("../file-system-context", () => ({
   useFileSystem: vi.fn(),
 }));
 
+vi.mock("../preview-console-context", () => ({
+  usePreviewConsole: vi.fn(),
+}));
+
 vi.mock("@ai-sdk/react", () => ({
   useChat: vi.fn(),
 }));
@@ -18,6 +32,22 @@ vi.mock("@/lib/anon-work-tracker", () => ({
   setHasAnonWork: vi.fn(),
 }));
 
+vi.mock("@/actions/get-project-messages", () => ({
+  getProjectMessages: vi.fn(),
+}));
+
+vi.mock("@/actions/get-message-files", () => ({
+  getMessageFiles: vi.fn(),
+}));
+
+vi.mock("@/actions/switch-branch", () => ({
+  switchBranch: vi.fn(),
+}));
+
+vi.mock("@/actions/set-project-model", () => ({
+  setProjectModel: vi.fn(),
+}));
+
 // Helper component to access chat context
 function TestComponent() {
   const chat = useChat();
@@ -33,6 +63,7 @@ function TestComponent() {
         <button type="submit">Submit</button>
       </form>
       <div data-testid="status">{chat.status}</div>
+      <button onClick={() => chat.setAutoFix(true)}>Enable auto-fix</button>
     </div>
   );
 }
@@ -43,6 +74,8 @@ describe("ChatContext", () => {
   };
 
   const mockHandleToolCall = vi.fn();
+  const mockRestoreFiles = vi.fn();
+  const mockClearEditHistory = vi.fn();
 
   const mockUseAIChat = {
     messages: [],
@@ -58,8 +91,12 @@ describe("ChatContext", () => {
     (useFileSystem as any).mockReturnValue({
       fileSystem: mockFileSystem,
       handleToolCall: mockHandleToolCall,
+      restoreFiles: mockRestoreFiles,
+      clearEditHistory: mockClearEditHistory,
     });
 
+    (usePreviewConsole as any).mockReturnValue({ entries: [] });
+
     (useAIChat as any).mockReturnValue(mockUseAIChat);
   });
 
@@ -196,4 +233,539 @@ describe("ChatContext", () => {
 
     expect(mockHandleToolCall).toHaveBeenCalledWith(toolCall);
   });
+
+  test("loads older messages before the loaded ones", async () => {
+    const setMessages = vi.fn();
+    (useAIChat as any).mockReturnValue({ ...mockUseAIChat, setMessages });
+    const older = [{ id: "0", role: "user", content: "First" }];
+    (getProjectMessages as any).mockResolvedValue({
+      messages: older,
+      olderMessageCount: 0,
+    });
+
+    let chat: ReturnType<typeof useChat> | undefined;
+    function Capture() {
+      chat = useChat();
+      return null;
+    }
+
+    render(
+      <ChatProvider projectId="test-project" olderMessageCount={60}>
+        <Capture />
+      </ChatProvider>
+    );
+
+    expect(chat!.hasOlderMessages).toBe(true);
+
+    await act(async () => {
+      await chat!.loadOlderMessages();
+    });
+
+    expect(getProjectMessages).toHaveBeenCalledWith("test-project", {
+      before: 60,
+    });
+    const update = setMessages.mock.calls[0][0];
+    expect(update([{ id: "1", role: "assistant", content: "Hi" }])).toEqual([
+      ...older,
+      { id: "1", role: "assistant", content: "Hi" },
+    ]);
+    expect(chat!.hasOlderMessages).toBe(false);
+  });
+
+  describe("stop, regenerate and edit", () => {
+    const firstFiles = { "/App.jsx": { type: "file", content: "first" } };
+
+    function renderChat(overrides: Record<string, unknown> = {}) {
+      const chatResult = {
+        ...mockUseAIChat,
+        sendMessage: vi.fn(),
+        stop: vi.fn(),
+        regenerate: vi.fn(),
+        ...overrides,
+      };
+      (useAIChat as any).mockReturnValue(chatResult);
+
+      let chat: ReturnType<typeof useChat> | undefined;
+      function Capture() {
+        chat = useChat();
+        return <TestComponent />;
+      }
+
+      render(
+        <ChatProvider projectId="test-project">
+          <Capture />
+        </ChatProvider>
+      );
+      return { chatResult, getChat: () => chat! };
+    }
+
+    test("exposes stop from the AI chat", () => {
+      const { chatResult, getChat } = renderChat();
+
+      getChat().stop();
+
+      expect(chatResult.stop).toHaveBeenCalled();
+    });
+
+    test("edits a message sent this session from the files it was sent with", async () => {
+      const { chatResult, getChat } = renderChat();
+
+      act(() => {
+        getChat().handleInputChange({
+          target: { value: "Make a button" },
+        } as any);
+      });
+      // The snapshot is taken right before sending
+      mockFileSystem.serialize.mockReturnValueOnce(firstFiles as any);
+      act(() => {
+        screen.getByText("Submit").click();
+      });
+
+      const [sent] = chatResult.sendMessage.mock.calls[0];
+      expect(sent).toMatchObject({ role: "user", content: "Make a button" });
+      expect(sent.id).toEqual(expect.any(String));
+
+      await act(async () => {
+        await getChat().editMessage(sent.id, "  Make a red button ");
+      });
+
+      expect(getMessageFiles).not.toHaveBeenCalled();
+      expect(mockRestoreFiles).toHaveBeenCalledWith(firstFiles);
+      const [edited, options] = chatResult.sendMessage.mock.calls[1];
+      expect(edited).toEqual({
+        role: "user",
+        content: "Make a red button",
+        messageId: sent.id,
+      });
+      expect(options.body).toMatchObject({
+        projectId: "test-project",
+        previewErrors: [],
+        branchFrom: sent.id,
+      });
+    });
+
+    test("rolls back to the stored files for messages loaded from the server", async () => {
+      (getMessageFiles as any).mockResolvedValue(firstFiles);
+      const { chatResult, getChat } = renderChat();
+
+      await act(async () => {
+        await getChat().editMessage("stored-user", "Try again");
+      });
+
+      expect(getMessageFiles).toHaveBeenCalledWith(
+        "test-project",
+        "stored-user"
+      );
+      expect(mockRestoreFiles).toHaveBeenCalledWith(firstFiles);
+      expect(chatResult.sendMessage).toHaveBeenCalled();
+    });
+
+    test("does not resend when the files can't be rolled back", async () => {
+      (getMessageFiles as any).mockRejectedValue(new Error("Message not found"));
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const { chatResult, getChat } = renderChat();
+
+      await act(async () => {
+        await getChat().editMessage("missing", "Try again");
+      });
+
+      expect(chatResult.sendMessage).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    test("counts the resent message as a new branch in a saved project", async () => {
+      (getMessageFiles as any).mockResolvedValue(firstFiles);
+      const { getChat } = renderChat();
+
+      await act(async () => {
+        await getChat().editMessage("stored-user", "Try again");
+      });
+
+      expect(getChat().branches).toEqual({
+        "stored-user": { index: 1, count: 2 },
+      });
+    });
+
+    test("regenerates the last answer from the last user message's files", async () => {
+      (getMessageFiles as any).mockResolvedValue(firstFiles);
+      const { chatResult, getChat } = renderChat({
+        messages: [
+          { id: "user-1", role: "user", content: "Make a button" },
+          { id: "assistant-1", role: "assistant", content: "Done" },
+          { id: "user-2", role: "user", content: "Make it red" },
+          { id: "assistant-2", role: "assistant", content: "Done" },
+        ],
+      });
+
+      await act(async () => {
+        await getChat().regenerate();
+      });
+
+      expect(getMessageFiles).toHaveBeenCalledWith("test-project", "user-2");
+      expect(mockRestoreFiles).toHaveBeenCalledWith(firstFiles);
+      expect(mockClearEditHistory).toHaveBeenCalled();
+      expect(chatResult.regenerate).toHaveBeenCalledWith({
+        body: expect.objectContaining({
+          projectId: "test-project",
+          previewErrors: [],
+          branchFrom: "user-2",
+        }),
+      });
+    });
+  });
+
+  describe("branches", () => {
+    test("switches branch and swaps the files and messages", async () => {
+      const setMessages = vi.fn();
+      (useAIChat as any).mockReturnValue({ ...mockUseAIChat, setMessages });
+      const branchFiles = { "/App.jsx": { type: "file", content: "red" } };
+      const branchMessages = [
+        { id: "user-1", role: "user", content: "Make it red" },
+      ];
+      (switchBranch as any).mockResolvedValue({
+        messages: branchMessages,
+        olderMessageCount: 0,
+        branches: { "user-1": { index: 0, count: 2 } },
+        data: branchFiles,
+      });
+
+      let chat: ReturnType<typeof useChat> | undefined;
+      function Capture() {
+        chat = useChat();
+        return null;
+      }
+
+      render(
+        <ChatProvider
+          projectId="test-project"
+          branches={{ "user-1": { index: 1, count: 2 } }}
+        >
+          <Capture />
+        </ChatProvider>
+      );
+
+      expect(chat!.branches).toEqual({ "user-1": { index: 1, count: 2 } });
+
+      await act(async () => {
+        await chat!.switchBranch("user-1", 0);
+      });
+
+      expect(switchBranch).toHaveBeenCalledWith(
+        "test-project",
+        "user-1",
+        0,
+        mockFileSystem.serialize()
+      );
+      expect(mockRestoreFiles).toHaveBeenCalledWith(branchFiles);
+      expect(setMessages).toHaveBeenCalledWith(branchMessages);
+      expect(chat!.branches).toEqual({ "user-1": { index: 0, count: 2 } });
+      expect(chat!.isSwitchingBranch).toBe(false);
+    });
+
+    test("does not branch anonymous chats", async () => {
+      let chat: ReturnType<typeof useChat> | undefined;
+      function Capture() {
+        chat = useChat();
+        return null;
+      }
+
+      render(
+        <ChatProvider>
+          <Capture />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        await chat!.switchBranch("user-1", 0);
+      });
+
+      expect(switchBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("model selection", () => {
+    function renderChat(projectId?: string) {
+      const chatResult = { ...mockUseAIChat, sendMessage: vi.fn() };
+      (useAIChat as any).mockReturnValue(chatResult);
+
+      let chat: ReturnType<typeof useChat> | undefined;
+      function Capture() {
+        chat = useChat();
+        return <TestComponent />;
+      }
+
+      render(
+        <ChatProvider projectId={projectId} model="anthropic:claude-haiku-4-5">
+          <Capture />
+        </ChatProvider>
+      );
+      return { chatResult, getChat: () => chat! };
+    }
+
+    function submit(content: string, getChat: () => ReturnType<typeof useChat>) {
+      act(() => {
+        getChat().handleInputChange({ target: { value: content } } as any);
+      });
+      act(() => {
+        screen.getByText("Submit").click();
+      });
+    }
+
+    test("sends the selected model and saves it to the project", async () => {
+      (setProjectModel as any).mockResolvedValue({});
+      const { chatResult, getChat } = renderChat("test-project");
+
+      expect(getChat().model).toBe("anthropic:claude-haiku-4-5");
+
+      await act(async () => {
+        await getChat().selectModel("openai-compatible:qwen2.5-coder");
+      });
+
+      expect(setProjectModel).toHaveBeenCalledWith(
+        "test-project",
+        "openai-compatible:qwen2.5-coder"
+      );
+
+      submit("Build a counter", getChat);
+
+      // The server's undo history starts empty on every request
+      expect(mockClearEditHistory).toHaveBeenCalledOnce();
+      expect(chatResult.sendMessage.mock.calls[0][1].body).toMatchObject({
+        projectId: "test-project",
+        model: "openai-compatible:qwen2.5-coder",
+      });
+    });
+
+    test("keeps the choice in anonymous chats without saving it", async () => {
+      const { chatResult, getChat } = renderChat();
+
+      await act(async () => {
+        await getChat().selectModel("anthropic:claude-sonnet-4-5");
+      });
+      submit("Build a counter", getChat);
+
+      expect(setProjectModel).not.toHaveBeenCalled();
+      expect(chatResult.sendMessage.mock.calls[0][1].body.model).toBe(
+        "anthropic:claude-sonnet-4-5"
+      );
+    });
+  });
+
+  describe("image attachments", () => {
+    const mockup = {
+      name: "mockup.png",
+      contentType: "image/png",
+      url: "data:image/png;base64,cG5n",
+    };
+
+    function renderChat(messages: unknown[] = []) {
+      const chatResult = { ...mockUseAIChat, messages, sendMessage: vi.fn() };
+      (useAIChat as any).mockReturnValue(chatResult);
+
+      let chat: ReturnType<typeof useChat> | undefined;
+      function Capture() {
+        chat = useChat();
+        return <TestComponent />;
+      }
+
+      render(
+        <ChatProvider projectId="test-project">
+          <Capture />
+        </ChatProvider>
+      );
+      return { chatResult, getChat: () => chat! };
+    }
+
+    test("sends attached images with the next message", async () => {
+      const { chatResult, getChat } = renderChat();
+
+      await act(async () => {
+        await getChat().addImages([
+          new File(["png"], "mockup.png", { type: "image/png" }),
+        ]);
+      });
+      expect(getChat().attachments).toEqual([mockup]);
+
+      act(() => {
+        getChat().handleInputChange({
+          target: { value: "Build this" },
+        } as any);
+      });
+      act(() => {
+        screen.getByText("Submit").click();
+      });
+
+      expect(chatResult.sendMessage.mock.calls[0][0]).toMatchObject({
+        role: "user",
+        content: "Build this",
+        experimental_attachments: [mockup],
+      });
+      expect(getChat().attachments).toEqual([]);
+    });
+
+    test("removes an attached image", async () => {
+      const { getChat } = renderChat();
+
+      await act(async () => {
+        await getChat().addImages([
+          new File(["png"], "mockup.png", { type: "image/png" }),
+          new File(["jpg"], "photo.jpg", { type: "image/jpeg" }),
+        ]);
+      });
+      act(() => {
+        getChat().removeAttachment(0);
+      });
+
+      expect(getChat().attachments.map((image) => image.name)).toEqual([
+        "photo.jpg",
+      ]);
+    });
+
+    test("keeps a message's images when it is edited", async () => {
+      (getMessageFiles as any).mockResolvedValue({});
+      const { chatResult, getChat } = renderChat([
+        {
+          id: "user-1",
+          role: "user",
+          content: "Build this",
+          experimental_attachments: [mockup],
+        },
+      ]);
+
+      await act(async () => {
+        await getChat().editMessage("user-1", "Build this in blue");
+      });
+
+      expect(chatResult.sendMessage.mock.calls[0][0]).toEqual({
+        role: "user",
+        content: "Build this in blue",
+        experimental_attachments: [mockup],
+        messageId: "user-1",
+      });
+    });
+  });
+
+  describe("auto-fix", () => {
+    const crashEntry = {
+      id: 1,
+      kind: "error",
+      level: "error",
+      message: "TypeError: items is undefined",
+      location: { file: "/App.jsx", line: 3, column: 10 },
+      timestamp: 0,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function renderWithStatus(status: string, sendMessage = vi.fn()) {
+      (useAIChat as any).mockReturnValue({
+        ...mockUseAIChat,
+        status,
+        sendMessage,
+      });
+      return render(
+        <ChatProvider projectId="test-project">
+          <TestComponent />
+        </ChatProvider>
+      );
+    }
+
+    function finishGeneration(rerender: (ui: React.ReactElement) => void) {
+      (useAIChat as any).mockReturnValue({
+        ...mockUseAIChat,
+        status: "ready",
+        sendMessage: (useAIChat as any).mock.results[0].value.sendMessage,
+      });
+      rerender(
+        <ChatProvider projectId="test-project">
+          <TestComponent />
+        </ChatProvider>
+      );
+      act(() => {
+        vi.advanceTimersByTime(AUTO_FIX_SETTLE_MS);
+      });
+    }
+
+    test("sends preview errors back after a generation when enabled", () => {
+      const sendMessage = vi.fn();
+      (usePreviewConsole as any).mockReturnValue({ entries: [crashEntry] });
+      const { rerender } = renderWithStatus("streaming", sendMessage);
+
+      act(() => {
+        screen.getByText("Enable auto-fix").click();
+      });
+      finishGeneration(rerender);
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      const [message, options] = sendMessage.mock.calls[0];
+      expect(message.content).toContain("TypeError: items is undefined");
+      expect(message.content).toContain("at /App.jsx:3:10");
+      expect(options.body.previewErrors).toEqual([
+        {
+          message: "TypeError: items is undefined",
+          stack: undefined,
+          location: { file: "/App.jsx", line: 3, column: 10 },
+        },
+      ]);
+    });
+
+    test("does nothing when auto-fix is disabled", () => {
+      const sendMessage = vi.fn();
+      (usePreviewConsole as any).mockReturnValue({ entries: [crashEntry] });
+      const { rerender } = renderWithStatus("streaming", sendMessage);
+
+      finishGeneration(rerender);
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    test("ignores console.error calls from the user's code", () => {
+      const sendMessage = vi.fn();
+      (usePreviewConsole as any).mockReturnValue({
+        entries: [{ ...crashEntry, kind: "console" }],
+      });
+      const { rerender } = renderWithStatus("streaming", sendMessage);
+
+      act(() => {
+        screen.getByText("Enable auto-fix").click();
+      });
+      finishGeneration(rerender);
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    test("stops after the maximum number of attempts", () => {
+      const sendMessage = vi.fn();
+      (usePreviewConsole as any).mockReturnValue({ entries: [crashEntry] });
+      const { rerender } = renderWithStatus("streaming", sendMessage);
+
+      act(() => {
+        screen.getByText("Enable auto-fix").click();
+      });
+
+      for (let i = 0; i < MAX_AUTO_FIX_ATTEMPTS + 2; i++) {
+        (useAIChat as any).mockReturnValue({
+          ...mockUseAIChat,
+          status: "streaming",
+          sendMessage,
+        });
+        rerender(
+          <ChatProvider projectId="test-project">
+            <TestComponent />
+          </ChatProvider>
+        );
+        finishGeneration(rerender);
+      }
+
+      expect(sendMessage).toHaveBeenCalledTimes(MAX_AUTO_FIX_ATTEMPTS);
+    });
+  });
 });
@@ -18,8 +18,14 @@ const mockFileSystem = {
   createFileWithParents: vi.fn(),
   replaceInFile: vi.fn(),
   insertInFile: vi.fn(),
+  undoEdit: vi.fn(),
+  multiEdit: vi.fn(),
+  applyPatch: vi.fn(),
+  exists: vi.fn(),
   getNode: vi.fn(),
   serialize: vi.fn(() => ({})),
+  clearHistory: vi.fn(),
+  withoutHistory: vi.fn((fn: () => unknown) => fn()),
 };
 
 beforeEach(() => {
@@ -164,6 +170,37 @@ test("renameFile returns false when operation fails", () => {
   expect(result.current.refreshTrigger).toBe(initialTrigger); // No refresh on failure
 });
 
+test("keeps the user's edits out of the undo history", () => {
+  mockFileSystem.rename.mockReturnValue(true);
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.updateFile("/test.js", "edited");
+    result.current.renameFile("/test.js", "/renamed.js");
+  });
+  expect(mockFileSystem.withoutHistory).toHaveBeenCalledTimes(2);
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "file_manager",
+      args: { command: "rename", path: "/renamed.js", new_path: "/final.js" },
+    });
+  });
+  expect(mockFileSystem.withoutHistory).toHaveBeenCalledTimes(2);
+  expect(mockFileSystem.rename).toHaveBeenLastCalledWith(
+    "/renamed.js",
+    "/final.js"
+  );
+
+  act(() => {
+    result.current.clearEditHistory();
+  });
+  expect(mockFileSystem.clearHistory).toHaveBeenCalled();
+});
+
 test("getFileContent calls fileSystem readFile", () => {
   mockFileSystem.readFile.mockReturnValue("file content");
 
@@ -325,7 +362,12 @@ test("handles str_replace_editor str_replace command", () => {
     });
   });
 
-  expect(mockFileSystem.replaceInFile).toHaveBeenCalledWith("/test.js", "old", "new");
+  expect(mockFileSystem.replaceInFile).toHaveBeenCalledWith(
+    "/test.js",
+    "old",
+    "new",
+    false
+  );
   expect(mockFileSystem.readFile).toHaveBeenCalledWith("/test.js");
   expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/test.js", "new content");
   expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
@@ -406,6 +448,159 @@ test("handles str_replace_editor insert command with error", () => {
   expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
 });
 
+test("handles str_replace_editor undo_edit command", () => {
+  mockFileSystem.undoEdit.mockReturnValue("Last edit to /test.js undone");
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: {
+        command: "undo_edit",
+        path: "/test.js",
+      },
+    });
+  });
+
+  expect(mockFileSystem.undoEdit).toHaveBeenCalledWith("/test.js");
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+});
+
+test("handles str_replace_editor undo_edit command with error", () => {
+  mockFileSystem.undoEdit.mockReturnValue(
+    "Error: No edit history found for /test.js"
+  );
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: {
+        command: "undo_edit",
+        path: "/test.js",
+      },
+    });
+  });
+
+  expect(result.current.refreshTrigger).toBe(initialTrigger);
+});
+
+test("handles str_replace_editor multi_edit command", () => {
+  const edits = [
+    { old_str: "a", new_str: "b" },
+    { old_str: "c", new_str: "d" },
+  ];
+  mockFileSystem.multiEdit.mockReturnValue("Applied 2 edit(s) to /test.js");
+  mockFileSystem.readFile.mockReturnValue("b d");
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "multi_edit", path: "/test.js", edits },
+    });
+  });
+
+  expect(mockFileSystem.multiEdit).toHaveBeenCalledWith("/test.js", edits);
+  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/test.js", "b d");
+});
+
+test("handles str_replace_editor apply_patch command", () => {
+  const patch = "--- /dev/null\n+++ /new.js\n@@ -0,0 +1 @@\n+x";
+  mockFileSystem.applyPatch.mockReturnValue("Patch applied:\nCreated /new.js");
+  mockFileSystem.exists.mockReturnValue(false);
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.setSelectedFile("/old.js");
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "apply_patch", path: "/", patch },
+    });
+  });
+
+  expect(mockFileSystem.applyPatch).toHaveBeenCalledWith(patch);
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+  // The selected file no longer exists after the patch
+  expect(result.current.selectedFile).toBe(null);
+});
+
+test("does not refresh when apply_patch fails", () => {
+  mockFileSystem.applyPatch.mockReturnValue(
+    "Error: Hunk 1 of 1 for /a.js failed"
+  );
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "apply_patch", path: "/", patch: "bad" },
+    });
+  });
+
+  expect(result.current.refreshTrigger).toBe(initialTrigger);
+});
+
+test("importFiles replaces existing files, creates new ones and reports failures", () => {
+  mockFileSystem.updateFile.mockImplementation((path: string) => path === "/App.jsx");
+  mockFileSystem.createFile.mockImplementation((path: string) =>
+    path === "/components/Card.jsx" ? { path } : null
+  );
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+  let failed: string[] = [];
+
+  act(() => {
+    failed = result.current.importFiles({
+      "/App.jsx": "app",
+      "/components/Card.jsx": "card",
+      "/components": "clash",
+    });
+  });
+
+  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/App.jsx", "app");
+  expect(mockFileSystem.createFile).toHaveBeenCalledWith(
+    "/components/Card.jsx",
+    "card"
+  );
+  expect(mockFileSystem.createFile).not.toHaveBeenCalledWith("/App.jsx", "app");
+  expect(failed).toEqual(["/components"]);
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+
+  mockFileSystem.updateFile.mockReset();
+  mockFileSystem.createFile.mockReset();
+});
+
 test("handles file_manager rename command", () => {
   mockFileSystem.rename.mockReturnValue(true);
 
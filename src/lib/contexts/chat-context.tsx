@@ -7,15 +7,53 @@ import {
   useEffect,
   useState,
   useCallback,
+  useRef,
 } from "react";
 import { useChat as useAIChat } from "@ai-sdk/react";
-import { Message } from "ai";
+import { Message, generateId } from "ai";
+import type { FileNode } from "@/lib/file-system";
 import { useFileSystem } from "./file-system-context";
+import { usePreviewConsole } from "./preview-console-context";
 import { setHasAnonWork } from "@/lib/anon-work-tracker";
+import { getProjectMessages } from "@/actions/get-project-messages";
+import { getMessageFiles } from "@/actions/get-message-files";
+import { switchBranch as switchProjectBranch } from "@/actions/switch-branch";
+import { setProjectModel } from "@/actions/set-project-model";
+import type { BranchInfo } from "@/lib/chat-messages";
+import {
+  getImageAttachments,
+  MAX_IMAGES_PER_MESSAGE,
+  readImageFile,
+  type ImageAttachment,
+} from "@/lib/image-attachments";
+import {
+  formatPreviewError,
+  getPreviewErrors,
+  type PreviewError,
+} from "@/lib/transform/preview-bridge";
+
+// Automatic follow-ups allowed before the user has to step in again
+export const MAX_AUTO_FIX_ATTEMPTS = 3;
+
+// How long the preview gets to reload and crash after a generation
+export const AUTO_FIX_SETTLE_MS = 1500;
+
+export function buildAutoFixPrompt(errors: PreviewError[]): string {
+  return [
+    "The preview crashed after your last change. Fix the following errors:",
+    ...errors.map((error) => formatPreviewError(error)),
+  ].join("\n\n");
+}
 
 interface ChatContextProps {
   projectId?: string;
   initialMessages?: Message[];
+  // Stored messages older than initialMessages, loaded on request
+  olderMessageCount?: number;
+  // User messages with other versions, by message id
+  branches?: Record<string, BranchInfo>;
+  // Registry id of the model to start with; the server's default if unset
+  model?: string;
 }
 
 interface ChatContextType {
@@ -23,7 +61,29 @@ interface ChatContextType {
   input: string;
   handleInputChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: React.FormEvent<HTMLFormElement>) => void;
+  // Images to send with the next message
+  attachments: ImageAttachment[];
+  addImages: (files: File[]) => Promise<void>;
+  removeAttachment: (index: number) => void;
   status: string;
+  // Why the last request failed, such as a used-up token quota
+  error?: Error;
+  autoFix: boolean;
+  setAutoFix: (enabled: boolean) => void;
+  hasOlderMessages: boolean;
+  isLoadingOlderMessages: boolean;
+  loadOlderMessages: () => Promise<void>;
+  stop: () => void;
+  // Both roll the files back to how they were when the message was sent.
+  // In a saved project they start a new branch and keep the old one
+  regenerate: () => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  branches: Record<string, BranchInfo>;
+  isSwitchingBranch: boolean;
+  switchBranch: (messageId: string, index: number) => Promise<void>;
+  // Model the next request is sent to, remembered by saved projects
+  model?: string;
+  selectModel: (model: string) => Promise<void>;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -32,11 +92,30 @@ export function ChatProvider({
   children,
   projectId,
   initialMessages = [],
+  olderMessageCount: initialOlderMessageCount = 0,
+  branches: initialBranches = {},
+  model: initialModel,
 }: ChatContextProps & { children: ReactNode }) {
-  const { fileSystem, handleToolCall } = useFileSystem();
+  const { fileSystem, handleToolCall, restoreFiles, clearEditHistory } =
+    useFileSystem();
+  const { entries } = usePreviewConsole();
 
   // Manage input state locally (AI SDK v5+ no longer manages this)
   const [input, setInput] = useState("");
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [model, setModel] = useState(initialModel);
+  const [autoFix, setAutoFix] = useState(false);
+  const [autoFixCheckPending, setAutoFixCheckPending] = useState(false);
+  const autoFixAttemptsRef = useRef(0);
+  const previousStatusRef = useRef<string | undefined>(undefined);
+
+  // Read through a ref so the settle timer sees the errors from the reload
+  const previewErrorsRef = useRef<PreviewError[]>([]);
+  previewErrorsRef.current = getPreviewErrors(entries);
+
+  // Files as they were before each message sent in this session, by message
+  // id; messages loaded from the server fall back to the stored versions
+  const fileSnapshotsRef = useRef(new Map<string, Record<string, FileNode>>());
 
   const chatResult = useAIChat({
     api: "/api/chat",
@@ -44,13 +123,143 @@ export function ChatProvider({
     body: {
       files: fileSystem.serialize(),
       projectId,
+      model,
     },
     onToolCall: ({ toolCall }) => {
       handleToolCall(toolCall);
     },
   });
 
-  const { messages, status, sendMessage } = chatResult;
+  const {
+    messages,
+    status,
+    error,
+    sendMessage,
+    setMessages,
+    stop,
+    regenerate: regenerateResponse,
+  } = chatResult;
+
+  const sendUserMessage = useCallback(
+    (
+      content: string,
+      previewErrors: PreviewError[],
+      images: ImageAttachment[] = []
+    ) => {
+      const id = generateId();
+      fileSnapshotsRef.current.set(id, fileSystem.serialize());
+      clearEditHistory();
+      sendMessage(
+        {
+          id,
+          role: "user",
+          content,
+          ...(images.length > 0 && { experimental_attachments: images }),
+        },
+        {
+          body: {
+            files: fileSystem.serialize(),
+            projectId,
+            model,
+            previewErrors,
+          },
+        }
+      );
+    },
+    [sendMessage, fileSystem, projectId, model, clearEditHistory]
+  );
+
+  const rollBackFiles = useCallback(
+    async (messageId: string) => {
+      let snapshot = fileSnapshotsRef.current.get(messageId);
+      if (!snapshot && projectId) {
+        snapshot = await getMessageFiles(projectId, messageId);
+      }
+      if (snapshot) {
+        restoreFiles(snapshot);
+      }
+    },
+    [projectId, restoreFiles]
+  );
+
+  const [olderMessageCount, setOlderMessageCount] = useState(
+    initialOlderMessageCount
+  );
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  const [branches, setBranches] = useState(initialBranches);
+  const [isSwitchingBranch, setIsSwitchingBranch] = useState(false);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!projectId || olderMessageCount === 0 || isLoadingOlderMessages) {
+      return;
+    }
+
+    setIsLoadingOlderMessages(true);
+    try {
+      const older = await getProjectMessages(projectId, {
+        before: olderMessageCount,
+      });
+      setMessages((current: Message[]) => [...older.messages, ...current]);
+      setOlderMessageCount(older.olderMessageCount);
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  }, [projectId, olderMessageCount, isLoadingOlderMessages, setMessages]);
+
+  // The server stores the resent message beside the original as its newest
+  // version; anonymous chats have no stored history to branch
+  const addBranch = useCallback(
+    (messageId: string) => {
+      if (!projectId) return;
+      setBranches((current) => {
+        const count = (current[messageId]?.count ?? 1) + 1;
+        return { ...current, [messageId]: { index: count - 1, count } };
+      });
+    },
+    [projectId]
+  );
+
+  const switchBranch = useCallback(
+    async (messageId: string, index: number) => {
+      if (!projectId || isSwitchingBranch) return;
+
+      setIsSwitchingBranch(true);
+      try {
+        const result = await switchProjectBranch(
+          projectId,
+          messageId,
+          index,
+          fileSystem.serialize()
+        );
+        restoreFiles(result.data);
+        setMessages(result.messages);
+        setOlderMessageCount(result.olderMessageCount);
+        setBranches(result.branches);
+      } catch (error) {
+        console.error("Failed to switch branch:", error);
+      } finally {
+        setIsSwitchingBranch(false);
+      }
+    },
+    [projectId, isSwitchingBranch, fileSystem, restoreFiles, setMessages]
+  );
+
+  // The choice applies to the next request right away, even if saving it fails
+  const selectModel = useCallback(
+    async (nextModel: string) => {
+      setModel(nextModel);
+      if (!projectId) return;
+
+      try {
+        await setProjectModel(projectId, nextModel);
+      } catch (error) {
+        console.error("Failed to save model:", error);
+      }
+    },
+    [projectId]
+  );
 
   // Handle input changes
   const handleInputChange = useCallback(
@@ -60,29 +269,164 @@ export function ChatProvider({
     []
   );
 
+  // Files are checked by the input before they get here
+  const addImages = useCallback(async (files: File[]) => {
+    try {
+      const images = await Promise.all(files.map(readImageFile));
+      setAttachments((current) =>
+        [...current, ...images].slice(0, MAX_IMAGES_PER_MESSAGE)
+      );
+    } catch (error) {
+      console.error("Failed to read image:", error);
+    }
+  }, []);
+
+  const removeAttachment = useCallback((index: number) => {
+    setAttachments((current) => current.filter((_, i) => i !== index));
+  }, []);
+
   // Handle form submission
   const handleSubmit = useCallback(
     (e: React.FormEvent<HTMLFormElement>) => {
       e.preventDefault();
       if (!input.trim()) return;
 
+      // A message from the user starts a fresh auto-fix budget
+      autoFixAttemptsRef.current = 0;
+      sendUserMessage(input.trim(), previewErrorsRef.current, attachments);
+      setInput("");
+      setAttachments([]);
+    },
+    [input, attachments, sendUserMessage]
+  );
+
+  // Resends a user message with new text and the same images, dropping the
+  // messages after it from the chat. The preview errors belong to the files
+  // before the rollback, so none are sent
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      if (!content.trim()) return;
+
+      const original: Message | undefined = messages.find(
+        (message: Message) => message.id === messageId
+      );
+      const images = original ? getImageAttachments(original) : [];
+
+      try {
+        await rollBackFiles(messageId);
+      } catch (error) {
+        console.error("Failed to roll back files:", error);
+        return;
+      }
+
+      autoFixAttemptsRef.current = 0;
+      clearEditHistory();
       sendMessage(
         {
           role: "user",
-          content: input.trim(),
+          content: content.trim(),
+          ...(images.length > 0 && { experimental_attachments: images }),
+          messageId,
         },
         {
           body: {
             files: fileSystem.serialize(),
             projectId,
+            model,
+            previewErrors: [],
+            branchFrom: messageId,
           },
         }
       );
-      setInput("");
+      addBranch(messageId);
     },
-    [input, sendMessage, fileSystem, projectId]
+    [
+      messages,
+      rollBackFiles,
+      sendMessage,
+      fileSystem,
+      projectId,
+      model,
+      addBranch,
+      clearEditHistory,
+    ]
   );
 
+  // Answers the last user message again, from the files it was sent with
+  const regenerate = useCallback(async () => {
+    const lastUserMessage = [...messages]
+      .reverse()
+      .find((message: Message) => message.role === "user");
+    if (!lastUserMessage) return;
+
+    try {
+      await rollBackFiles(lastUserMessage.id);
+    } catch (error) {
+      console.error("Failed to roll back files:", error);
+      return;
+    }
+
+    autoFixAttemptsRef.current = 0;
+    clearEditHistory();
+    regenerateResponse({
+      body: {
+        files: fileSystem.serialize(),
+        projectId,
+        model,
+        previewErrors: [],
+        branchFrom: lastUserMessage.id,
+      },
+    });
+    addBranch(lastUserMessage.id);
+  }, [
+    messages,
+    rollBackFiles,
+    regenerateResponse,
+    fileSystem,
+    projectId,
+    model,
+    addBranch,
+    clearEditHistory,
+  ]);
+
+  // When a generation finishes and the preview then crashes, send the errors
+  // back as a follow-up turn
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
+    if (previousStatus === status) return;
+
+    setAutoFixCheckPending(
+      (previousStatus === "submitted" || previousStatus === "streaming") &&
+        status === "ready"
+    );
+  }, [status]);
+
+  useEffect(() => {
+    if (!autoFixCheckPending) return;
+    if (!autoFix) {
+      setAutoFixCheckPending(false);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      setAutoFixCheckPending(false);
+
+      const errors = previewErrorsRef.current;
+      if (
+        errors.length === 0 ||
+        autoFixAttemptsRef.current >= MAX_AUTO_FIX_ATTEMPTS
+      ) {
+        return;
+      }
+
+      autoFixAttemptsRef.current++;
+      sendUserMessage(buildAutoFixPrompt(errors), errors);
+    }, AUTO_FIX_SETTLE_MS);
+
+    return () => clearTimeout(timer);
+  }, [autoFixCheckPending, autoFix, sendUserMessage]);
+
   // Track anonymous work
   useEffect(() => {
     if (!projectId && messages.length > 0) {
@@ -97,7 +441,24 @@ export function ChatProvider({
         input,
         handleInputChange,
         handleSubmit,
+        attachments,
+        addImages,
+        removeAttachment,
         status,
+        error,
+        autoFix,
+        setAutoFix,
+        hasOlderMessages: olderMessageCount > 0,
+        isLoadingOlderMessages,
+        loadOlderMessages,
+        stop,
+        regenerate,
+        editMessage,
+        branches,
+        isSwitchingBranch,
+        switchBranch,
+        model,
+        selectModel,
       }}
     >
       {children}
@@ -8,6 +8,7 @@ import React, {
   useEffect,
 } from "react";
 import { VirtualFileSystem, FileNode } from "@/lib/file-system";
+import type { SourceLocation } from "@/lib/transform/preview-bridge";
 
 interface ToolCall {
   toolName: string;
@@ -18,6 +19,9 @@ interface FileSystemContextType {
   fileSystem: VirtualFileSystem;
   selectedFile: string | null;
   setSelectedFile: (path: string | null) => void;
+  // Position the code editor should reveal in the selected file
+  editorLocation: SourceLocation | null;
+  openFileAt: (location: SourceLocation) => void;
   createFile: (path: string, content?: string) => void;
   updateFile: (path: string, content: string) => void;
   deleteFile: (path: string) => void;
@@ -27,6 +31,12 @@ interface FileSystemContextType {
   refreshTrigger: number;
   handleToolCall: (toolCall: ToolCall) => void;
   reset: () => void;
+  restoreFiles: (data: Record<string, FileNode>) => void;
+  // Writes each file, replacing existing ones; returns the paths that failed
+  importFiles: (files: Record<string, string>) => string[];
+  // Called as each chat request starts. The server rebuilds its file system
+  // for every request, so undo_edit must only reach this turn's tool edits
+  clearEditHistory: () => void;
 }
 
 const FileSystemContext = createContext<FileSystemContextType | undefined>(
@@ -50,6 +60,9 @@ export function FileSystemProvider({
     return fs;
   });
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [editorLocation, setEditorLocation] = useState<SourceLocation | null>(
+    null
+  );
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   const triggerRefresh = useCallback(() => {
@@ -79,9 +92,11 @@ export function FileSystemProvider({
     }
   }, [selectedFile, fileSystem, refreshTrigger]);
 
+  // The user's own edits stay out of the undo history, which only the
+  // model's tool edits use
   const createFile = useCallback(
     (path: string, content: string = "") => {
-      fileSystem.createFile(path, content);
+      fileSystem.withoutHistory(() => fileSystem.createFile(path, content));
       triggerRefresh();
     },
     [fileSystem, triggerRefresh]
@@ -89,7 +104,7 @@ export function FileSystemProvider({
 
   const updateFile = useCallback(
     (path: string, content: string) => {
-      fileSystem.updateFile(path, content);
+      fileSystem.withoutHistory(() => fileSystem.updateFile(path, content));
       triggerRefresh();
     },
     [fileSystem, triggerRefresh]
@@ -97,7 +112,7 @@ export function FileSystemProvider({
 
   const deleteFile = useCallback(
     (path: string) => {
-      fileSystem.deleteFile(path);
+      fileSystem.withoutHistory(() => fileSystem.deleteFile(path));
       if (selectedFile === path) {
         setSelectedFile(null);
       }
@@ -106,23 +121,32 @@ export function FileSystemProvider({
     [fileSystem, selectedFile, triggerRefresh]
   );
 
+  const followRename = useCallback(
+    (oldPath: string, newPath: string) => {
+      // Update selected file if it was renamed
+      if (selectedFile === oldPath) {
+        setSelectedFile(newPath);
+      } else if (selectedFile && selectedFile.startsWith(oldPath + "/")) {
+        // Update selected file if it's inside a renamed directory
+        const relativePath = selectedFile.substring(oldPath.length);
+        setSelectedFile(newPath + relativePath);
+      }
+      triggerRefresh();
+    },
+    [selectedFile, triggerRefresh]
+  );
+
   const renameFile = useCallback(
     (oldPath: string, newPath: string): boolean => {
-      const success = fileSystem.rename(oldPath, newPath);
+      const success = fileSystem.withoutHistory(() =>
+        fileSystem.rename(oldPath, newPath)
+      );
       if (success) {
-        // Update selected file if it was renamed
-        if (selectedFile === oldPath) {
-          setSelectedFile(newPath);
-        } else if (selectedFile && selectedFile.startsWith(oldPath + "/")) {
-          // Update selected file if it's inside a renamed directory
-          const relativePath = selectedFile.substring(oldPath.length);
-          setSelectedFile(newPath + relativePath);
-        }
-        triggerRefresh();
+        followRename(oldPath, newPath);
       }
       return success;
     },
-    [fileSystem, selectedFile, triggerRefresh]
+    [fileSystem, followRename]
   );
 
   const getFileContent = useCallback(
@@ -142,13 +166,53 @@ export function FileSystemProvider({
     triggerRefresh();
   }, [fileSystem, triggerRefresh]);
 
+  const restoreFiles = useCallback(
+    (data: Record<string, FileNode>) => {
+      fileSystem.deserializeFromNodes(data);
+      setSelectedFile(null);
+      triggerRefresh();
+    },
+    [fileSystem, triggerRefresh]
+  );
+
+  const importFiles = useCallback(
+    (files: Record<string, string>) => {
+      const failed = fileSystem.withoutHistory(() =>
+        Object.entries(files)
+          .filter(
+            ([path, content]) =>
+              !fileSystem.updateFile(path, content) &&
+              !fileSystem.createFile(path, content)
+          )
+          .map(([path]) => path)
+      );
+      triggerRefresh();
+      return failed;
+    },
+    [fileSystem, triggerRefresh]
+  );
+
+  const clearEditHistory = useCallback(() => {
+    fileSystem.clearHistory();
+  }, [fileSystem]);
+
   const handleToolCall = useCallback(
     (toolCall: ToolCall) => {
       const { toolName, args } = toolCall;
 
       // Handle str_replace_editor tool
       if (toolName === "str_replace_editor" && args) {
-        const { command, path, file_text, old_str, new_str, insert_line } = args;
+        const {
+          command,
+          path,
+          file_text,
+          old_str,
+          new_str,
+          replace_all,
+          insert_line,
+          edits,
+          patch,
+        } = args;
 
         switch (command) {
           case "create":
@@ -162,7 +226,12 @@ export function FileSystemProvider({
 
           case "str_replace":
             if (path && old_str !== undefined && new_str !== undefined) {
-              const result = fileSystem.replaceInFile(path, old_str, new_str);
+              const result = fileSystem.replaceInFile(
+                path,
+                old_str,
+                new_str,
+                replace_all === true
+              );
               if (!result.startsWith("Error:")) {
                 const content = fileSystem.readFile(path);
                 if (content !== null) {
@@ -183,6 +252,44 @@ export function FileSystemProvider({
               }
             }
             break;
+
+          case "multi_edit":
+            if (path && edits) {
+              const result = fileSystem.multiEdit(path, edits);
+              if (!result.startsWith("Error:")) {
+                const content = fileSystem.readFile(path);
+                if (content !== null) {
+                  updateFile(path, content);
+                }
+              }
+            }
+            break;
+
+          case "apply_patch":
+            if (patch) {
+              const result = fileSystem.applyPatch(patch);
+              if (!result.startsWith("Error:")) {
+                // The patch may have deleted or renamed the selected file
+                if (selectedFile && !fileSystem.exists(selectedFile)) {
+                  setSelectedFile(null);
+                }
+                triggerRefresh();
+              }
+            }
+            break;
+
+          case "undo_edit":
+            if (path) {
+              const result = fileSystem.undoEdit(path);
+              if (!result.startsWith("Error:")) {
+                // Undo may have removed or moved the selected file
+                if (selectedFile && !fileSystem.exists(selectedFile)) {
+                  setSelectedFile(null);
+                }
+                triggerRefresh();
+              }
+            }
+            break;
         }
       }
 
@@ -192,8 +299,8 @@ export function FileSystemProvider({
 
         switch (command) {
           case "rename":
-            if (path && new_path) {
-              renameFile(path, new_path);
+            if (path && new_path && fileSystem.rename(path, new_path)) {
+              followRename(path, new_path);
             }
             break;
 
@@ -208,7 +315,25 @@ export function FileSystemProvider({
         }
       }
     },
-    [fileSystem, createFile, updateFile, deleteFile, renameFile]
+    [
+      fileSystem,
+      selectedFile,
+      createFile,
+      updateFile,
+      deleteFile,
+      followRename,
+      triggerRefresh,
+    ]
+  );
+
+  const openFileAt = useCallback(
+    (location: SourceLocation) => {
+      if (!fileSystem.exists(location.file)) return;
+      setSelectedFile(location.file);
+      // A fresh object so opening the same spot again still reveals it
+      setEditorLocation({ ...location });
+    },
+    [fileSystem]
   );
 
   return (
@@ -217,6 +342,8 @@ export function FileSystemProvider({
         fileSystem,
         selectedFile,
         setSelectedFile,
+        editorLocation,
+        openFileAt,
         createFile,
         updateFile,
         deleteFile,
@@ -226,6 +353,9 @@ export function FileSystemProvider({
         refreshTrigger,
         handleToolCall,
         reset,
+        restoreFiles,
+        clearEditHistory,
+        importFiles,
       }}
     >
       {children}
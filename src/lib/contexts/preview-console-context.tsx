@@ -0,0 +1,58 @@
+"use client";
+
+import React, { createContext, useContext, useState, useCallback } from "react";
+import type { PreviewLogEntry } from "@/lib/transform/preview-bridge";
+
+// Oldest entries are dropped past this so a logging loop can't grow memory
+const MAX_ENTRIES = 500;
+
+interface PreviewConsoleContextType {
+  entries: PreviewLogEntry[];
+  addEntry: (entry: Omit<PreviewLogEntry, "id" | "timestamp">) => void;
+  clear: () => void;
+}
+
+const PreviewConsoleContext = createContext<
+  PreviewConsoleContextType | undefined
+>(undefined);
+
+let nextEntryId = 0;
+
+export function PreviewConsoleProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [entries, setEntries] = useState<PreviewLogEntry[]>([]);
+
+  const addEntry = useCallback(
+    (entry: Omit<PreviewLogEntry, "id" | "timestamp">) => {
+      setEntries((prev) =>
+        [...prev, { ...entry, id: nextEntryId++, timestamp: Date.now() }].slice(
+          -MAX_ENTRIES
+        )
+      );
+    },
+    []
+  );
+
+  const clear = useCallback(() => {
+    setEntries([]);
+  }, []);
+
+  return (
+    <PreviewConsoleContext.Provider value={{ entries, addEntry, clear }}>
+      {children}
+    </PreviewConsoleContext.Provider>
+  );
+}
+
+export function usePreviewConsole() {
+  const context = useContext(PreviewConsoleContext);
+  if (!context) {
+    throw new Error(
+      "usePreviewConsole must be used within a PreviewConsoleProvider"
+    );
+  }
+  return context;
+}
@@ -1,3 +1,11 @@
+import { applyHunks, parseUnifiedDiff, type FilePatch } from "./unified-diff";
+import { globToRegExp } from "./glob";
+import {
+  findClosestMatches,
+  findMatchLines,
+  formatClosestMatches,
+} from "./match-diagnostics";
+
 export interface FileNode {
   type: "file" | "directory";
   name: string;
@@ -6,9 +14,42 @@ export interface FileNode {
   children?: Map<string, FileNode>;
 }
 
+export type EditHistoryEntry =
+  // Content before the edit, or null when the edit created the file. A
+  // create also lists the parent directories it made, which undo removes
+  | { type: "content"; content: string | null; directories?: string[] }
+  // The edit moved this path here from another location
+  | { type: "rename"; from: string }
+  // The edit deleted this directory together with its contents
+  | { type: "delete-directory"; directories: string[]; files: Record<string, string> };
+
+export const MAX_EDIT_HISTORY = 20;
+
+export interface SearchLine {
+  line: number;
+  text: string;
+  isMatch: boolean;
+}
+
+export interface FileSearchResult {
+  path: string;
+  matchCount: number;
+  // Matching lines and their context, in file order
+  lines: SearchLine[];
+}
+
+export interface SearchResults {
+  files: FileSearchResult[];
+  matchCount: number;
+  // Stopped early because maxResults was reached
+  truncated: boolean;
+}
+
 export class VirtualFileSystem {
   private files: Map<string, FileNode> = new Map();
   private root: FileNode;
+  private history: Map<string, EditHistoryEntry[]> = new Map();
+  private historyPaused = false;
 
   constructor() {
     this.root = {
@@ -54,6 +95,42 @@ export class VirtualFileSystem {
     return this.files.get(parentPath) || null;
   }
 
+  private recordHistory(path: string, entry: EditHistoryEntry): void {
+    if (this.historyPaused) return;
+
+    const entries = this.history.get(path) || [];
+    entries.push(entry);
+    if (entries.length > MAX_EDIT_HISTORY) {
+      entries.shift();
+    }
+    this.history.set(path, entries);
+  }
+
+  // Runs edits that undo_edit shouldn't see, such as the user's own
+  withoutHistory<T>(fn: () => T): T {
+    const wasPaused = this.historyPaused;
+    this.historyPaused = true;
+    try {
+      return fn();
+    } finally {
+      this.historyPaused = wasPaused;
+    }
+  }
+
+  // Forgets every edit, so undo only reaches edits made after this
+  clearHistory(): void {
+    this.history.clear();
+  }
+
+  private moveHistory(oldPath: string, newPath: string): void {
+    for (const [path, entries] of Array.from(this.history)) {
+      if (path === oldPath || path.startsWith(oldPath + "/")) {
+        this.history.delete(path);
+        this.history.set(newPath + path.substring(oldPath.length), entries);
+      }
+    }
+  }
+
   createFile(path: string, content: string = ""): FileNode | null {
     const normalized = this.normalizePath(path);
 
@@ -64,12 +141,13 @@ export class VirtualFileSystem {
 
     // Create parent directories if they don't exist
     const parts = normalized.split("/").filter(Boolean);
+    const directories: string[] = [];
     let currentPath = "";
 
     for (let i = 0; i < parts.length - 1; i++) {
       currentPath += "/" + parts[i];
-      if (!this.exists(currentPath)) {
-        this.createDirectory(currentPath);
+      if (!this.exists(currentPath) && this.createDirectory(currentPath)) {
+        directories.push(currentPath);
       }
     }
 
@@ -88,6 +166,11 @@ export class VirtualFileSystem {
 
     this.files.set(normalized, file);
     parent.children!.set(fileName, file);
+    this.recordHistory(normalized, {
+      type: "content",
+      content: null,
+      ...(directories.length > 0 && { directories }),
+    });
 
     return file;
   }
@@ -138,6 +221,13 @@ export class VirtualFileSystem {
       return false;
     }
 
+    if (file.content !== content) {
+      this.recordHistory(normalized, {
+        type: "content",
+        content: file.content || "",
+      });
+    }
+
     file.content = content;
     return true;
   }
@@ -155,19 +245,47 @@ export class VirtualFileSystem {
       return false;
     }
 
-    // If it's a directory, remove all children recursively
-    if (file.type === "directory" && file.children) {
-      for (const [_, child] of file.children) {
-        this.deleteFile(child.path);
+    if (file.type === "file") {
+      this.recordHistory(normalized, {
+        type: "content",
+        content: file.content || "",
+      });
+    } else {
+      const directories: string[] = [normalized];
+      const files: Record<string, string> = {};
+      for (const [path, node] of this.files) {
+        if (path.startsWith(normalized + "/")) {
+          if (node.type === "directory") {
+            directories.push(path);
+          } else {
+            files[path] = node.content || "";
+          }
+        }
       }
+      this.recordHistory(normalized, {
+        type: "delete-directory",
+        directories,
+        files,
+      });
     }
 
-    parent.children!.delete(file.name);
-    this.files.delete(normalized);
+    this.removeNode(file, parent);
 
     return true;
   }
 
+  private removeNode(node: FileNode, parent: FileNode): void {
+    // If it's a directory, remove all children recursively
+    if (node.type === "directory" && node.children) {
+      for (const [_, child] of node.children) {
+        this.removeNode(child, node);
+      }
+    }
+
+    parent.children!.delete(node.name);
+    this.files.delete(node.path);
+  }
+
   rename(oldPath: string, newPath: string): boolean {
     const normalizedOld = this.normalizePath(oldPath);
     const normalizedNew = this.normalizePath(newPath);
@@ -234,6 +352,10 @@ export class VirtualFileSystem {
       this.updateChildrenPaths(sourceNode);
     }
 
+    // Edit history follows the node to its new location
+    this.moveHistory(normalizedOld, normalizedNew);
+    this.recordHistory(normalizedNew, { type: "rename", from: normalizedOld });
+
     return true;
   }
 
@@ -336,6 +458,8 @@ export class VirtualFileSystem {
       // Create the file
       this.createFile(path, data[path]);
     }
+
+    this.history.clear();
   }
 
   deserializeFromNodes(data: Record<string, FileNode>): void {
@@ -369,6 +493,66 @@ export class VirtualFileSystem {
         this.createDirectory(path);
       }
     }
+    this.history.clear();
+  }
+
+  findFiles(glob: string = "**/*"): string[] {
+    const pattern = globToRegExp(glob);
+    return Array.from(this.getAllFiles().keys())
+      .filter((path) => pattern.test(path))
+      .sort();
+  }
+
+  searchFiles(
+    pattern: RegExp,
+    options: { glob?: string; contextLines?: number; maxResults?: number } = {}
+  ): SearchResults {
+    const { glob, contextLines = 0, maxResults = Infinity } = options;
+    // Without the global flag test() doesn't carry lastIndex between lines
+    const matcher = new RegExp(pattern.source, pattern.flags.replace("g", ""));
+    const files: FileSearchResult[] = [];
+    let matchCount = 0;
+    let truncated = false;
+
+    for (const path of this.findFiles(glob)) {
+      const lines = (this.readFile(path) || "").split("\n");
+      const matchIndexes: number[] = [];
+
+      for (let i = 0; i < lines.length; i++) {
+        if (matcher.test(lines[i])) {
+          if (matchCount === maxResults) {
+            truncated = true;
+            break;
+          }
+          matchIndexes.push(i);
+          matchCount++;
+        }
+      }
+
+      if (matchIndexes.length > 0) {
+        const shown = new Set<number>();
+        for (const index of matchIndexes) {
+          const start = Math.max(0, index - contextLines);
+          const end = Math.min(lines.length - 1, index + contextLines);
+          for (let i = start; i <= end; i++) {
+            shown.add(i);
+          }
+        }
+
+        const matched = new Set(matchIndexes);
+        files.push({
+          path,
+          matchCount: matchIndexes.length,
+          lines: Array.from(shown)
+            .sort((a, b) => a - b)
+            .map((i) => ({ line: i + 1, text: lines[i], isMatch: matched.has(i) })),
+        });
+      }
+
+      if (truncated) break;
+    }
+
+    return { files, matchCount, truncated };
   }
 
   // Text editor command implementations
@@ -424,23 +608,78 @@ export class VirtualFileSystem {
       return `Error: File already exists: ${path}`;
     }
 
-    // Create parent directories if they don't exist
-    const parts = path.split("/").filter(Boolean);
-    let currentPath = "";
+    // Creates the parent directories too, so undo can remove them again
+    this.createFile(path, content);
+    return `File created: ${path}`;
+  }
 
-    for (let i = 0; i < parts.length - 1; i++) {
-      currentPath += "/" + parts[i];
-      if (!this.exists(currentPath)) {
-        this.createDirectory(currentPath);
-      }
+  // Shared by replaceInFile and multiEdit so both follow the same rules:
+  // old_str must match exactly once unless replaceAll is set
+  private replaceString(
+    content: string,
+    oldStr: string,
+    newStr: string,
+    replaceAll = false
+  ): { content: string; occurrences: number } | { error: string } {
+    const matchLines = findMatchLines(content, oldStr);
+
+    if (matchLines.length === 0) {
+      const candidates = findClosestMatches(content, oldStr);
+      return {
+        error:
+          `String not found in file: "${oldStr}"` +
+          (candidates.length > 0
+            ? `\nClosest matches:\n${formatClosestMatches(candidates, oldStr)}`
+            : ""),
+      };
+    }
+
+    if (matchLines.length > 1 && !replaceAll) {
+      return {
+        error: `Found ${matchLines.length} matches of the string at lines ${matchLines.join(", ")}. Include more surrounding context to make it unique, or set replace_all to replace every occurrence`,
+      };
+    }
+
+    return {
+      content: content.split(oldStr).join(newStr || ""),
+      occurrences: matchLines.length,
+    };
+  }
+
+  replaceInFile(
+    path: string,
+    oldStr: string,
+    newStr: string,
+    replaceAll = false
+  ): string {
+    const file = this.getNode(path);
+    if (!file) {
+      return `Error: File not found: ${path}`;
     }
 
-    // Create the file
-    this.createFile(path, content);
-    return `File created: ${path}`;
+    if (file.type !== "file") {
+      return `Error: Cannot edit a directory: ${path}`;
+    }
+
+    const result = this.replaceString(
+      this.readFile(path) || "",
+      oldStr,
+      newStr,
+      replaceAll
+    );
+    if ("error" in result) {
+      return `Error: ${result.error}`;
+    }
+
+    this.updateFile(path, result.content);
+
+    return `Replaced ${result.occurrences} occurrence(s) of the string in ${path}`;
   }
 
-  replaceInFile(path: string, oldStr: string, newStr: string): string {
+  multiEdit(
+    path: string,
+    edits: Array<{ old_str: string; new_str: string; replace_all?: boolean }>
+  ): string {
     const file = this.getNode(path);
     if (!file) {
       return `Error: File not found: ${path}`;
@@ -450,25 +689,103 @@ export class VirtualFileSystem {
       return `Error: Cannot edit a directory: ${path}`;
     }
 
-    const content = this.readFile(path) || "";
+    if (edits.length === 0) {
+      return "Error: No edits provided";
+    }
 
-    // Check if old_str exists in the file
-    if (!oldStr || !content.includes(oldStr)) {
-      return `Error: String not found in file: "${oldStr}"`;
+    // Each edit sees the result of the previous ones; nothing is written
+    // unless all of them apply
+    let content = this.readFile(path) || "";
+    for (let i = 0; i < edits.length; i++) {
+      const result = this.replaceString(
+        content,
+        edits[i].old_str,
+        edits[i].new_str,
+        edits[i].replace_all
+      );
+      if ("error" in result) {
+        return `Error: Edit ${i + 1} of ${edits.length} failed: ${result.error}. No edits were applied to ${path}`;
+      }
+      content = result.content;
     }
 
-    // Count occurrences
-    const occurrences = (
-      content.match(
-        new RegExp(oldStr.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "g")
-      ) || []
-    ).length;
+    this.updateFile(path, content);
 
-    // Replace all occurrences
-    const updatedContent = content.split(oldStr).join(newStr || "");
-    this.updateFile(path, updatedContent);
+    return `Applied ${edits.length} edit(s) to ${path}`;
+  }
+
+  applyPatch(patch: string): string {
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parseUnifiedDiff(patch);
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : "Invalid patch"}`;
+    }
 
-    return `Replaced ${occurrences} occurrence(s) of the string in ${path}`;
+    if (filePatches.length === 0) {
+      return "Error: Patch contains no file changes";
+    }
+
+    // Work out every file's new content before touching any of them, so a
+    // failing hunk leaves the whole file system as it was
+    const staged = new Map<string, string | null>();
+    const readStaged = (path: string): string | null => {
+      if (staged.has(path)) {
+        return staged.get(path)!;
+      }
+      const node = this.getNode(path);
+      return node?.type === "file" ? node.content || "" : null;
+    };
+    const changes: Array<{ from: string | null; to: string | null }> = [];
+
+    for (const { oldPath, newPath, hunks } of filePatches) {
+      const path = (newPath ?? oldPath)!;
+      const current = oldPath ? readStaged(oldPath) : null;
+
+      if (oldPath && current === null) {
+        return `Error: File not found: ${oldPath}. No files were changed`;
+      }
+      if (oldPath !== newPath && newPath && readStaged(newPath) !== null) {
+        return `Error: File already exists: ${path}. No files were changed`;
+      }
+
+      if (!newPath) {
+        staged.set(oldPath!, null);
+        changes.push({ from: oldPath, to: null });
+        continue;
+      }
+
+      const result = applyHunks(current ?? "", hunks);
+      if ("failedHunk" in result) {
+        const hunk = hunks[result.failedHunk];
+        return `Error: Hunk ${result.failedHunk + 1} of ${hunks.length} for ${path} failed (${hunk.header}): ${result.reason}. No files were changed`;
+      }
+
+      if (oldPath && oldPath !== newPath) {
+        staged.set(oldPath, null);
+      }
+      staged.set(newPath, result.content);
+      changes.push({ from: oldPath, to: newPath });
+    }
+
+    const summary: string[] = [];
+    for (const { from, to } of changes) {
+      if (!to) {
+        this.deleteFile(from!);
+        summary.push(`Deleted ${from}`);
+      } else if (!from) {
+        this.createFileWithParents(to, staged.get(to)!);
+        summary.push(`Created ${to}`);
+      } else {
+        if (from !== to) {
+          this.rename(from, to);
+        }
+        this.updateFile(to, staged.get(to)!);
+        summary.push(from !== to ? `Renamed ${from} to ${to}` : `Modified ${to}`);
+      }
+    }
+
+    return `Patch applied:\n${summary.join("\n")}`;
   }
 
   insertInFile(path: string, insertLine: number, text: string): string {
@@ -501,6 +818,72 @@ export class VirtualFileSystem {
     return `Text inserted at line ${insertLine} in ${path}`;
   }
 
+  undoEdit(path: string): string {
+    const normalized = this.normalizePath(path);
+    const entries = this.history.get(normalized);
+    const entry = entries?.pop();
+
+    if (!entry) {
+      return `Error: No edit history found for ${path}`;
+    }
+
+    if (entries!.length === 0) {
+      this.history.delete(normalized);
+    }
+
+    this.withoutHistory(() => {
+      switch (entry.type) {
+        case "content": {
+          const node = this.files.get(normalized);
+          if (entry.content === null) {
+            // The edit created the file, so undoing it removes the file again
+            const parent = this.getParentNode(normalized);
+            if (node && parent) {
+              this.removeNode(node, parent);
+            }
+            // Deepest first, keeping any that have gained other contents
+            for (const directory of [...(entry.directories ?? [])].reverse()) {
+              const dir = this.files.get(directory);
+              const dirParent = this.getParentNode(directory);
+              if (dir?.children?.size === 0 && dirParent) {
+                this.removeNode(dir, dirParent);
+              }
+            }
+          } else if (node && node.type === "file") {
+            node.content = entry.content;
+          } else {
+            this.createFile(normalized, entry.content);
+          }
+          break;
+        }
+
+        case "rename":
+          this.rename(normalized, entry.from);
+          break;
+
+        case "delete-directory":
+          // Sorted so parent directories are recreated before their children
+          for (const directory of entry.directories.sort()) {
+            const parts = directory.split("/").filter(Boolean);
+            let currentPath = "";
+
+            for (const part of parts) {
+              currentPath += "/" + part;
+              if (!this.exists(currentPath)) {
+                this.createDirectory(currentPath);
+              }
+            }
+          }
+          for (const [filePath, content] of Object.entries(entry.files)) {
+            this.createFile(filePath, content);
+          }
+          break;
+      }
+    });
+
+    return `Last edit to ${path} undone`;
+  }
+
   reset(): void {
     // Clear all files and reset to initial state
     this.files.clear();
@@ -511,6 +894,7 @@ export class VirtualFileSystem {
       children: new Map(),
     };
     this.files.set("/", this.root);
+    this.history.clear();
   }
 }
 
@@ -0,0 +1,53 @@
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+// Converts a glob to a regular expression over absolute virtual paths.
+// Supports *, ?, ** and {a,b}. Like .gitignore, a pattern without a slash
+// matches file names in any directory.
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim();
+  if (!pattern.includes("/")) {
+    pattern = "**/" + pattern;
+  }
+  pattern = pattern.replace(/^\/+/, "");
+
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        if (pattern[i + 2] === "/") {
+          source += "(?:[^/]+/)*";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^/${source}$`);
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+  return globToRegExp(glob).test(path);
+}
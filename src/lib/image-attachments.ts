@@ -0,0 +1,126 @@
+// Images attached to a prompt travel with the user message as
+// experimental_attachments, kept inline as data URLs so they are stored with
+// the message and need no separate upload. /api/chat turns them into image
+// parts for the model.
+
+// For all the images on one message together. They are resent with every
+// request, and an anonymous user's chat is saved through a server action,
+// whose body Next.js caps at 1 MB
+export const MAX_ATTACHMENT_BYTES = 512 * 1024;
+
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+// Image types the Anthropic API supports
+export const SUPPORTED_IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+export interface ImageAttachment {
+  name: string;
+  contentType: string;
+  // Data URL of the image
+  url: string;
+}
+
+// Why a file can't be attached next to images taking attachedBytes, or
+// null if it can
+export function validateImageFile(
+  file: {
+    name: string;
+    type: string;
+    size: number;
+  },
+  attachedBytes = 0
+): string | null {
+  if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name} isn't a PNG, JPEG, GIF or WebP image`;
+  }
+  if (attachedBytes + file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is too large: images can add up to ${
+      MAX_ATTACHMENT_BYTES / 1024
+    } KB per message`;
+  }
+  return null;
+}
+
+// Size of the image a data URL holds
+export function getAttachmentBytes(attachment: ImageAttachment): number {
+  const base64 = attachment.url.slice(attachment.url.indexOf(",") + 1);
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return (base64.length * 3) / 4 - padding;
+}
+
+// Why the attachments on a message sent to /api/chat can't be accepted, or
+// null if they can. The browser checks each file before attaching it, but a
+// request can be made without it, so the server checks the same limits:
+// inline images of a supported type only, as many and as large as allowed
+export function validateAttachments(message: {
+  experimental_attachments?: unknown;
+}): string | null {
+  const attachments = message.experimental_attachments ?? [];
+  if (!Array.isArray(attachments)) {
+    return "Attachments must be a list";
+  }
+  if (attachments.length > MAX_IMAGES_PER_MESSAGE) {
+    return `A message can have up to ${MAX_IMAGES_PER_MESSAGE} images`;
+  }
+
+  let attachedBytes = 0;
+  for (const attachment of attachments) {
+    const { contentType, url } = attachment ?? {};
+    if (
+      typeof contentType !== "string" ||
+      !SUPPORTED_IMAGE_TYPES.includes(contentType)
+    ) {
+      return "Attachments must be PNG, JPEG, GIF or WebP images";
+    }
+    const prefix = `data:${contentType};base64,`;
+    if (
+      typeof url !== "string" ||
+      !url.startsWith(prefix) ||
+      !/^[A-Za-z0-9+/]*={0,2}$/.test(url.slice(prefix.length))
+    ) {
+      return "Attachments must be inline base64 data URLs of their type";
+    }
+    attachedBytes += getAttachmentBytes(attachment);
+  }
+  if (attachedBytes > MAX_ATTACHMENT_BYTES) {
+    return `Images can add up to ${MAX_ATTACHMENT_BYTES / 1024} KB per message`;
+  }
+  return null;
+}
+
+export function readImageFile(file: File): Promise<ImageAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({
+        name: file.name,
+        contentType: file.type,
+        url: reader.result as string,
+      });
+    reader.onerror = () =>
+      reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+// The images attached to a chat message, if any
+export function getImageAttachments(message: {
+  experimental_attachments?: Array<{
+    name?: string;
+    contentType?: string;
+    url: string;
+  }>;
+}): ImageAttachment[] {
+  return (message.experimental_attachments || [])
+    .filter((attachment) => attachment.contentType?.startsWith("image/"))
+    .map((attachment) => ({
+      name: attachment.name ?? "",
+      contentType: attachment.contentType!,
+      url: attachment.url,
+    }));
+}
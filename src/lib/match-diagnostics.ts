@@ -0,0 +1,140 @@
+export interface MatchCandidate {
+  startLine: number;
+  endLine: number;
+  similarity: number;
+  // Only whitespace separates the candidate from the searched text
+  whitespaceOnly: boolean;
+  lines: string[];
+}
+
+// Candidates below this similarity are not worth showing
+const MIN_SIMILARITY = 0.6;
+
+// Bounds the line comparisons made while searching for candidates
+const MAX_COMPARISONS = 200_000;
+
+// 1-based line numbers of every occurrence of needle in content
+export function findMatchLines(content: string, needle: string): number[] {
+  const lines: number[] = [];
+  let index = content.indexOf(needle);
+  while (index !== -1 && needle) {
+    lines.push(content.slice(0, index).split("\n").length);
+    index = content.indexOf(needle, index + needle.length);
+  }
+  return lines;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over character pairs, ignoring surrounding whitespace
+function lineSimilarity(a: string, b: string): number {
+  const left = a.trim();
+  const right = b.trim();
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftPairs = bigrams(left);
+  let shared = 0;
+  for (const [pair, count] of bigrams(right)) {
+    const available = leftPairs.get(pair) || 0;
+    shared += Math.min(count, available);
+  }
+  return (2 * shared) / (left.length - 1 + (right.length - 1));
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Finds the windows of lines in content that most resemble needle, best first
+export function findClosestMatches(
+  content: string,
+  needle: string,
+  limit = 3
+): MatchCandidate[] {
+  const fileLines = content.split("\n");
+  const needleLines = needle.split("\n");
+  const windowCount = fileLines.length - needleLines.length + 1;
+
+  if (
+    !needle.trim() ||
+    windowCount <= 0 ||
+    windowCount * needleLines.length > MAX_COMPARISONS
+  ) {
+    return [];
+  }
+
+  const collapsedNeedle = collapseWhitespace(needle);
+  const candidates: MatchCandidate[] = [];
+
+  for (let start = 0; start < windowCount; start++) {
+    const lines = fileLines.slice(start, start + needleLines.length);
+    const similarity =
+      lines.reduce(
+        (total, line, i) => total + lineSimilarity(line, needleLines[i]),
+        0
+      ) / needleLines.length;
+
+    if (similarity >= MIN_SIMILARITY) {
+      candidates.push({
+        startLine: start + 1,
+        endLine: start + needleLines.length,
+        similarity,
+        whitespaceOnly: collapseWhitespace(lines.join("\n")) === collapsedNeedle,
+        lines,
+      });
+    }
+  }
+
+  return candidates
+    .sort(
+      (a, b) =>
+        Number(b.whitespaceOnly) - Number(a.whitespaceOnly) ||
+        b.similarity - a.similarity
+    )
+    .slice(0, limit);
+}
+
+// Spaces and tabs made visible so whitespace-only differences can be seen
+function showWhitespace(line: string): string {
+  return line.replace(/ /g, "·").replace(/\t/g, "→");
+}
+
+export function formatClosestMatches(
+  candidates: MatchCandidate[],
+  needle: string
+): string {
+  const needleLines = needle.split("\n");
+
+  return candidates
+    .map((candidate) => {
+      const range =
+        candidate.startLine === candidate.endLine
+          ? `Line ${candidate.startLine}`
+          : `Lines ${candidate.startLine}-${candidate.endLine}`;
+      const note = candidate.whitespaceOnly
+        ? "differs only in whitespace"
+        : `${Math.round(candidate.similarity * 100)}% similar`;
+
+      const details = candidate.lines.flatMap((line, i) => {
+        const lineNumber = candidate.startLine + i;
+        if (line === needleLines[i]) {
+          return [`  ${lineNumber}: ${line}`];
+        }
+        return [
+          `  ${lineNumber}: ${showWhitespace(line)}`,
+          `  ${" ".repeat(String(lineNumber).length)}  expected: ${showWhitespace(needleLines[i])}`,
+        ];
+      });
+
+      return [`${range} (${note}):`, ...details].join("\n");
+    })
+    .join("\n");
+}
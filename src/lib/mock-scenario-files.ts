@@ -0,0 +1,37 @@
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parseScenario, type MockScenario } from "@/lib/mock-scenarios";
+
+function resolveDir(dir: string): string {
+  return path.resolve(process.cwd(), dir);
+}
+
+// Every *.json scenario in a directory, in file name order. Read on each call
+// so edits show up without a restart
+export async function loadScenarios(dir: string): Promise<MockScenario[]> {
+  const root = resolveDir(dir);
+  const files = (await readdir(root))
+    .filter((file) => file.endsWith(".json"))
+    .sort();
+
+  return Promise.all(
+    files.map(async (file) =>
+      parseScenario(
+        JSON.parse(await readFile(path.join(root, file), "utf-8")),
+        file
+      )
+    )
+  );
+}
+
+// Writes a scenario as <name>.json and returns the file's path
+export async function saveScenario(
+  dir: string,
+  scenario: MockScenario
+): Promise<string> {
+  const root = resolveDir(dir);
+  await mkdir(root, { recursive: true });
+  const file = path.join(root, `${scenario.name}.json`);
+  await writeFile(file, JSON.stringify(scenario, null, 2) + "\n", "utf-8");
+  return file;
+}
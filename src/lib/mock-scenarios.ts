@@ -0,0 +1,253 @@
+import { z } from "zod";
+import type {
+  LanguageModelV1,
+  LanguageModelV1Prompt,
+  LanguageModelV1ProviderMetadata,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+
+const ScenarioToolCallSchema = z.object({
+  // Generated from the step and position when left out
+  id: z.string().optional(),
+  toolName: z.string(),
+  args: z.record(z.unknown()),
+});
+
+const ScenarioStepSchema = z.object({
+  // Streamed in order, one delta per string
+  text: z.union([z.string(), z.array(z.string())]).optional(),
+  toolCalls: z.array(ScenarioToolCallSchema).optional(),
+  // "tool-calls" when the step calls tools, "stop" otherwise
+  finishReason: z
+    .enum([
+      "stop",
+      "length",
+      "content-filter",
+      "tool-calls",
+      "error",
+      "other",
+      "unknown",
+    ])
+    .optional(),
+  usage: z
+    .object({
+      promptTokens: z.number(),
+      completionTokens: z.number(),
+    })
+    .optional(),
+  // Such as Anthropic's prompt cache token counts
+  providerMetadata: z.record(z.record(z.unknown())).optional(),
+  // Emitted as a stream error after the text, ending the step
+  error: z.string().optional(),
+});
+
+const MockScenarioSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  // Regular expression tested against the last user message, ignoring case;
+  // a scenario without one answers any message
+  match: z
+    .string()
+    .refine((pattern) => {
+      try {
+        new RegExp(pattern, "i");
+        return true;
+      } catch {
+        return false;
+      }
+    }, "is not a valid regular expression")
+    .optional(),
+  // Pause before each text delta, for demos; tests leave it at 0
+  delayMs: z.number().nonnegative().optional(),
+  // One per model call in the turn: the first answers the user message, the
+  // next one the results of its tool calls, and so on
+  steps: z.array(ScenarioStepSchema).min(1),
+});
+
+export type ScenarioToolCall = z.infer<typeof ScenarioToolCallSchema>;
+export type ScenarioStep = z.infer<typeof ScenarioStepSchema>;
+export type MockScenario = z.infer<typeof MockScenarioSchema>;
+
+export function parseScenario(data: unknown, source: string): MockScenario {
+  const result = MockScenarioSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "scenario";
+    throw new Error(`Invalid mock scenario ${source}: ${field} ${issue.message}`);
+  }
+  return result.data;
+}
+
+function getLastUserText(prompt: LanguageModelV1Prompt): string {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    const message = prompt[i];
+    if (message.role === "user") {
+      return message.content
+        .filter((part) => part.type === "text")
+        .map((part) => (part as { text: string }).text)
+        .join(" ");
+    }
+  }
+  return "";
+}
+
+export function findScenario(
+  scenarios: MockScenario[],
+  prompt: LanguageModelV1Prompt
+): MockScenario | undefined {
+  const text = getLastUserText(prompt);
+  return scenarios.find(
+    (scenario) => !scenario.match || new RegExp(scenario.match, "i").test(text)
+  );
+}
+
+// Each earlier step of the turn left an assistant message after the user's
+export function getStepIndex(prompt: LanguageModelV1Prompt): number {
+  let index = 0;
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    if (prompt[i].role === "user") break;
+    if (prompt[i].role === "assistant") index++;
+  }
+  return index;
+}
+
+// Stream parts of one step; past the last step the model stops without text
+export function getStepParts(
+  scenario: MockScenario,
+  stepIndex: number
+): LanguageModelV1StreamPart[] {
+  const step: ScenarioStep = scenario.steps[stepIndex] ?? {
+    finishReason: "stop",
+  };
+  const parts: LanguageModelV1StreamPart[] = [];
+
+  const deltas = typeof step.text === "string" ? [step.text] : step.text ?? [];
+  for (const textDelta of deltas) {
+    parts.push({ type: "text-delta", textDelta });
+  }
+
+  const toolCalls = step.toolCalls ?? [];
+  toolCalls.forEach((toolCall, index) => {
+    parts.push({
+      type: "tool-call",
+      toolCallType: "function",
+      toolCallId: toolCall.id ?? `call_${stepIndex + 1}_${index + 1}`,
+      toolName: toolCall.toolName,
+      args: JSON.stringify(toolCall.args),
+    });
+  });
+
+  if (step.error) {
+    parts.push({ type: "error", error: new Error(step.error) });
+  }
+
+  parts.push({
+    type: "finish",
+    finishReason:
+      step.finishReason ??
+      (step.error ? "error" : toolCalls.length > 0 ? "tool-calls" : "stop"),
+    usage: step.usage ?? { promptTokens: 0, completionTokens: 0 },
+    ...(step.providerMetadata && {
+      providerMetadata:
+        step.providerMetadata as LanguageModelV1ProviderMetadata,
+    }),
+  });
+
+  return parts;
+}
+
+function toTokenCount(value: number): number {
+  return Number.isFinite(value) ? value : 0;
+}
+
+// Wraps a model so every step it streams is also written down as a scenario
+// step. The wrapper inherits everything else from the model
+export function recordScenarioSteps(model: LanguageModelV1): {
+  model: LanguageModelV1;
+  steps: ScenarioStep[];
+} {
+  const steps: ScenarioStep[] = [];
+  const recording: LanguageModelV1 = Object.create(model);
+
+  recording.doStream = async (options) => {
+    const result = await model.doStream(options);
+    const step: ScenarioStep = {};
+    const deltas: string[] = [];
+    const toolCalls: ScenarioToolCall[] = [];
+    steps.push(step);
+
+    const record = (part: LanguageModelV1StreamPart) => {
+      switch (part.type) {
+        case "text-delta":
+          deltas.push(part.textDelta);
+          break;
+        case "tool-call":
+          toolCalls.push({
+            id: part.toolCallId,
+            toolName: part.toolName,
+            args: JSON.parse(part.args || "{}"),
+          });
+          break;
+        case "error":
+          step.error =
+            part.error instanceof Error
+              ? part.error.message
+              : String(part.error);
+          break;
+        case "finish":
+          if (deltas.length > 0) step.text = deltas;
+          if (toolCalls.length > 0) step.toolCalls = toolCalls;
+          step.finishReason = part.finishReason;
+          step.usage = {
+            promptTokens: toTokenCount(part.usage.promptTokens),
+            completionTokens: toTokenCount(part.usage.completionTokens),
+          };
+          if (part.providerMetadata) {
+            step.providerMetadata = part.providerMetadata;
+          }
+          break;
+      }
+    };
+
+    return {
+      ...result,
+      stream: result.stream.pipeThrough(
+        new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            record(part);
+            controller.enqueue(part);
+          },
+        })
+      ),
+    };
+  };
+
+  return { model: recording, steps };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A fixture that replays the recorded steps when the same message is sent
+export function createRecordedScenario(
+  prompt: string,
+  steps: ScenarioStep[],
+  recordedAt = new Date()
+): MockScenario {
+  const slug =
+    prompt
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 40)
+      .replace(/-$/, "") || "turn";
+  const timestamp = recordedAt.toISOString().replace(/[:.]/g, "-");
+
+  return {
+    name: `${slug}-${timestamp}`,
+    description: `Recorded from /api/chat on ${recordedAt.toISOString()}`,
+    match: `^\\s*${escapeRegExp(prompt.trim())}\\s*$`,
+    steps,
+  };
+}
@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import type { FileNode } from "@/lib/file-system";
+
+// A project's files are stored one row per file in the ProjectFile table.
+// Directories aren't stored; they are implied by the file paths.
+
+export interface ProjectFileData {
+  path: string;
+  content: string;
+  contentHash: string;
+}
+
+export interface StoredFileHash {
+  path: string;
+  contentHash: string;
+}
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Rows for the files in a serialized file system
+export function toProjectFileRows(
+  data: Record<string, FileNode>
+): ProjectFileData[] {
+  return Object.values(data)
+    .filter((node) => node.type === "file")
+    .map((node) => {
+      const content = node.content ?? "";
+      return {
+        path: node.path,
+        content,
+        contentHash: hashContent(content),
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Rebuilds the serialized file system the client and deserializeFromNodes
+// expect, including the root and the directories the paths pass through
+export function toFileNodes(
+  rows: Array<{ path: string; content: string }>
+): Record<string, FileNode> {
+  const nodes: Record<string, FileNode> = {
+    "/": { type: "directory", name: "", path: "/" },
+  };
+
+  for (const row of rows) {
+    const parts = row.path.split("/").filter(Boolean);
+    let currentPath = "";
+    for (const part of parts.slice(0, -1)) {
+      currentPath += "/" + part;
+      nodes[currentPath] ??= {
+        type: "directory",
+        name: part,
+        path: currentPath,
+      };
+    }
+
+    nodes[row.path] = {
+      type: "file",
+      name: parts[parts.length - 1],
+      path: row.path,
+      content: row.content,
+    };
+  }
+
+  return nodes;
+}
+
+// Nested write for Project.files that brings the stored rows in line with
+// data, touching only files that were added, changed or removed
+export function diffProjectFiles(
+  projectId: string,
+  stored: StoredFileHash[],
+  data: Record<string, FileNode>
+) {
+  const storedHashes = new Map(
+    stored.map((file) => [file.path, file.contentHash])
+  );
+  const rows = toProjectFileRows(data);
+  const paths = new Set(rows.map((row) => row.path));
+
+  const create = rows.filter((row) => !storedHashes.has(row.path));
+  const update = rows
+    .filter(
+      (row) =>
+        storedHashes.has(row.path) &&
+        storedHashes.get(row.path) !== row.contentHash
+    )
+    .map(({ path, content, contentHash }) => ({
+      where: {
+        projectId_path: { projectId, path },
+      },
+      data: { content, contentHash },
+    }));
+  const deletedPaths = stored
+    .map((file) => file.path)
+    .filter((path) => !paths.has(path));
+
+  return {
+    create,
+    update,
+    deleteMany: {
+      path: {
+        in: deletedPaths,
+      },
+    },
+  };
+}
+
+// Whether two serialized file systems hold the same files and contents
+export function hasSameFiles(
+  a: Record<string, FileNode>,
+  b: Record<string, FileNode>
+): boolean {
+  const rowsA = toProjectFileRows(a);
+  const rowsB = toProjectFileRows(b);
+  return (
+    rowsA.length === rowsB.length &&
+    rowsA.every(
+      (row, i) =>
+        row.path === rowsB[i].path && row.contentHash === rowsB[i].contentHash
+    )
+  );
+}
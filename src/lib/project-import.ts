@@ -0,0 +1,286 @@
+import { unzipSync } from "fflate";
+
+// Larger files are almost never hand-written components, and would bloat
+// the stored project files and every chat request that carries them
+export const MAX_IMPORT_FILE_SIZE = 256 * 1024;
+
+// An import is saved together with the rest of the project in one server
+// action call, whose body Next.js caps at 1 MB
+export const MAX_IMPORT_TOTAL_SIZE = 512 * 1024;
+
+// Folders that hold dependencies, build output or OS metadata rather than source
+const IGNORED_SEGMENTS = new Set([
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  ".next",
+  "__MACOSX",
+]);
+const IGNORED_NAMES = new Set([".DS_Store", "Thumbs.db"]);
+
+export interface ImportEntry {
+  path: string;
+  data: Uint8Array;
+  // Set for zip entries left packed because they are too large; the entry
+  // is rejected with this reason
+  rejection?: string;
+}
+
+export interface RejectedImport {
+  path: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  files: Record<string, string>;
+  rejected: RejectedImport[];
+  // Entries inside ignored folders, counted rather than listed one by one
+  skipped: number;
+}
+
+function normalizeImportPath(path: string): string {
+  const segments = path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== ".");
+  return "/" + segments.join("/");
+}
+
+function isIgnored(path: string): boolean {
+  const segments = path.split("/").filter(Boolean);
+  return (
+    segments.some((segment) => IGNORED_SEGMENTS.has(segment)) ||
+    IGNORED_NAMES.has(segments[segments.length - 1])
+  );
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function tooLargeReason(size: number): string {
+  return `larger than ${formatSize(MAX_IMPORT_FILE_SIZE)} (${formatSize(size)})`;
+}
+
+const OVER_TOTAL_REASON =
+  `over the ${formatSize(MAX_IMPORT_TOTAL_SIZE)} limit for one import`;
+
+// Text files are valid UTF-8 without NUL bytes; anything else is binary
+function decodeText(data: Uint8Array): string | null {
+  if (data.includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+// Sorts entries into text files to import and rejected files with a reason
+export function readImportEntries(entries: ImportEntry[]): ImportResult {
+  const result: ImportResult = { files: {}, rejected: [], skipped: 0 };
+  let totalSize = 0;
+
+  for (const entry of entries) {
+    const path = normalizeImportPath(entry.path);
+    if (path === "/" || path.split("/").includes("..")) continue;
+
+    if (isIgnored(path)) {
+      result.skipped++;
+      continue;
+    }
+
+    if (entry.rejection) {
+      result.rejected.push({ path, reason: entry.rejection });
+      continue;
+    }
+
+    if (entry.data.length > MAX_IMPORT_FILE_SIZE) {
+      result.rejected.push({ path, reason: tooLargeReason(entry.data.length) });
+      continue;
+    }
+
+    const content = decodeText(entry.data);
+    if (content === null) {
+      result.rejected.push({ path, reason: "binary file" });
+      continue;
+    }
+
+    if (totalSize + entry.data.length > MAX_IMPORT_TOTAL_SIZE) {
+      result.rejected.push({ path, reason: OVER_TOTAL_REASON });
+      continue;
+    }
+
+    totalSize += entry.data.length;
+    result.files[path] = content;
+  }
+
+  return result;
+}
+
+// Archives usually wrap everything in one folder named after the project;
+// drop it so "my-app/components/Card.jsx" imports as "/components/Card.jsx"
+function stripWrapperFolder(entries: ImportEntry[]): ImportEntry[] {
+  const paths = entries.map((entry) =>
+    normalizeImportPath(entry.path).slice(1)
+  );
+  const roots = new Set(paths.map((path) => path.split("/")[0]));
+  const [root] = roots;
+
+  if (
+    roots.size !== 1 ||
+    !root ||
+    paths.some((path) => !path.startsWith(root + "/"))
+  ) {
+    return entries;
+  }
+
+  return entries.map((entry, i) => ({
+    ...entry,
+    path: paths[i].slice(root.length + 1),
+  }));
+}
+
+// Entries are checked by the sizes the archive records before any is
+// inflated, so a small archive that unpacks to gigabytes can't hang the tab
+export function readZipArchive(data: Uint8Array): ImportResult {
+  const entries: ImportEntry[] = [];
+  let skipped = 0;
+  let inflatedSize = 0;
+
+  let archive: Record<string, Uint8Array>;
+  try {
+    archive = unzipSync(data, {
+      filter: (file) => {
+        if (file.name.endsWith("/")) return false;
+        // Ignored entries such as __MACOSX/ would hide the wrapper folder
+        if (isIgnored(normalizeImportPath(file.name))) {
+          skipped++;
+          return false;
+        }
+
+        const rejection =
+          file.originalSize > MAX_IMPORT_FILE_SIZE
+            ? tooLargeReason(file.originalSize)
+            : inflatedSize + file.originalSize > MAX_IMPORT_TOTAL_SIZE
+              ? OVER_TOTAL_REASON
+              : null;
+        if (rejection) {
+          entries.push({ path: file.name, data: new Uint8Array(), rejection });
+          return false;
+        }
+
+        inflatedSize += file.originalSize;
+        return true;
+      },
+    });
+  } catch {
+    throw new Error("The file is not a valid zip archive");
+  }
+
+  for (const [path, data] of Object.entries(archive)) {
+    entries.push({ path, data });
+  }
+
+  const result = readImportEntries(stripWrapperFolder(entries));
+  result.skipped += skipped;
+  return result;
+}
+
+export function isZipFile(file: File): boolean {
+  return (
+    file.name.toLowerCase().endsWith(".zip") ||
+    file.type === "application/zip" ||
+    file.type === "application/x-zip-compressed"
+  );
+}
+
+// Reads files picked with a file input: a single zip archive is unpacked,
+// otherwise each file is imported at the root under its own name
+export async function readSelectedFiles(files: File[]): Promise<ImportResult> {
+  if (files.length === 1 && isZipFile(files[0])) {
+    return readZipArchive(new Uint8Array(await files[0].arrayBuffer()));
+  }
+
+  const entries: ImportEntry[] = [];
+  for (const file of files) {
+    entries.push({
+      path: file.name,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+  }
+  return readImportEntries(entries);
+}
+
+async function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function readDirectoryEntries(
+  directory: FileSystemDirectoryEntry
+): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  // readEntries returns results in batches until it returns an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(
+  entry: FileSystemEntry,
+  output: ImportEntry[]
+): Promise<void> {
+  // fullPath starts at the dropped item, so a dropped folder keeps its name.
+  // Ignored folders are not walked; one placeholder entry records the skip
+  if (isIgnored(entry.fullPath)) {
+    output.push({ path: entry.fullPath, data: new Uint8Array() });
+    return;
+  }
+
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    output.push({
+      path: entry.fullPath,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+  } else if (entry.isDirectory) {
+    const children = await readDirectoryEntries(
+      entry as FileSystemDirectoryEntry
+    );
+    for (const child of children) {
+      await collectEntry(child, output);
+    }
+  }
+}
+
+// Reads what was dropped onto the page: a zip archive is unpacked, folders
+// are walked recursively and loose files keep their names
+export async function readDroppedItems(
+  dataTransfer: DataTransfer
+): Promise<ImportResult> {
+  const droppedEntries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (droppedEntries.length === 1 && droppedEntries[0].isFile) {
+    const file = await readFileEntry(droppedEntries[0] as FileSystemFileEntry);
+    if (isZipFile(file)) {
+      return readZipArchive(new Uint8Array(await file.arrayBuffer()));
+    }
+  }
+
+  const entries: ImportEntry[] = [];
+  for (const entry of droppedEntries) {
+    await collectEntry(entry, entries);
+  }
+  return readImportEntries(entries);
+}
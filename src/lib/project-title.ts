@@ -0,0 +1,110 @@
+import { generateText } from "ai";
+import type { LanguageModelV1 } from "@ai-sdk/provider";
+import { MockLanguageModel } from "@/lib/provider";
+import { sumStepUsage, type TokenCounts } from "@/lib/token-usage";
+
+const MAX_TITLE_LENGTH = 50;
+const MAX_TITLE_WORDS = 5;
+
+// Names given to projects before the user has said what they are building:
+// the home page, the "New Design" button and saving anonymous work
+const DEFAULT_NAME_PATTERNS = [
+  /^New Design #\d+$/,
+  /^Design #\d+$/,
+  /^Design from .+$/,
+];
+
+// Request phrasing that says nothing about the component itself
+const LEADING_FILLER =
+  /^(?:(?:please|hey|hi|can you|could you|would you|i want|i'd like|i would like|i need|let's|lets|help me|me|to|create|make|build|generate|design|write|add|implement|code|a|an|the|some|new|simple|basic|react|components?|for|of|that|which)\b[\s,.!:]*)+/i;
+
+const SMALL_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "as",
+  "at",
+  "by",
+  "for",
+  "in",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "with",
+]);
+
+export function isDefaultProjectName(name: string): boolean {
+  return DEFAULT_NAME_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+function truncateTitle(title: string): string {
+  if (title.length <= MAX_TITLE_LENGTH) return title;
+  const cut = title.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trim();
+}
+
+// Tidies a title the model returned: one line, no quotes or trailing period
+export function cleanTitle(title: string): string {
+  const line = title.trim().split("\n")[0];
+  return truncateTitle(
+    line
+      .replace(/^(?:title:\s*)/i, "")
+      .replace(/^["'`*#\s]+|["'`*.\s]+$/g, "")
+      .replace(/\s+/g, " ")
+  );
+}
+
+// Deterministic title from the prompt's first few meaningful words, used
+// with the mock provider and when the model can't produce one
+export function heuristicProjectTitle(prompt: string): string {
+  const firstSentence = prompt.trim().split(/[.!?\n]/)[0];
+  const words = firstSentence
+    .replace(LEADING_FILLER, "")
+    .replace(/[^\p{L}\p{N}\s'-]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, MAX_TITLE_WORDS);
+
+  const title = words
+    .map((word, i) =>
+      i > 0 && SMALL_WORDS.has(word.toLowerCase())
+        ? word.toLowerCase()
+        : word[0].toUpperCase() + word.slice(1)
+    )
+    .join(" ");
+
+  return truncateTitle(title);
+}
+
+// The tokens the model spent on the title come back too, so they can be
+// counted with the turn's usage
+export async function generateProjectTitle(
+  prompt: string,
+  model: LanguageModelV1
+): Promise<{ title: string; usage: TokenCounts | null }> {
+  const fallback = heuristicProjectTitle(prompt);
+  if (model instanceof MockLanguageModel) {
+    return { title: fallback, usage: null };
+  }
+
+  try {
+    const result = await generateText({
+      // Cast to any to handle version differences in AI SDK types
+      model: model as any,
+      system:
+        "You name UI design projects. Reply with a short title of 2 to 5 words in Title Case describing what the user wants to build. Reply with the title only.",
+      prompt,
+      maxOutputTokens: 30,
+    });
+    return {
+      title: cleanTitle(result.text) || fallback,
+      usage: sumStepUsage([result]),
+    };
+  } catch (error) {
+    console.error("Failed to generate project title:", error);
+    return { title: fallback, usage: null };
+  }
+}
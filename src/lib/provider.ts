@@ -1,12 +1,40 @@
 import { anthropic } from "@ai-sdk/anthropic";
-import type { LanguageModelV1 } from "@ai-sdk/provider";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type {
+  LanguageModelV1,
+  LanguageModelV1Prompt,
+} from "@ai-sdk/provider";
 import type {
   LanguageModelV3,
   LanguageModelV3CallOptions,
   LanguageModelV3StreamPart,
 } from "@ai-sdk/provider";
+import {
+  findScenario,
+  getStepIndex,
+  getStepParts,
+  type MockScenario,
+} from "@/lib/mock-scenarios";
+import { loadScenarios } from "@/lib/mock-scenario-files";
+
+// Offered when ANTHROPIC_API_KEY is set and ANTHROPIC_MODELS is not; the
+// first one is the default
+const ANTHROPIC_MODELS = [
+  "claude-haiku-4-5",
+  "claude-sonnet-4-5",
+  "claude-opus-4-1",
+];
+
+const ANTHROPIC_MODEL_LABELS: Record<string, string> = {
+  "claude-haiku-4-5": "Claude Haiku 4.5",
+  "claude-sonnet-4-5": "Claude Sonnet 4.5",
+  "claude-opus-4-1": "Claude Opus 4.1",
+};
 
-const MODEL = "claude-haiku-4-5";
+const MOCK_MODEL_ID = "mock";
+
+// Scripted turns for the mock, or a loader for them
+type ScenarioSource = MockScenario[] | (() => Promise<MockScenario[]>);
 
 export class MockLanguageModel implements LanguageModelV3 {
   readonly specificationVersion = "v3" as const;
@@ -14,9 +42,12 @@ export class MockLanguageModel implements LanguageModelV3 {
   readonly modelId: string;
   readonly defaultObjectGenerationMode = "tool" as const;
   readonly supportedUrls = {};
+  private readonly scenarios: ScenarioSource;
 
-  constructor(modelId: string) {
+  // Messages no scenario matches get the built-in counter, form or card
+  constructor(modelId: string, scenarios: ScenarioSource = []) {
     this.modelId = modelId;
+    this.scenarios = scenarios;
   }
 
   private async delay(ms: number) {
@@ -43,6 +74,31 @@ export class MockLanguageModel implements LanguageModelV3 {
     return "";
   }
 
+  private async *playScenario(
+    scenario: MockScenario,
+    messages: LanguageModelV3CallOptions["prompt"]
+  ): AsyncGenerator<LanguageModelV3StreamPart> {
+    for (const part of getStepParts(scenario, getStepIndex(messages as LanguageModelV1Prompt))) {
+      if (part.type === "text-delta" && scenario.delayMs) {
+        await this.delay(scenario.delayMs);
+      }
+      yield part as LanguageModelV3StreamPart;
+    }
+  }
+
+  private async streamParts(
+    messages: LanguageModelV3CallOptions["prompt"]
+  ): Promise<AsyncGenerator<LanguageModelV3StreamPart>> {
+    const scenarios =
+      typeof this.scenarios === "function"
+        ? await this.scenarios()
+        : this.scenarios;
+    const scenario = findScenario(scenarios, messages as LanguageModelV1Prompt);
+    return scenario
+      ? this.playScenario(scenario, messages)
+      : this.generateMockStream(messages, this.extractUserPrompt(messages));
+  }
+
   private countToolMessages(messages: LanguageModelV3CallOptions["prompt"]): number {
     return messages.filter((m) => m.role === "tool").length;
   }
@@ -418,14 +474,9 @@ export default function App() {
   async doGenerate(
     options: LanguageModelV3CallOptions
   ): Promise<Awaited<ReturnType<LanguageModelV3["doGenerate"]>>> {
-    const userPrompt = this.extractUserPrompt(options.prompt);
-
     // Collect all stream parts
     const parts: LanguageModelV3StreamPart[] = [];
-    for await (const part of this.generateMockStream(
-      options.prompt,
-      userPrompt
-    )) {
+    for await (const part of await this.streamParts(options.prompt)) {
       parts.push(part);
     }
 
@@ -470,13 +521,11 @@ export default function App() {
   async doStream(
     options: LanguageModelV3CallOptions
   ): Promise<Awaited<ReturnType<LanguageModelV3["doStream"]>>> {
-    const userPrompt = this.extractUserPrompt(options.prompt);
-    const self = this;
+    const generator = await this.streamParts(options.prompt);
 
     const stream = new ReadableStream<LanguageModelV3StreamPart>({
       async start(controller) {
         try {
-          const generator = self.generateMockStream(options.prompt, userPrompt);
           for await (const chunk of generator) {
             controller.enqueue(chunk);
           }
@@ -500,15 +549,103 @@ export default function App() {
   }
 }
 
+export interface ModelOption {
+  // "<provider>:<model>", as stored on projects and sent to /api/chat
+  id: string;
+  label: string;
+}
+
+interface ModelEntry extends ModelOption {
+  create: () => LanguageModelV1;
+}
+
+function readList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Models the server can run, from the environment:
+//   ANTHROPIC_API_KEY, ANTHROPIC_MODELS
+//   OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_MODELS,
+//   OPENAI_COMPATIBLE_API_KEY, OPENAI_COMPATIBLE_NAME
+//   MOCK_SCENARIOS_DIR
+// With neither provider configured, the mock model is the only one
+function getModelRegistry(): ModelEntry[] {
+  const entries: ModelEntry[] = [];
+
+  if (process.env.ANTHROPIC_API_KEY?.trim()) {
+    const models = readList(process.env.ANTHROPIC_MODELS);
+    for (const model of models.length > 0 ? models : ANTHROPIC_MODELS) {
+      entries.push({
+        id: `anthropic:${model}`,
+        label: ANTHROPIC_MODEL_LABELS[model] ?? model,
+        create: () => anthropic(model),
+      });
+    }
+  }
+
+  // Ollama serves one at http://localhost:11434/v1, llama.cpp's server at
+  // http://localhost:8080/v1
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL?.trim();
+  if (baseURL) {
+    const name = process.env.OPENAI_COMPATIBLE_NAME?.trim() || "Local";
+    const provider = createOpenAICompatible({
+      name: "openai-compatible",
+      baseURL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY?.trim() || undefined,
+    });
+    for (const model of readList(process.env.OPENAI_COMPATIBLE_MODELS)) {
+      entries.push({
+        id: `openai-compatible:${model}`,
+        label: `${model} (${name})`,
+        create: () => provider.chatModel(model) as unknown as LanguageModelV1,
+      });
+    }
+  }
+
+  // MOCK_SCENARIOS_DIR also offers the mock beside real models, for demos
+  const scenarioDir = process.env.MOCK_SCENARIOS_DIR?.trim();
+  if (entries.length === 0 || scenarioDir) {
+    entries.push({
+      id: MOCK_MODEL_ID,
+      label: entries.length === 0 ? "Mock (no API key)" : "Mock scenarios",
+      create: () =>
+        new MockLanguageModel(
+          "mock-claude-sonnet-4-0",
+          scenarioDir ? () => loadScenarios(scenarioDir) : []
+        ) as unknown as LanguageModelV1,
+    });
+  }
+
+  return entries;
+}
+
+export function getModelOptions(): ModelOption[] {
+  return getModelRegistry().map(({ id, label }) => ({ id, label }));
+}
+
+// The requested model when the server offers it, otherwise DEFAULT_MODEL or
+// the first model in the registry
+export function resolveModelId(modelId?: string | null): string {
+  const ids = getModelRegistry().map((entry) => entry.id);
+  if (modelId && ids.includes(modelId)) return modelId;
+  const fallback = process.env.DEFAULT_MODEL?.trim();
+  return fallback && ids.includes(fallback) ? fallback : ids[0];
+}
+
 // Return type uses LanguageModelV1 to satisfy streamText requirements
 // The MockLanguageModel implements LanguageModelV3 but is cast for compatibility
-export function getLanguageModel(): LanguageModelV1 {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-
-  if (!apiKey || apiKey.trim() === "") {
-    console.log("No ANTHROPIC_API_KEY found, using mock provider");
-    return new MockLanguageModel("mock-claude-sonnet-4-0") as unknown as LanguageModelV1;
+export function getLanguageModel(modelId?: string | null): LanguageModelV1 {
+  const id = resolveModelId(modelId);
+  const registry = getModelRegistry();
+  const entry = registry.find((entry) => entry.id === id)!;
+
+  // The mock may also be picked on purpose, beside real models
+  if (registry.length === 1 && id === MOCK_MODEL_ID) {
+    console.log("No model provider configured, using mock provider");
   }
 
-  return anthropic(MODEL);
+  return entry.create();
 }
@@ -0,0 +1,167 @@
+// Token usage is recorded once per chat turn in the TokenUsage table. The
+// system prompt is marked for Anthropic's prompt cache, so after the first
+// turn most of each request is read from the cache: those tokens are counted
+// apart from the regular input tokens and cost a tenth as much.
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface UsageSummary extends TokenCounts {
+  turns: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// USD per million tokens, for 5-minute cache writes
+interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// Models that aren't listed, like the mock provider, cost nothing
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+};
+
+// Fields to sum when aggregating TokenUsage rows
+export const USAGE_SUM = {
+  inputTokens: true,
+  outputTokens: true,
+  cacheCreationInputTokens: true,
+  cacheReadInputTokens: true,
+  costUsd: true,
+} as const;
+
+// A step as the AI SDK reports it. Older versions count promptTokens and
+// completionTokens and leave cache tokens to Anthropic's provider metadata;
+// newer ones count inputTokens, which include cached tokens, and split them
+// out in inputTokenDetails
+interface StepUsage {
+  usage?: {
+    promptTokens?: number;
+    completionTokens?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+    inputTokenDetails?: {
+      noCacheTokens?: number;
+      cacheReadTokens?: number;
+      cacheWriteTokens?: number;
+    };
+  };
+  providerMetadata?: Record<string, Record<string, unknown> | undefined>;
+}
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+// Adds up the steps of a turn. Every tool call round trip is a step, and
+// each one sends the whole conversation again
+export function sumStepUsage(steps: readonly StepUsage[]): TokenCounts {
+  return steps.reduce<TokenCounts>(
+    (total, { usage = {}, providerMetadata }) => {
+      const anthropic = providerMetadata?.anthropic;
+      const details = usage.inputTokenDetails;
+      return {
+        inputTokens:
+          total.inputTokens +
+          toCount(
+            usage.promptTokens ?? details?.noCacheTokens ?? usage.inputTokens
+          ),
+        outputTokens:
+          total.outputTokens +
+          toCount(usage.completionTokens ?? usage.outputTokens),
+        cacheCreationInputTokens:
+          total.cacheCreationInputTokens +
+          toCount(
+            details?.cacheWriteTokens ?? anthropic?.cacheCreationInputTokens
+          ),
+        cacheReadInputTokens:
+          total.cacheReadInputTokens +
+          toCount(details?.cacheReadTokens ?? anthropic?.cacheReadInputTokens),
+      };
+    },
+    {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    }
+  );
+}
+
+// Every token the model processed, cached or not; what quotas count
+export function totalTokens(counts: TokenCounts): number {
+  return (
+    counts.inputTokens +
+    counts.outputTokens +
+    counts.cacheCreationInputTokens +
+    counts.cacheReadInputTokens
+  );
+}
+
+export function estimateCost(modelId: string, counts: TokenCounts): number {
+  const pricing = MODEL_PRICING[modelId];
+  if (!pricing) return 0;
+
+  return (
+    (counts.inputTokens * pricing.input +
+      counts.outputTokens * pricing.output +
+      counts.cacheCreationInputTokens * pricing.cacheWrite +
+      counts.cacheReadInputTokens * pricing.cacheRead) /
+    1_000_000
+  );
+}
+
+// Builds a summary from a Prisma aggregate or groupBy result over TokenUsage
+export function toUsageSummary(result: {
+  _sum: Partial<Record<keyof typeof USAGE_SUM, number | null>>;
+  _count: { _all: number };
+}): UsageSummary {
+  const counts = {
+    inputTokens: result._sum.inputTokens ?? 0,
+    outputTokens: result._sum.outputTokens ?? 0,
+    cacheCreationInputTokens: result._sum.cacheCreationInputTokens ?? 0,
+    cacheReadInputTokens: result._sum.cacheReadInputTokens ?? 0,
+  };
+  return {
+    ...counts,
+    turns: result._count._all,
+    totalTokens: totalTokens(counts),
+    costUsd: result._sum.costUsd ?? 0,
+  };
+}
+
+// Quotas run per calendar month in UTC
+export function startOfMonth(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export function startOfNextMonth(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("en-US");
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd > 0 && costUsd < 0.01 ? "<$0.01" : `$${costUsd.toFixed(2)}`;
+}
+
+export function quotaExceededMessage(quota: number, resetsAt: Date): string {
+  const resetDate = resetsAt.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+  return `You've used your monthly quota of ${formatTokens(quota)} tokens. It resets on ${resetDate}; ask an admin if you need more before then.`;
+}
@@ -0,0 +1,34 @@
+import { describe, test, expect } from "vitest";
+import { buildPreviewErrorsTool } from "@/lib/tools/preview-errors";
+
+describe("buildPreviewErrorsTool", () => {
+  test("reports when the preview has no errors", async () => {
+    const tool = buildPreviewErrorsTool([]);
+
+    expect(await tool.execute({})).toBe("No errors in the preview");
+  });
+
+  test("lists each error with its location and stack", async () => {
+    const tool = buildPreviewErrorsTool([
+      {
+        message: "TypeError: items is undefined",
+        stack: "TypeError: items is undefined\n    at List (blob:x:4:12)",
+        location: { file: "/components/List.jsx", line: 4, column: 12 },
+      },
+      { message: "/App.jsx: Unexpected token (3:5)" },
+    ]);
+
+    expect(await tool.execute({})).toBe(
+      [
+        "Error 1:",
+        "TypeError: items is undefined",
+        "  at /components/List.jsx:4:12",
+        "TypeError: items is undefined",
+        "    at List (blob:x:4:12)",
+        "",
+        "Error 2:",
+        "/App.jsx: Unexpected token (3:5)",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { buildSearchFilesTool } from "@/lib/tools/search-files";
+import { VirtualFileSystem } from "@/lib/file-system";
+
+describe("buildSearchFilesTool", () => {
+  let fileSystem: VirtualFileSystem;
+  let tool: ReturnType<typeof buildSearchFilesTool>;
+
+  beforeEach(() => {
+    fileSystem = new VirtualFileSystem();
+    fileSystem.createFile(
+      "/App.jsx",
+      "import Card from '@/components/Card';\n\nexport default function App() {\n  return <Card />;\n}"
+    );
+    fileSystem.createFile(
+      "/components/Card.jsx",
+      "import { useState } from 'react';\n\nexport default function Card() {\n  const [open, setOpen] = useState(false);\n  return <div />;\n}"
+    );
+    fileSystem.createFile("/styles.css", "body { margin: 0; }");
+    tool = buildSearchFilesTool(fileSystem);
+  });
+
+  test("lists files matching a glob without a pattern", async () => {
+    expect(await tool.execute({ glob: "*.jsx" })).toBe(
+      "/App.jsx\n/components/Card.jsx"
+    );
+  });
+
+  test("searches contents with line numbers", async () => {
+    const result = await tool.execute({ pattern: "useState" });
+
+    expect(result).toBe(
+      [
+        "/components/Card.jsx",
+        "1:import { useState } from 'react';",
+        "4:  const [open, setOpen] = useState(false);",
+        "",
+        "2 match(es) in 1 file(s)",
+      ].join("\n")
+    );
+  });
+
+  test("includes context lines and separates distant groups", async () => {
+    const result = await tool.execute({
+      pattern: "^import|return",
+      glob: "components/*.jsx",
+      context_lines: 1,
+    });
+
+    expect(result).toBe(
+      [
+        "/components/Card.jsx",
+        "1:import { useState } from 'react';",
+        "2-",
+        "--",
+        "4-  const [open, setOpen] = useState(false);",
+        "5:  return <div />;",
+        "6-}",
+        "",
+        "2 match(es) in 1 file(s)",
+      ].join("\n")
+    );
+  });
+
+  test("stops at max_results", async () => {
+    const result = await tool.execute({ pattern: "e", max_results: 2 });
+
+    expect(result).toBe(
+      [
+        "/App.jsx",
+        "1:import Card from '@/components/Card';",
+        "3:export default function App() {",
+        "",
+        "(showing the first 2 matches; narrow the pattern or glob to see more)",
+      ].join("\n")
+    );
+  });
+
+  test("supports case-insensitive search", async () => {
+    const result = await tool.execute({
+      pattern: "USESTATE",
+      ignore_case: true,
+      max_results: 1,
+    });
+
+    expect(result).toContain("1:import { useState } from 'react';");
+  });
+
+  test("reports invalid regular expressions", async () => {
+    const result = await tool.execute({ pattern: "(" });
+
+    expect(result).toMatch(/^Error: Invalid regular expression/);
+  });
+
+  test("reports when nothing matches", async () => {
+    expect(await tool.execute({ pattern: "useEffect", glob: "*.jsx" })).toBe(
+      "No matches for /useEffect/ in *.jsx"
+    );
+    expect(await tool.execute({ glob: "*.ts" })).toBe("No files match *.ts");
+  });
+});
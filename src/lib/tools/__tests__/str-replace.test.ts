@@ -169,7 +169,7 @@ export function Component() {
       expect(fileSystem.readFile("/test.txt")).toBe("Hello, Universe!");
     });
 
-    test("replaces all occurrences of string", async () => {
+    test("replaces all occurrences of string with replace_all", async () => {
       fileSystem.createFile("/test.txt", "foo bar foo baz foo");
 
       const result = await tool.execute({
@@ -177,12 +177,27 @@ export function Component() {
         path: "/test.txt",
         old_str: "foo",
         new_str: "qux",
+        replace_all: true,
       });
 
       expect(result).toBe("Replaced 3 occurrence(s) of the string in /test.txt");
       expect(fileSystem.readFile("/test.txt")).toBe("qux bar qux baz qux");
     });
 
+    test("returns error when old_str matches more than once", async () => {
+      fileSystem.createFile("/test.txt", "foo\nfoo");
+
+      const result = await tool.execute({
+        command: "str_replace",
+        path: "/test.txt",
+        old_str: "foo",
+        new_str: "qux",
+      });
+
+      expect(result).toContain("Error: Found 2 matches of the string at lines 1, 2");
+      expect(fileSystem.readFile("/test.txt")).toBe("foo\nfoo");
+    });
+
     test("handles empty old_str (returns error)", async () => {
       fileSystem.createFile("/test.txt", "content");
 
@@ -384,15 +399,91 @@ export function Component() {
   });
 
   describe("undo_edit command", () => {
-    test("returns error message as undo is not supported", async () => {
+    test("reverts the last str_replace", async () => {
+      fileSystem.createFile("/test.txt", "hello world");
+
+      await tool.execute({
+        command: "str_replace",
+        path: "/test.txt",
+        old_str: "world",
+        new_str: "universe",
+      });
+
       const result = await tool.execute({
         command: "undo_edit",
         path: "/test.txt",
       });
 
-      expect(result).toBe(
-        "Error: undo_edit command is not supported in this version. Use str_replace to revert changes."
-      );
+      expect(result).toBe("Last edit to /test.txt undone");
+      expect(fileSystem.readFile("/test.txt")).toBe("hello world");
+    });
+
+    test("removes a file created by the create command", async () => {
+      await tool.execute({
+        command: "create",
+        path: "/new.txt",
+        file_text: "content",
+      });
+
+      await tool.execute({
+        command: "undo_edit",
+        path: "/new.txt",
+      });
+
+      expect(fileSystem.exists("/new.txt")).toBe(false);
+    });
+
+    test("returns error when there is no edit history", async () => {
+      const result = await tool.execute({
+        command: "undo_edit",
+        path: "/test.txt",
+      });
+
+      expect(result).toBe("Error: No edit history found for /test.txt");
+    });
+  });
+
+  describe("multi_edit command", () => {
+    test("applies every edit to the file", async () => {
+      fileSystem.createFile("/test.txt", "hello world");
+
+      const result = await tool.execute({
+        command: "multi_edit",
+        path: "/test.txt",
+        edits: [
+          { old_str: "hello", new_str: "goodbye" },
+          { old_str: "world", new_str: "moon" },
+        ],
+      });
+
+      expect(result).toBe("Applied 2 edit(s) to /test.txt");
+      expect(fileSystem.readFile("/test.txt")).toBe("goodbye moon");
+    });
+
+    test("returns error when no edits are given", async () => {
+      fileSystem.createFile("/test.txt", "hello world");
+
+      const result = await tool.execute({
+        command: "multi_edit",
+        path: "/test.txt",
+      });
+
+      expect(result).toBe("Error: No edits provided");
+    });
+  });
+
+  describe("apply_patch command", () => {
+    test("applies a unified diff", async () => {
+      fileSystem.createFile("/test.txt", "hello\nworld");
+
+      const result = await tool.execute({
+        command: "apply_patch",
+        path: "/",
+        patch: "--- a/test.txt\n+++ b/test.txt\n@@ -1,2 +1,2 @@\n hello\n-world\n+moon",
+      });
+
+      expect(result).toBe("Patch applied:\nModified /test.txt");
+      expect(fileSystem.readFile("/test.txt")).toBe("hello\nmoon");
     });
   });
 
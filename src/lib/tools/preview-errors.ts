@@ -0,0 +1,23 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+  formatPreviewError,
+  type PreviewError,
+} from "@/lib/transform/preview-bridge";
+
+export function buildPreviewErrorsTool(errors: PreviewError[]) {
+  return tool({
+    description:
+      "Read the runtime and syntax errors the live preview reported when this request was sent. Use it to check whether the current files crash before and after fixing them.",
+    parameters: z.object({}),
+    execute: async () => {
+      if (errors.length === 0) {
+        return "No errors in the preview";
+      }
+
+      return errors
+        .map((error, index) => `Error ${index + 1}:\n${formatPreviewError(error)}`)
+        .join("\n\n");
+    },
+  });
+}
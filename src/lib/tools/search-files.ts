@@ -0,0 +1,112 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { VirtualFileSystem, type SearchResults } from "../file-system";
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_RESULTS_LIMIT = 200;
+const MAX_CONTEXT_LINES = 10;
+
+// Formats results like grep: "12:" for matching lines, "11-" for context,
+// and "--" between context groups that aren't adjacent
+function formatSearchResults(
+  results: SearchResults,
+  maxResults: number,
+  contextLines: number
+) {
+  const sections = results.files.map((file) => {
+    const output = [file.path];
+    file.lines.forEach(({ line, text, isMatch }, index) => {
+      const isGap = index > 0 && line !== file.lines[index - 1].line + 1;
+      if (contextLines > 0 && isGap) {
+        output.push("--");
+      }
+      output.push(`${line}${isMatch ? ":" : "-"}${text}`);
+    });
+    return output.join("\n");
+  });
+
+  const summary = results.truncated
+    ? `(showing the first ${maxResults} matches; narrow the pattern or glob to see more)`
+    : `${results.matchCount} match(es) in ${results.files.length} file(s)`;
+
+  return `${sections.join("\n\n")}\n\n${summary}`;
+}
+
+export function buildSearchFilesTool(fileSystem: VirtualFileSystem) {
+  return tool({
+    description:
+      'Search the virtual file system. Without a pattern, lists the files whose paths match the glob. With a pattern, searches file contents with a regular expression and returns matching lines with line numbers. Globs support *, ?, ** and {a,b}; a glob without "/" matches file names in any directory.',
+    parameters: z.object({
+      pattern: z
+        .string()
+        .optional()
+        .describe("Regular expression to search file contents for"),
+      glob: z
+        .string()
+        .optional()
+        .describe('Only include files whose path matches, e.g. "**/*.jsx"'),
+      ignore_case: z
+        .boolean()
+        .optional()
+        .describe("Match the pattern case-insensitively"),
+      context_lines: z
+        .number()
+        .optional()
+        .describe(`Lines of context around each match (max ${MAX_CONTEXT_LINES})`),
+      max_results: z
+        .number()
+        .optional()
+        .describe(
+          `Maximum matches or files to return (default ${DEFAULT_MAX_RESULTS}, max ${MAX_RESULTS_LIMIT})`
+        ),
+    }),
+    execute: async ({
+      pattern,
+      glob,
+      ignore_case,
+      context_lines,
+      max_results,
+    }) => {
+      const maxResults = Math.min(
+        Math.max(1, max_results ?? DEFAULT_MAX_RESULTS),
+        MAX_RESULTS_LIMIT
+      );
+
+      if (!pattern) {
+        const paths = fileSystem.findFiles(glob);
+        if (paths.length === 0) {
+          return `No files match ${glob || "**/*"}`;
+        }
+        const shown = paths.slice(0, maxResults).join("\n");
+        return paths.length > maxResults
+          ? `${shown}\n\n(showing ${maxResults} of ${paths.length} files)`
+          : shown;
+      }
+
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, ignore_case ? "i" : "");
+      } catch (error) {
+        return `Error: Invalid regular expression: ${
+          error instanceof Error ? error.message : pattern
+        }`;
+      }
+
+      const contextLines = Math.min(
+        Math.max(0, context_lines ?? 0),
+        MAX_CONTEXT_LINES
+      );
+      const results = fileSystem.searchFiles(regex, {
+        glob,
+        contextLines,
+        maxResults,
+      });
+
+      if (results.matchCount === 0) {
+        return `No matches for /${pattern}/${glob ? ` in ${glob}` : ""}`;
+      }
+
+      return formatSearchResults(results, maxResults, contextLines);
+    },
+  });
+}
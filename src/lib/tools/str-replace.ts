@@ -3,18 +3,38 @@ import { VirtualFileSystem } from "@/lib/file-system";
 import { tool } from "ai";
 
 const TextEditorParameters = z.object({
-  command: z.enum(["view", "create", "str_replace", "insert", "undo_edit"]),
+  command: z.enum([
+    "view",
+    "create",
+    "str_replace",
+    "insert",
+    "undo_edit",
+    "multi_edit",
+    "apply_patch",
+  ]),
   path: z.string(),
   file_text: z.string().optional(),
   insert_line: z.number().optional(),
   new_str: z.string().optional(),
   old_str: z.string().optional(),
+  replace_all: z.boolean().optional(),
   view_range: z.array(z.number()).optional(),
+  edits: z
+    .array(
+      z.object({
+        old_str: z.string(),
+        new_str: z.string(),
+        replace_all: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  patch: z.string().optional(),
 });
 
 export const buildStrReplaceTool = (fileSystem: VirtualFileSystem) => {
   return tool({
-    description: "A tool for viewing, creating, and editing files in the virtual filesystem",
+    description:
+      'A tool for viewing, creating, and editing files in the virtual filesystem. "str_replace" requires old_str to match exactly once unless replace_all is set. "multi_edit" applies the old_str/new_str pairs in "edits" to "path" in order, and applies none of them if any fails. "apply_patch" applies the unified diff in "patch" to any number of files (set "path" to "/"), and changes no files if any hunk fails.',
     parameters: TextEditorParameters,
     execute: async ({
       command,
@@ -23,7 +43,10 @@ export const buildStrReplaceTool = (fileSystem: VirtualFileSystem) => {
       insert_line,
       new_str,
       old_str,
+      replace_all,
       view_range,
+      edits,
+      patch,
     }) => {
       switch (command) {
         case "view":
@@ -36,13 +59,24 @@ export const buildStrReplaceTool = (fileSystem: VirtualFileSystem) => {
           return fileSystem.createFileWithParents(path, file_text || "");
 
         case "str_replace":
-          return fileSystem.replaceInFile(path, old_str || "", new_str || "");
+          return fileSystem.replaceInFile(
+            path,
+            old_str || "",
+            new_str || "",
+            replace_all === true
+          );
 
         case "insert":
           return fileSystem.insertInFile(path, insert_line || 0, new_str || "");
 
         case "undo_edit":
-          return `Error: undo_edit command is not supported in this version. Use str_replace to revert changes.`;
+          return fileSystem.undoEdit(path);
+
+        case "multi_edit":
+          return fileSystem.multiEdit(path, edits || []);
+
+        case "apply_patch":
+          return fileSystem.applyPatch(patch || "");
       }
     },
   });
@@ -1,22 +1,42 @@
 import { test, expect, vi } from "vitest";
 import {
   transformJSX,
+  resolveImportPath,
   createBlobURL,
   createImportMap,
   createPreviewHTML,
 } from "../jsx-transformer";
 import * as Babel from "@babel/standalone";
 
+const { mockTransform } = vi.hoisted(() => ({
+  mockTransform: { current: (code: string, options: any): any => ({ code }) },
+}));
+
 // Mock @babel/standalone
-vi.mock("@babel/standalone", () => ({
-  transform: vi.fn((code, options) => {
+vi.mock("@babel/standalone", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@babel/standalone")>();
+
+  mockTransform.current = (code, options) => {
+    // Run only the plugins (e.g. dependency collection) so JSX is left as-is
+    const result = actual.transform(code, {
+      filename: options.filename,
+      sourceFileName: options.sourceFileName,
+      // Keep the map but not the inline comment, so code stays comparable
+      sourceMaps: options.sourceMaps ? true : undefined,
+      plugins: options.plugins,
+      parserOpts: { plugins: ["jsx", "typescript"] },
+    });
     // Simple mock that returns the code with some transformations
     if (options.filename?.endsWith(".tsx") || options.filename?.endsWith(".ts")) {
-      return { code: code.replace(/const/g, "var") };
+      return { code: result.code!.replace(/const/g, "var") };
     }
-    return { code };
-  }),
-}));
+    return { code: result.code, map: result.map };
+  };
+
+  return {
+    transform: vi.fn((code, options) => mockTransform.current(code, options)),
+  };
+});
 
 // Mock URL.createObjectURL
 global.URL.createObjectURL = vi.fn((blob) => {
@@ -56,6 +76,65 @@ test("transformJSX collects imports from code", () => {
   expect(result.missingImports?.size).toBe(3);
 });
 
+test("transformJSX returns structured dependencies for every import form", () => {
+  const code = `
+    import React from 'react';
+    import * as utils from '@/lib/utils';
+    import {
+      Button,
+      Card as Panel,
+    } from './components';
+    import './polyfills';
+    export { helper } from './helpers';
+    export * from './constants';
+    const Lazy = () => import('./Lazy');
+  `;
+  const result = transformJSX(code, "test.jsx", new Set());
+
+  expect(result.dependencies).toEqual([
+    { kind: "default", source: "react", imported: "default", local: "React" },
+    { kind: "namespace", source: "@/lib/utils", imported: "*", local: "utils" },
+    { kind: "named", source: "./components", imported: "Button", local: "Button" },
+    { kind: "named", source: "./components", imported: "Card", local: "Panel" },
+    { kind: "side-effect", source: "./polyfills" },
+    { kind: "re-export", source: "./helpers", imported: "helper" },
+    { kind: "re-export", source: "./constants", imported: "*" },
+    { kind: "dynamic", source: "./Lazy" },
+  ]);
+  expect(result.missingImports).toEqual(
+    new Set([
+      "react",
+      "@/lib/utils",
+      "./components",
+      "./polyfills",
+      "./helpers",
+      "./constants",
+      "./Lazy",
+    ])
+  );
+});
+
+test("transformJSX ignores type-only imports in TypeScript files", () => {
+  const code = `
+    import type { Props } from './types';
+    import { type Theme, useTheme } from './theme';
+  `;
+  const result = transformJSX(code, "test.tsx", new Set());
+
+  expect(result.dependencies).toEqual([
+    { kind: "named", source: "./theme", imported: "useTheme", local: "useTheme" },
+  ]);
+});
+
+test("transformJSX keeps CSS module bindings defined", () => {
+  const code = `import styles from './Card.module.css';`;
+  const result = transformJSX(code, "test.jsx", new Set());
+
+  expect(result.cssImports).toContain("./Card.module.css");
+  expect(result.code).toContain("const styles = {}");
+  expect(result.dependencies).toEqual([]);
+});
+
 test("transformJSX handles transform errors gracefully", () => {
   // Mock Babel to throw an error
   vi.mocked(Babel.transform).mockImplementationOnce(() => {
@@ -68,7 +147,7 @@ test("transformJSX handles transform errors gracefully", () => {
   expect(result.error).toBe("Transform failed");
   
   // Reset the mock
-  vi.mocked(Babel.transform).mockReset();
+  vi.mocked(Babel.transform).mockImplementation(mockTransform.current);
 });
 
 test("createBlobURL creates blob with correct mime type", () => {
@@ -105,6 +184,16 @@ test("createImportMap includes React CDN imports", () => {
   expect(parsed.imports).toHaveProperty("react/jsx-runtime", "https://esm.sh/react@19/jsx-runtime");
 });
 
+test("createImportMap points React at the local runtime in local mode", () => {
+  const result = createImportMap(new Map(), "local");
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports).toHaveProperty("react", "/api/preview-runtime/react.js");
+  expect(parsed.imports).toHaveProperty("react-dom/client", "/api/preview-runtime/react-dom/client.js");
+  expect(parsed.imports).toHaveProperty("react/jsx-runtime", "/api/preview-runtime/react/jsx-runtime.js");
+  expect(parsed.imports).toHaveProperty("scheduler", "/api/preview-runtime/scheduler.js");
+});
+
 test("createImportMap transforms JavaScript and TypeScript files", () => {
   const files = new Map([
     ["/App.jsx", "export default function App() { return <div>App</div>; }"],
@@ -154,6 +243,63 @@ test("createImportMap creates placeholder modules for missing imports", () => {
   expect(parsed.imports["./components/Button"]).toMatch(/^blob:mock-url-/);
 });
 
+test("createImportMap placeholder modules export the imported names", async () => {
+  const files = new Map([
+    ["/App.jsx", "import { Header, useTheme } from '@/lib/theme-kit'; export default function App() {}"],
+  ]);
+
+  const blobs: Blob[] = [];
+  vi.mocked(URL.createObjectURL).mockImplementation((blob) => {
+    blobs.push(blob as Blob);
+    return `blob:mock-url-${blobs.length}`;
+  });
+
+  const result = createImportMap(files);
+  const parsed = JSON.parse(result.importMap);
+  const index = Number(parsed.imports["@/lib/theme-kit"].replace("blob:mock-url-", ""));
+  const placeholder = await new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blobs[index - 1]);
+  });
+
+  expect(placeholder).toContain("const themekit = function()");
+  expect(placeholder).toContain("export default themekit;");
+  expect(placeholder).toContain("themekit as Header");
+  expect(placeholder).toContain("themekit as useTheme");
+});
+
+test("createImportMap does not override the pinned React URL", () => {
+  const files = new Map([
+    ["/App.jsx", "import React from 'react'; export default function App() {}"],
+  ]);
+
+  const result = createImportMap(files);
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports.react).toBe("https://esm.sh/react@19");
+});
+
+test("createImportMap inlines modules as data URLs for isolated previews", () => {
+  vi.mocked(URL.createObjectURL).mockClear();
+  const files = new Map([
+    ["/App.jsx", "import Card from './Card'; export default function App() {}"],
+  ]);
+
+  const result = createImportMap(files, "cdn", true);
+  const parsed = JSON.parse(result.importMap);
+
+  expect(URL.createObjectURL).not.toHaveBeenCalled();
+  expect(parsed.imports["/App.jsx"]).toMatch(
+    /^data:application\/javascript;charset=utf-8,/
+  );
+  expect(decodeURIComponent(parsed.imports["/App.jsx"])).toContain(
+    "export default function App()"
+  );
+  expect(parsed.imports["./Card"]).toMatch(/^data:application\/javascript/);
+  expect(Object.keys(result.sourceFiles)).toEqual([parsed.imports["/App.jsx"]]);
+});
+
 test("createImportMap handles @/ alias imports", () => {
   const files = new Map([
     ["/App.jsx", "import { utils } from '@/lib/utils'; export default function App() {}"],
@@ -188,7 +334,13 @@ test("createPreviewHTML generates valid HTML with import map", () => {
 
 test("createPreviewHTML includes Tailwind CSS", () => {
   const html = createPreviewHTML("/App.jsx", "{}");
-  expect(html).toContain("https://cdn.tailwindcss.com");
+  expect(html).toContain("https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4");
+});
+
+test("createPreviewHTML loads the local Tailwind runtime in local mode", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [], "local");
+  expect(html).toContain('<script src="/api/preview-runtime/tailwind.js"></script>');
+  expect(html).not.toContain("https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4");
 });
 
 test("createPreviewHTML includes error boundary", () => {
@@ -198,6 +350,57 @@ test("createPreviewHTML includes error boundary", () => {
   expect(html).toContain("error-boundary");
 });
 
+test("createPreviewHTML injects the preview bridge before the app scripts", () => {
+  const html = createPreviewHTML("/App.jsx", "{}");
+  const bridgeIndex = html.indexOf("window.__previewBridge =");
+  expect(bridgeIndex).toBeGreaterThan(-1);
+  expect(bridgeIndex).toBeLessThan(html.indexOf('<script type="importmap">'));
+  expect(html).toContain("window.__previewBridge.reportBoundaryError");
+});
+
+test("createImportMap maps blob URLs back to virtual paths", () => {
+  const files = new Map([
+    ["/App.jsx", "export default function App() { return null; }"],
+    ["/styles.css", "body { margin: 0; }"],
+  ]);
+
+  const result = createImportMap(files);
+  const imports = JSON.parse(result.importMap).imports;
+
+  expect(Object.keys(result.sourceFiles)).toEqual([imports["/App.jsx"]]);
+  expect(result.sourceFiles[imports["/App.jsx"]]).toMatchObject({
+    path: "/App.jsx",
+    map: { sources: ["/App.jsx"] },
+  });
+});
+
+test("transformJSX emits an inline source map named after the virtual path", () => {
+  const result = transformJSX(
+    "export default function Card() {\n  return <div />;\n}",
+    "/components/Card.jsx",
+    new Set()
+  );
+
+  expect(result.map?.sources).toEqual(["/components/Card.jsx"]);
+  expect(Babel.transform).toHaveBeenCalledWith(
+    expect.any(String),
+    expect.objectContaining({
+      sourceFileName: "/components/Card.jsx",
+      sourceMaps: "both",
+    })
+  );
+});
+
+test("createPreviewHTML makes syntax errors open their location", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [
+    { path: "/App.jsx", error: "Unexpected token (3:4)" },
+  ]);
+
+  expect(html).toContain(
+    'data-preview-file="/App.jsx" data-preview-line="3" data-preview-column="5"'
+  );
+});
+
 test("createPreviewHTML handles invalid import map gracefully", () => {
   // Mock console.error to prevent noise in test output
   const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
@@ -239,14 +442,79 @@ test("integration: full transformation pipeline works", () => {
   expect(parsed.imports["/Button.jsx"]).toMatch(/^blob:mock-url-/);
 
   // Import variations should exist
-  expect(parsed.imports["./Button"]).toBeDefined();
   expect(parsed.imports["/Button"]).toBeDefined();
 
+  // The relative import resolves to the real file instead of a placeholder
+  expect(parsed.imports["./Button"]).toBeUndefined();
+
   // Create preview HTML
   const html = createPreviewHTML("/App.jsx", result.importMap);
   expect(html).toContain(parsed.imports["/App.jsx"]);
 });
 
+test("resolveImportPath resolves extensions and index files", () => {
+  const existing = new Set([
+    "/components/Button.jsx",
+    "/components/ui/index.tsx",
+    "/lib/utils.js",
+  ]);
+
+  expect(resolveImportPath("/components/Card.jsx", "./Button", existing)).toBe(
+    "/components/Button.jsx"
+  );
+  expect(resolveImportPath("/components/Card.jsx", "./Button.jsx", existing)).toBe(
+    "/components/Button.jsx"
+  );
+  expect(resolveImportPath("/components/Card.jsx", "./ui", existing)).toBe(
+    "/components/ui/index.tsx"
+  );
+  expect(resolveImportPath("/components/Card.jsx", "../lib/utils", existing)).toBe(
+    "/lib/utils.js"
+  );
+  expect(resolveImportPath("/components/Card.jsx", "./Missing", existing)).toBeNull();
+  expect(resolveImportPath("/components/Card.jsx", "@/lib/utils", existing)).toBeNull();
+});
+
+test("transformJSX rewrites resolvable relative imports to absolute paths", () => {
+  const code = `import Button from './Button';\nimport Missing from './Missing';`;
+  const result = transformJSX(
+    code,
+    "/components/Card.jsx",
+    new Set(["/components/Button.jsx"])
+  );
+
+  expect(result.code).toContain(`from "/components/Button.jsx"`);
+  expect(result.code).toContain(`from './Missing'`);
+  expect(result.dependencies?.[0]).toEqual({
+    kind: "default",
+    source: "./Button",
+    resolved: "/components/Button.jsx",
+    imported: "default",
+    local: "Button",
+  });
+});
+
+test("createImportMap resolves relative imports between component folders", () => {
+  const files = new Map([
+    ["/App.jsx", "import Card from './components/Card'; export default function App() {}"],
+    ["/components/Card.jsx", "import Button from './Button'; import { cn } from '../lib'; export default function Card() {}"],
+    ["/components/Button.jsx", "export default function Button() {}"],
+    ["/lib/index.js", "export const cn = () => '';"],
+  ]);
+
+  const result = createImportMap(files);
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["/components/Card.jsx"]).toMatch(/^blob:mock-url-/);
+  expect(parsed.imports["/components/Button.jsx"]).toMatch(/^blob:mock-url-/);
+  expect(parsed.imports["/lib/index.js"]).toMatch(/^blob:mock-url-/);
+
+  // No placeholders for imports that resolved to real files
+  expect(parsed.imports["./components/Card"]).toBeUndefined();
+  expect(parsed.imports["./Button"]).toBeUndefined();
+  expect(parsed.imports["../lib"]).toBeUndefined();
+});
+
 // CSS Support Tests
 test("transformJSX detects CSS imports", () => {
   const code = `
@@ -358,7 +626,7 @@ test("createPreviewHTML preserves existing styles with CSS injection", () => {
   const html = createPreviewHTML("/App.jsx", "{}", customStyles);
   
   // Should have both Tailwind and custom styles
-  expect(html).toContain("https://cdn.tailwindcss.com");
+  expect(html).toContain("https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4");
   expect(html).toContain("h1 { color: blue; }");
   // Existing styles should remain
   expect(html).toContain("body {");
@@ -403,10 +671,7 @@ test("createImportMap handles syntax errors gracefully", () => {
       throw new Error("Unexpected token: Missing closing tag");
     }
     // Return transformed code for other files
-    if (options.filename?.endsWith(".tsx") || options.filename?.endsWith(".ts")) {
-      return { code: code.replace(/const/g, "var") };
-    }
-    return { code };
+    return mockTransform.current(code, options);
   });
   
   const files = new Map([
@@ -432,7 +697,7 @@ test("createImportMap handles syntax errors gracefully", () => {
   expect(result.errors[0].error).toBe("Unexpected token: Missing closing tag");
   
   // Restore mock
-  vi.mocked(Babel.transform).mockReset();
+  vi.mocked(Babel.transform).mockImplementation(mockTransform.current);
 });
 
 test("createPreviewHTML displays syntax errors", () => {
@@ -461,7 +726,7 @@ test("files with syntax errors are not included in import map", () => {
       throw new Error("Syntax error in BadComponent");
     }
     // Return default mock behavior for other files
-    return { code };
+    return mockTransform.current(code, options);
   });
   
   const files = new Map([
@@ -492,5 +757,5 @@ test("files with syntax errors are not included in import map", () => {
   expect(result.errors.some(e => e.path === "/BadComponent.jsx")).toBe(true);
   
   // Restore mock
-  vi.mocked(Babel.transform).mockReset();
+  vi.mocked(Babel.transform).mockImplementation(mockTransform.current);
 });
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { test, expect, vi, afterEach } from "vitest";
+import * as Babel from "@babel/standalone";
+import type { EncodedSourceMap } from "@jridgewell/trace-mapping";
+import {
+  PREVIEW_MESSAGE_SOURCE,
+  createBridgeScript,
+  isPreviewBridgeMessage,
+  isPreviewNavigateMessage,
+  locateSource,
+  mapStackTrace,
+} from "../preview-bridge";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+test("isPreviewBridgeMessage accepts only bridge messages", () => {
+  expect(
+    isPreviewBridgeMessage({
+      source: PREVIEW_MESSAGE_SOURCE,
+      kind: "console",
+      level: "log",
+      message: "hello",
+    })
+  ).toBe(true);
+  expect(isPreviewBridgeMessage({ source: "other", message: "hello" })).toBe(
+    false
+  );
+  expect(isPreviewBridgeMessage("hello")).toBe(false);
+  expect(isPreviewBridgeMessage(null)).toBe(false);
+});
+
+test("locateSource returns the first frame from a virtual file", () => {
+  const stack = [
+    "TypeError: Cannot read properties of undefined",
+    "    at renderWithHooks (blob:http://localhost:3000/react-dom:10:5)",
+    "    at Card (blob:http://localhost:3000/abc-123:14:22)",
+    "    at App (blob:http://localhost:3000/def-456:3:9)",
+  ].join("\n");
+
+  expect(
+    locateSource(stack, {
+      "blob:http://localhost:3000/abc-123": { path: "/components/Card.jsx" },
+      "blob:http://localhost:3000/def-456": { path: "/App.jsx" },
+    })
+  ).toEqual({ file: "/components/Card.jsx", line: 14, column: 22 });
+});
+
+test("locateSource handles Firefox style frames", () => {
+  const stack = "Card@blob:http://localhost:3000/abc-123:7:11";
+  expect(
+    locateSource(stack, {
+      "blob:http://localhost:3000/abc-123": { path: "/Card.jsx" },
+    })
+  ).toEqual({ file: "/Card.jsx", line: 7, column: 11 });
+});
+
+test("isPreviewNavigateMessage accepts only navigate messages", () => {
+  expect(
+    isPreviewNavigateMessage({
+      source: PREVIEW_MESSAGE_SOURCE,
+      kind: "navigate",
+      stack: "at App (blob:x:1:1)",
+    })
+  ).toBe(true);
+  expect(
+    isPreviewNavigateMessage({
+      source: PREVIEW_MESSAGE_SOURCE,
+      kind: "console",
+      level: "log",
+      message: "hello",
+    })
+  ).toBe(false);
+});
+
+// Transformed code gains an import line, so generated lines are off by one
+const transformed = Babel.transform(
+  [
+    "export default function Card({ items }) {",
+    "  return <ul>{items.map((item) => <li>{item}</li>)}</ul>;",
+    "}",
+  ].join("\n"),
+  {
+    filename: "/components/Card.jsx",
+    sourceFileName: "/components/Card.jsx",
+    sourceMaps: true,
+    presets: [["react", { runtime: "automatic" }]],
+  }
+);
+const cardUrl = "blob:http://localhost:3000/card";
+const cardSource = {
+  path: "/components/Card.jsx",
+  map: transformed.map as EncodedSourceMap,
+};
+
+function generatedPosition(needle: string) {
+  const lines = transformed.code!.split("\n");
+  const line = lines.findIndex((text) => text.includes(needle));
+  return { line: line + 1, column: lines[line].indexOf(needle) + 1 };
+}
+
+test("locateSource maps frames through the source map", () => {
+  const { line, column } = generatedPosition("items.map");
+
+  expect(
+    locateSource(`at Card (${cardUrl}:${line}:${column})`, {
+      [cardUrl]: cardSource,
+    })
+  ).toEqual({ file: "/components/Card.jsx", line: 2, column: 15 });
+});
+
+test("mapStackTrace rewrites blob frames to virtual file positions", () => {
+  const { line, column } = generatedPosition("items.map");
+  const stack = [
+    "TypeError: Cannot read properties of undefined (reading 'map')",
+    `    at Card (${cardUrl}:${line}:${column})`,
+    "    at renderWithHooks (blob:http://localhost:3000/react-dom:10:5)",
+  ].join("\n");
+
+  expect(mapStackTrace(stack, { [cardUrl]: cardSource })).toBe(
+    [
+      "TypeError: Cannot read properties of undefined (reading 'map')",
+      "    at Card (/components/Card.jsx:2:15)",
+      "    at renderWithHooks (blob:http://localhost:3000/react-dom:10:5)",
+    ].join("\n")
+  );
+  expect(mapStackTrace(undefined, {})).toBeUndefined();
+});
+
+test("locateSource returns undefined without a matching frame", () => {
+  expect(locateSource(undefined, {})).toBeUndefined();
+  expect(
+    locateSource("at foo (https://example.com/app.js:1:1)", {})
+  ).toBeUndefined();
+});
+
+test("bridge script forwards console calls to the parent window", () => {
+  const postMessage = vi
+    .spyOn(window.parent, "postMessage")
+    .mockImplementation(() => {});
+  const originals = { ...console };
+  console.warn = vi.fn();
+
+  try {
+    new Function(createBridgeScript())();
+    console.warn("Low stock:", { count: 2 });
+
+    expect(postMessage).toHaveBeenCalledWith(
+      {
+        source: PREVIEW_MESSAGE_SOURCE,
+        kind: "console",
+        level: "warn",
+        message: 'Low stock: {"count":2}',
+        stack: undefined,
+      },
+      "*"
+    );
+  } finally {
+    Object.assign(console, originals);
+  }
+});
@@ -1,21 +1,207 @@
 import * as Babel from "@babel/standalone";
+import type { PluginObj, types as BabelTypes } from "@babel/core";
+import type { EncodedSourceMap } from "@jridgewell/trace-mapping";
+import {
+  PreviewRuntimeMode,
+  getPreviewRuntimeMode,
+  getRuntimeImports,
+  getTailwindScriptUrl,
+} from "./preview-runtime";
+import { createBridgeScript, type PreviewSource } from "./preview-bridge";
+
+export type DependencyKind =
+  | "default"
+  | "named"
+  | "namespace"
+  | "side-effect"
+  | "re-export"
+  | "dynamic";
+
+export interface DependencySpecifier {
+  kind: DependencyKind;
+  source: string;
+  // Absolute virtual path a relative source resolved to
+  resolved?: string;
+  // Exported name being imported or re-exported ("*" for export-all)
+  imported?: string;
+  // Local binding name, when the specifier creates one
+  local?: string;
+}
 
 export interface TransformResult {
   code: string;
   error?: string;
   missingImports?: Set<string>;
   cssImports?: Set<string>;
+  dependencies?: DependencySpecifier[];
+  // Source map back to the virtual file, also inlined into code
+  map?: EncodedSourceMap;
+}
+
+function getModuleExportName(
+  node: BabelTypes.Identifier | BabelTypes.StringLiteral
+): string {
+  return node.type === "Identifier" ? node.name : node.value;
+}
+
+// Babel plugin that records every module dependency of the file and strips
+// CSS imports, which are inlined into the preview as <style> instead.
+// Relative specifiers that resolve to a virtual file are rewritten to its
+// absolute path, which the import map then points at the file's blob URL.
+function createDependencyCollector(
+  dependencies: DependencySpecifier[],
+  cssImports: Set<string>,
+  resolveImport: (source: string) => string | null
+) {
+  const resolveSource = (literal: BabelTypes.StringLiteral) => {
+    const source = literal.value;
+    const resolved = resolveImport(source);
+    if (resolved) {
+      literal.value = resolved;
+      delete literal.extra;
+    }
+    return resolved ? { source, resolved } : { source };
+  };
+
+  return ({ types: t }: { types: typeof BabelTypes }): PluginObj => ({
+    visitor: {
+      ImportDeclaration(path) {
+        const { node } = path;
+
+        // Skip type-only imports and ones injected by presets (no source
+        // location), such as the automatic JSX runtime
+        if (node.importKind === "type" || !node.loc) return;
+
+        if (node.source.value.endsWith(".css")) {
+          cssImports.add(node.source.value);
+          // Keep CSS module bindings defined so the component still renders
+          const bindings = node.specifiers.map((specifier) =>
+            t.variableDeclarator(
+              t.identifier(specifier.local.name),
+              t.objectExpression([])
+            )
+          );
+          if (bindings.length > 0) {
+            path.replaceWith(t.variableDeclaration("const", bindings));
+          } else {
+            path.remove();
+          }
+          return;
+        }
+
+        const source = resolveSource(node.source);
+
+        if (node.specifiers.length === 0) {
+          dependencies.push({ kind: "side-effect", ...source });
+          return;
+        }
+
+        for (const specifier of node.specifiers) {
+          if (specifier.type === "ImportDefaultSpecifier") {
+            dependencies.push({
+              kind: "default",
+              ...source,
+              imported: "default",
+              local: specifier.local.name,
+            });
+          } else if (specifier.type === "ImportNamespaceSpecifier") {
+            dependencies.push({
+              kind: "namespace",
+              ...source,
+              imported: "*",
+              local: specifier.local.name,
+            });
+          } else if (specifier.importKind !== "type") {
+            dependencies.push({
+              kind: "named",
+              ...source,
+              imported: getModuleExportName(specifier.imported),
+              local: specifier.local.name,
+            });
+          }
+        }
+      },
+
+      ExportNamedDeclaration(path) {
+        const { node } = path;
+        if (!node.source || node.exportKind === "type") return;
+
+        const source = resolveSource(node.source);
+        for (const specifier of node.specifiers) {
+          dependencies.push({
+            kind: "re-export",
+            ...source,
+            imported:
+              specifier.type === "ExportSpecifier"
+                ? getModuleExportName(specifier.local)
+                : specifier.type === "ExportDefaultSpecifier"
+                ? "default"
+                : "*",
+          });
+        }
+      },
+
+      ExportAllDeclaration(path) {
+        const { node } = path;
+        if (node.exportKind === "type") return;
+
+        dependencies.push({
+          kind: "re-export",
+          ...resolveSource(node.source),
+          imported: "*",
+        });
+      },
+
+      CallExpression(path) {
+        const { node } = path;
+        const [argument] = node.arguments;
+
+        // Only static specifiers can be resolved ahead of time
+        if (
+          node.callee.type === "Import" &&
+          argument &&
+          argument.type === "StringLiteral"
+        ) {
+          dependencies.push({ kind: "dynamic", ...resolveSource(argument) });
+        }
+      },
+    },
+  });
+}
+
+// Makes a path segment usable as a JavaScript identifier
+function toIdentifier(name: string): string {
+  const identifier = name.replace(/\.[^.]*$/, "").replace(/[^a-zA-Z0-9_$]/g, "");
+  return /^[0-9]/.test(identifier) || !identifier
+    ? `_${identifier}`
+    : identifier;
 }
 
 // Helper to create a placeholder module
-function createPlaceholderModule(componentName: string): string {
+function createPlaceholderModule(
+  componentName: string,
+  namedExports: Iterable<string> = []
+): string {
+  const names = new Set(
+    Array.from(namedExports).filter(
+      (name) =>
+        name !== "default" &&
+        name !== "*" &&
+        name !== componentName &&
+        /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name)
+    )
+  );
+  const aliases = Array.from(names)
+    .map((name) => `${componentName} as ${name}`)
+    .join(", ");
+
   return `
 import React from 'react';
 const ${componentName} = function() {
   return React.createElement('div', {}, null);
 }
 export default ${componentName};
-export { ${componentName} };
+export { ${componentName}${aliases ? `, ${aliases}` : ""} };
 `;
 }
 
@@ -27,45 +213,31 @@ export function transformJSX(
 ): TransformResult {
   try {
     const isTypeScript = filename.endsWith(".ts") || filename.endsWith(".tsx");
-
-    // Pre-process imports to handle missing files
-    let processedCode = code;
-    const importRegex =
-      /import\s+(?:{[^}]+}|[^,\s]+)?\s*(?:,\s*{[^}]+})?\s+from\s+['"]([^'"]+)['"]/g;
-    const imports = new Set<string>();
+    const dependencies: DependencySpecifier[] = [];
     const cssImports = new Set<string>();
 
-    // Detect CSS imports
-    const cssImportRegex = /import\s+['"]([^'"]+\.css)['"]/g;
-    let cssMatch;
-    while ((cssMatch = cssImportRegex.exec(code)) !== null) {
-      cssImports.add(cssMatch[1]);
-    }
-
-    // Remove CSS imports from code
-    processedCode = processedCode.replace(cssImportRegex, '');
-
-    let match;
-    while ((match = importRegex.exec(code)) !== null) {
-      // Skip CSS files from regular imports
-      if (!match[1].endsWith('.css')) {
-        imports.add(match[1]);
-      }
-    }
-
-    const result = Babel.transform(processedCode, {
+    const result = Babel.transform(code, {
       filename,
+      sourceFileName: filename,
+      sourceMaps: "both",
       presets: [
         ["react", { runtime: "automatic" }],
         ...(isTypeScript ? ["typescript"] : []),
       ],
-      plugins: [],
+      plugins: [
+        createDependencyCollector(dependencies, cssImports, (source) =>
+          resolveImportPath(filename, source, existingFiles)
+        ),
+      ],
     });
 
     return {
       code: result.code || "",
-      missingImports: imports,
+      // Babel types the map's version as number rather than 3
+      map: (result.map as EncodedSourceMap | null) ?? undefined,
+      missingImports: new Set(dependencies.map((dep) => dep.source)),
       cssImports: cssImports,
+      dependencies,
     };
   } catch (error) {
     return {
@@ -83,43 +255,84 @@ export function createBlobURL(
   return URL.createObjectURL(blob);
 }
 
+// Sandboxed without allow-same-origin, a preview has an opaque origin and
+// can't load the app's blob URLs, so its modules are inlined instead
+export function createDataURL(
+  code: string,
+  mimeType: string = "application/javascript"
+): string {
+  return `data:${mimeType};charset=utf-8,${encodeURIComponent(code)}`;
+}
+
 export interface ImportMapResult {
   importMap: string;
   styles: string;
   errors: Array<{ path: string; error: string }>;
+  // Module URL of each transformed file mapped back to its virtual path
+  sourceFiles: Record<string, PreviewSource>;
 }
 
-export function createImportMap(files: Map<string, string>): ImportMapResult {
-  const imports: Record<string, string> = {
-    react: "https://esm.sh/react@19",
-    "react-dom": "https://esm.sh/react-dom@19",
-    "react-dom/client": "https://esm.sh/react-dom@19/client",
-    "react/jsx-runtime": "https://esm.sh/react@19/jsx-runtime",
-    "react/jsx-dev-runtime": "https://esm.sh/react@19/jsx-dev-runtime",
-  };
+export function createImportMap(
+  files: Map<string, string>,
+  runtime: PreviewRuntimeMode = getPreviewRuntimeMode(),
+  // For previews sandboxed away from the app's origin
+  isolated = false
+): ImportMapResult {
+  const imports: Record<string, string> = getRuntimeImports(runtime);
+  const createModuleURL = isolated ? createDataURL : createBlobURL;
 
   // Transform each file and create blob URLs
   const transformedFiles = new Map<string, string>();
   const existingFiles = new Set(files.keys());
-  const allImports = new Set<string>();
+  // Local import specifiers mapped to the export names requested from them
+  const allImports = new Map<string, Set<string>>();
   const allCssImports = new Set<{ from: string; cssPath: string }>();
   let collectedStyles = "";
   const errors: Array<{ path: string; error: string }> = [];
 
-  // First pass: transform all files and collect imports
+  const isScript = (path: string) =>
+    path.endsWith(".js") ||
+    path.endsWith(".jsx") ||
+    path.endsWith(".ts") ||
+    path.endsWith(".tsx");
+
+  const transformResults = new Map<string, TransformResult>();
   for (const [path, content] of files) {
-    if (
-      path.endsWith(".js") ||
-      path.endsWith(".jsx") ||
-      path.endsWith(".ts") ||
-      path.endsWith(".tsx")
-    ) {
-      const { code, error, missingImports, cssImports } = transformJSX(
-        content,
-        path,
-        existingFiles
+    if (isScript(path)) {
+      transformResults.set(path, transformJSX(content, path, existingFiles));
+    }
+  }
+
+  // Files that failed to transform can't be imported, so re-transform their
+  // importers with relative imports of them left to placeholder modules
+  const failedFiles = new Set(
+    Array.from(transformResults)
+      .filter(([, result]) => result.error)
+      .map(([path]) => path)
+  );
+  if (failedFiles.size > 0) {
+    const importableFiles = new Set(
+      Array.from(existingFiles).filter((path) => !failedFiles.has(path))
+    );
+    for (const [path, result] of transformResults) {
+      const importsFailedFile = result.dependencies?.some(
+        (dep) => dep.resolved && failedFiles.has(dep.resolved)
       );
-      
+      if (importsFailedFile) {
+        transformResults.set(
+          path,
+          transformJSX(files.get(path)!, path, importableFiles)
+        );
+      }
+    }
+  }
+
+  // First pass: register transformed files and collect imports
+  for (const [path, content] of files) {
+    if (isScript(path)) {
+      const { code, error, dependencies, cssImports } =
+        transformResults.get(path)!;
+
       if (error) {
         // Track error for this file
         errors.push({ path, error });
@@ -128,23 +341,31 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
       }
       
       // Normal successful transform
-      const blobUrl = createBlobURL(code);
+      const blobUrl = createModuleURL(code);
       transformedFiles.set(path, blobUrl);
 
       // Collect all imports
-      if (missingImports) {
-        missingImports.forEach((imp) => {
+      if (dependencies) {
+        dependencies.forEach(({ source: rawSource, resolved, imported }) => {
+          const source = resolved || rawSource;
+
           // Check if this is a third-party package
-          const isPackage = !imp.startsWith(".") && 
-                            !imp.startsWith("/") && 
-                            !imp.startsWith("@/");
-          
+          const isPackage = !source.startsWith(".") &&
+                            !source.startsWith("/") &&
+                            !source.startsWith("@/");
+
           if (isPackage) {
             // Add third-party packages directly to import map
-            imports[imp] = `https://esm.sh/${imp}`;
+            if (!imports[source]) {
+              imports[source] = `https://esm.sh/${source}`;
+            }
           } else {
             // Add local imports to be processed later
-            allImports.add(imp);
+            const names = allImports.get(source) || new Set<string>();
+            if (imported) {
+              names.add(imported);
+            }
+            allImports.set(source, names);
           }
         });
       }
@@ -209,7 +430,7 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
   }
 
   // Second pass: create placeholder modules for missing imports
-  for (const importPath of allImports) {
+  for (const [importPath, importedNames] of allImports) {
     // Skip if it's a known module or already exists
     if (imports[importPath] || importPath.startsWith("react")) {
       continue;
@@ -250,13 +471,14 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
     if (!found) {
       // Extract component name from path
       const match = importPath.match(/\/([^\/]+)$/);
-      const componentName = match
-        ? match[1]
-        : importPath.replace(/[^a-zA-Z0-9]/g, "");
+      const componentName = toIdentifier(match ? match[1] : importPath);
 
-      // Create placeholder module
-      const placeholderCode = createPlaceholderModule(componentName);
-      const placeholderUrl = createBlobURL(placeholderCode);
+      // Create placeholder module exporting every name that was imported
+      const placeholderCode = createPlaceholderModule(
+        componentName,
+        importedNames
+      );
+      const placeholderUrl = createModuleURL(placeholderCode);
 
       // Add all possible import variations
       imports[importPath] = placeholderUrl;
@@ -267,13 +489,43 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
     }
   }
 
+  const sourceFiles: Record<string, PreviewSource> = {};
+  for (const [path, blobUrl] of transformedFiles) {
+    sourceFiles[blobUrl] = { path, map: transformResults.get(path)?.map };
+  }
+
   return {
     importMap: JSON.stringify({ imports }, null, 2),
     styles: collectedStyles,
-    errors
+    errors,
+    sourceFiles,
   };
 }
 
+const RESOLVABLE_EXTENSIONS = [".jsx", ".tsx", ".js", ".ts"];
+
+// Resolves a relative import against the importing file the way a bundler
+// would: exact path, then added extensions, then an index file
+export function resolveImportPath(
+  fromFile: string,
+  specifier: string,
+  existingFiles: Set<string>
+): string | null {
+  if (!specifier.startsWith("./") && !specifier.startsWith("../")) {
+    return null;
+  }
+
+  const fromDir = fromFile.substring(0, fromFile.lastIndexOf("/"));
+  const basePath = resolveRelativePath(fromDir, specifier);
+  const candidates = [
+    basePath,
+    ...RESOLVABLE_EXTENSIONS.map((ext) => basePath + ext),
+    ...RESOLVABLE_EXTENSIONS.map((ext) => basePath + "/index" + ext),
+  ];
+
+  return candidates.find((candidate) => existingFiles.has(candidate)) || null;
+}
+
 // Helper function to resolve relative paths
 function resolveRelativePath(fromDir: string, relativePath: string): string {
   const parts = fromDir.split("/").filter(Boolean);
@@ -294,7 +546,8 @@ export function createPreviewHTML(
   entryPoint: string,
   importMap: string,
   styles: string = "",
-  errors: Array<{ path: string; error: string }> = []
+  errors: Array<{ path: string; error: string }> = [],
+  runtime: PreviewRuntimeMode = getPreviewRuntimeMode()
 ): string {
   // Parse the import map to get the blob URL for the entry point
   let entryPointUrl = entryPoint;
@@ -313,7 +566,10 @@ export function createPreviewHTML(
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Preview</title>
-  <script src="https://cdn.tailwindcss.com"></script>
+  <script>
+    ${createBridgeScript()}
+  </script>
+  <script src="${getTailwindScriptUrl(runtime)}"></script>
   <style>
     body {
       margin: 0;
@@ -325,6 +581,7 @@ export function createPreviewHTML(
       height: 100vh;
     }
     .error-boundary {
+      cursor: pointer;
       color: red;
       padding: 1rem;
       border: 2px solid red;
@@ -352,6 +609,7 @@ export function createPreviewHTML(
       gap: 8px;
     }
     .syntax-errors .error-item {
+      cursor: pointer;
       margin: 16px 0;
       padding: 16px;
       background: #fff;
@@ -397,12 +655,16 @@ export function createPreviewHTML(
         Syntax Error${errors.length > 1 ? 's' : ''} (${errors.length})
       </h3>
       ${errors.map(e => {
-        const locationMatch = e.error.match(/\((\d+:\d+)\)/);
-        const location = locationMatch ? locationMatch[1] : '';
+        const locationMatch = e.error.match(/\((\d+):(\d+)\)/);
+        const location = locationMatch ? `${locationMatch[1]}:${locationMatch[2]}` : '';
         const cleanError = e.error.replace(/\(\d+:\d+\)/, '').trim();
+        // Babel reports 0-based columns
+        const position = locationMatch
+          ? ` data-preview-line="${locationMatch[1]}" data-preview-column="${Number(locationMatch[2]) + 1}"`
+          : '';
         
         return `
-        <div class="error-item">
+        <div class="error-item" title="Open in editor" data-preview-file="${e.path.replace(/"/g, '&quot;')}"${position}>
           <div class="error-path">
             ${e.path}
             ${location ? `<span class="error-location">${location}</span>` : ''}
@@ -429,12 +691,16 @@ export function createPreviewHTML(
       }
 
       componentDidCatch(error, errorInfo) {
-        console.error('Error caught by boundary:', error, errorInfo);
+        window.__previewBridge.reportBoundaryError(error, errorInfo);
       }
 
       render() {
         if (this.state.hasError) {
-          return React.createElement('div', { className: 'error-boundary' },
+          return React.createElement('div', {
+              className: 'error-boundary',
+              title: 'Open in editor',
+              'data-preview-stack': this.state.error?.stack || '',
+            },
             React.createElement('h2', null, 'Something went wrong'),
             React.createElement('pre', null, this.state.error?.toString())
           );
@@ -453,7 +719,10 @@ export function createPreviewHTML(
           throw new Error('No default export or App export found in ${entryPoint}');
         }
 
-        const root = ReactDOM.createRoot(document.getElementById('root'));
+        // The ErrorBoundary reports caught errors itself
+        const root = ReactDOM.createRoot(document.getElementById('root'), {
+          onCaughtError: () => {},
+        });
         root.render(
           React.createElement(ErrorBoundary, null,
             React.createElement(App)
@@ -0,0 +1,283 @@
+import {
+  TraceMap,
+  originalPositionFor,
+  type EncodedSourceMap,
+} from "@jridgewell/trace-mapping";
+
+export const PREVIEW_MESSAGE_SOURCE = "uigen-preview";
+
+export type PreviewLogLevel = "log" | "info" | "warn" | "error" | "debug";
+
+export type PreviewMessageKind =
+  | "console"
+  | "error"
+  | "unhandledrejection"
+  | "boundary";
+
+// Posted by the bridge script from inside the preview iframe
+export interface PreviewBridgeMessage {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+  kind: PreviewMessageKind;
+  level: PreviewLogLevel;
+  message: string;
+  stack?: string;
+}
+
+// Sent when an error in the preview overlay is clicked
+export interface PreviewNavigateMessage {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+  kind: "navigate";
+  stack?: string;
+  location?: SourceLocation;
+}
+
+// Lines and columns are 1-based, as in stack traces and the editor
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// A transformed file loaded into the preview from a blob URL
+export interface PreviewSource {
+  path: string;
+  map?: EncodedSourceMap;
+}
+
+export interface PreviewLogEntry {
+  id: number;
+  kind: PreviewMessageKind;
+  level: PreviewLogLevel;
+  message: string;
+  stack?: string;
+  location?: SourceLocation;
+  timestamp: number;
+}
+
+// The subset of an error entry that is sent to /api/chat
+export type PreviewError = Pick<PreviewLogEntry, "message" | "stack" | "location">;
+
+// Runtime and transform errors, as opposed to console.error calls made by
+// the user's own code
+export function getPreviewErrors(entries: PreviewLogEntry[]): PreviewError[] {
+  return entries
+    .filter((entry) => entry.level === "error" && entry.kind !== "console")
+    .map(({ message, stack, location }) => ({ message, stack, location }));
+}
+
+export function formatPreviewError({
+  message,
+  stack,
+  location,
+}: PreviewError): string {
+  const lines = [message];
+  if (location) {
+    lines.push(`  at ${location.file}:${location.line}:${location.column}`);
+  }
+  if (stack) {
+    lines.push(stack);
+  }
+  return lines.join("\n");
+}
+
+export function isPreviewBridgeMessage(
+  data: unknown
+): data is PreviewBridgeMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as PreviewBridgeMessage).source === PREVIEW_MESSAGE_SOURCE &&
+    typeof (data as PreviewBridgeMessage).message === "string"
+  );
+}
+
+export function isPreviewNavigateMessage(
+  data: unknown
+): data is PreviewNavigateMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as PreviewNavigateMessage).source === PREVIEW_MESSAGE_SOURCE &&
+    (data as PreviewNavigateMessage).kind === "navigate"
+  );
+}
+
+const FRAME_PATTERN = /(blob:[^\s)]+?):(\d+):(\d+)/g;
+
+// Decoded lazily and kept for as long as the preview holds on to the map
+const traceMaps = new WeakMap<EncodedSourceMap, TraceMap>();
+
+function getTraceMap(map: EncodedSourceMap): TraceMap {
+  let traceMap = traceMaps.get(map);
+  if (!traceMap) {
+    traceMap = new TraceMap(map);
+    traceMaps.set(map, traceMap);
+  }
+  return traceMap;
+}
+
+// Maps a position in a transformed file back to the virtual file it came
+// from, keeping the generated position when the map has no segment for it
+function toOriginalLocation(
+  source: PreviewSource,
+  line: number,
+  column: number
+): SourceLocation {
+  if (source.map) {
+    const original = originalPositionFor(getTraceMap(source.map), {
+      line,
+      column: column - 1,
+    });
+    if (original.line !== null) {
+      return {
+        file: source.path,
+        line: original.line,
+        column: original.column + 1,
+      };
+    }
+  }
+  return { file: source.path, line, column };
+}
+
+// Rewrites blob URL frames in a stack or message to virtual file positions
+export function mapStackTrace<T extends string | undefined>(
+  stack: T,
+  sourceFiles: Record<string, PreviewSource>
+): T {
+  if (!stack) return stack;
+
+  return stack.replace(FRAME_PATTERN, (frame, url, line, column) => {
+    const source = sourceFiles[url];
+    if (!source) return frame;
+
+    const location = toOriginalLocation(source, Number(line), Number(column));
+    return `${location.file}:${location.line}:${location.column}`;
+  }) as T;
+}
+
+// Finds the first stack frame that belongs to a virtual file. Frames point at
+// the blob URL each file was loaded from, so sourceFiles maps those back.
+export function locateSource(
+  stack: string | undefined,
+  sourceFiles: Record<string, PreviewSource>
+): SourceLocation | undefined {
+  if (!stack) return undefined;
+
+  for (const match of stack.matchAll(FRAME_PATTERN)) {
+    const source = sourceFiles[match[1]];
+    if (source) {
+      return toOriginalLocation(source, Number(match[2]), Number(match[3]));
+    }
+  }
+  return undefined;
+}
+
+// Runs first inside the preview document and forwards console output and
+// runtime errors to the parent window. Kept as plain ES5 because it is
+// injected verbatim into srcdoc.
+export function createBridgeScript(): string {
+  return `(function () {
+  var SOURCE = ${JSON.stringify(PREVIEW_MESSAGE_SOURCE)};
+
+  function format(value) {
+    if (typeof value === "string") return value;
+    if (value instanceof Error) return value.name + ": " + value.message;
+    if (value === undefined || typeof value === "function") return String(value);
+    try {
+      var seen = [];
+      return JSON.stringify(value, function (key, val) {
+        if (typeof val === "object" && val !== null) {
+          if (seen.indexOf(val) !== -1) return "[Circular]";
+          seen.push(val);
+        }
+        if (typeof val === "function") return "[Function " + (val.name || "anonymous") + "]";
+        return val;
+      });
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  function send(kind, level, message, stack) {
+    try {
+      window.parent.postMessage(
+        { source: SOURCE, kind: kind, level: level, message: message, stack: stack },
+        "*"
+      );
+    } catch (e) {}
+  }
+
+  ["log", "info", "warn", "error", "debug"].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      var error = args.filter(function (arg) { return arg instanceof Error; })[0];
+      send("console", level, args.map(format).join(" "), error && error.stack);
+      return original.apply(console, arguments);
+    };
+  });
+
+  window.addEventListener("error", function (event) {
+    var error = event.error;
+    send(
+      "error",
+      "error",
+      error instanceof Error ? format(error) : event.message,
+      error && error.stack
+        ? error.stack
+        : event.filename
+        ? "at " + event.filename + ":" + event.lineno + ":" + event.colno
+        : undefined
+    );
+  });
+
+  window.addEventListener("unhandledrejection", function (event) {
+    var reason = event.reason;
+    send(
+      "unhandledrejection",
+      "error",
+      "Unhandled promise rejection: " + format(reason),
+      reason && reason.stack
+    );
+  });
+
+  function navigate(stack, location) {
+    try {
+      window.parent.postMessage(
+        { source: SOURCE, kind: "navigate", stack: stack, location: location },
+        "*"
+      );
+    } catch (e) {}
+  }
+
+  // Overlay elements carry either a stack or an explicit file position
+  document.addEventListener("click", function (event) {
+    var target = event.target && event.target.closest
+      ? event.target.closest("[data-preview-stack], [data-preview-file]")
+      : null;
+    if (!target) return;
+
+    if (target.hasAttribute("data-preview-file")) {
+      navigate(undefined, {
+        file: target.getAttribute("data-preview-file"),
+        line: Number(target.getAttribute("data-preview-line")) || 1,
+        column: Number(target.getAttribute("data-preview-column")) || 1,
+      });
+    } else {
+      navigate(target.getAttribute("data-preview-stack"));
+    }
+  });
+
+  window.__previewBridge = {
+    reportBoundaryError: function (error, errorInfo) {
+      send(
+        "boundary",
+        "error",
+        format(error),
+        ((error && error.stack) || "") +
+          (errorInfo && errorInfo.componentStack ? "\\n" + errorInfo.componentStack : "")
+      );
+    },
+  };
+})();`;
+}
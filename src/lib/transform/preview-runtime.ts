@@ -0,0 +1,56 @@
+export type PreviewRuntimeMode = "cdn" | "local";
+
+// Served by src/app/api/preview-runtime so the preview works without network
+export const LOCAL_RUNTIME_BASE = "/api/preview-runtime";
+
+// Modules the preview document itself depends on
+export const RUNTIME_MODULES = [
+  "react",
+  "react-dom",
+  "react-dom/client",
+  "react/jsx-runtime",
+  "react/jsx-dev-runtime",
+] as const;
+
+const CDN_IMPORTS: Record<string, string> = {
+  react: "https://esm.sh/react@19",
+  "react-dom": "https://esm.sh/react-dom@19",
+  "react-dom/client": "https://esm.sh/react-dom@19/client",
+  "react/jsx-runtime": "https://esm.sh/react@19/jsx-runtime",
+  "react/jsx-dev-runtime": "https://esm.sh/react@19/jsx-dev-runtime",
+};
+
+// NEXT_PUBLIC_PREVIEW_RUNTIME=local switches the preview to vendored modules
+export function getPreviewRuntimeMode(): PreviewRuntimeMode {
+  return process.env.NEXT_PUBLIC_PREVIEW_RUNTIME === "local" ? "local" : "cdn";
+}
+
+export function getRuntimeImports(
+  mode: PreviewRuntimeMode = getPreviewRuntimeMode()
+): Record<string, string> {
+  if (mode === "cdn") {
+    return { ...CDN_IMPORTS };
+  }
+
+  const imports: Record<string, string> = {
+    // react-dom/client depends on scheduler, which must resolve locally too
+    scheduler: `${LOCAL_RUNTIME_BASE}/scheduler.js`,
+  };
+  for (const specifier of RUNTIME_MODULES) {
+    imports[specifier] = `${LOCAL_RUNTIME_BASE}/${specifier}.js`;
+  }
+  return imports;
+}
+
+// Both modes load the Tailwind v4 browser build, the one vendored from
+// @tailwindcss/browser, so classes render the same either way
+export const TAILWIND_CDN_URL =
+  "https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4";
+
+export function getTailwindScriptUrl(
+  mode: PreviewRuntimeMode = getPreviewRuntimeMode()
+): string {
+  return mode === "local"
+    ? `${LOCAL_RUNTIME_BASE}/tailwind.js`
+    : TAILWIND_CDN_URL;
+}
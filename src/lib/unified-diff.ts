@@ -0,0 +1,163 @@
+export interface PatchLine {
+  type: "context" | "removed" | "added";
+  text: string;
+}
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  lines: PatchLine[];
+}
+
+export interface FilePatch {
+  // null when the file is created or deleted (/dev/null)
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export type HunkResult =
+  | { content: string }
+  | { failedHunk: number; reason: string };
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+// "a/components/Card.jsx", "/components/Card.jsx" and
+// "components/Card.jsx\t2024-01-01" all name /components/Card.jsx
+function parsePatchPath(header: string): string | null {
+  const path = header.slice(4).split("\t")[0].trim();
+  if (path === "/dev/null") {
+    return null;
+  }
+  return "/" + path.replace(/^[ab]\//, "").replace(/^\/+/, "");
+}
+
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  const filePatches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+
+  const closeHunk = () => {
+    // Models often leave blank lines after the last hunk; trailing context
+    // isn't needed to place a hunk, so drop it rather than fail to match
+    while (
+      hunk &&
+      hunk.lines.length > 0 &&
+      hunk.lines[hunk.lines.length - 1].type === "context" &&
+      hunk.lines[hunk.lines.length - 1].text === ""
+    ) {
+      hunk.lines.pop();
+    }
+    hunk = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      closeHunk();
+      current = {
+        oldPath: parsePatchPath(line),
+        newPath: parsePatchPath(lines[i + 1]),
+        hunks: [],
+      };
+      filePatches.push(current);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("@@")) {
+      closeHunk();
+      const match = line.match(HUNK_HEADER);
+      if (!current || !match) {
+        throw new Error(`Invalid hunk header: ${line}`);
+      }
+      hunk = { header: line, oldStart: Number(match[1]), lines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      // "diff --git", "index" and similar metadata lines
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file"
+      continue;
+    } else if (line.startsWith("+")) {
+      hunk.lines.push({ type: "added", text: line.slice(1) });
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ type: "removed", text: line.slice(1) });
+    } else if (line.startsWith(" ") || line === "") {
+      hunk.lines.push({ type: "context", text: line.slice(1) });
+    } else {
+      closeHunk();
+    }
+  }
+  closeHunk();
+
+  return filePatches;
+}
+
+function matchesAt(lines: string[], expected: string[], index: number) {
+  return expected.every((line, offset) => lines[index + offset] === line);
+}
+
+// Applies hunks in order. Each hunk is placed at its stated line if the
+// context matches there, otherwise at the nearest position where it does.
+export function applyHunks(content: string, hunks: PatchHunk[]): HunkResult {
+  const lines = content === "" ? [] : content.split("\n");
+  // How far earlier hunks have shifted line numbers
+  let lineDelta = 0;
+  // Hunks may not overlap text that an earlier hunk produced
+  let minIndex = 0;
+
+  for (let h = 0; h < hunks.length; h++) {
+    const hunk = hunks[h];
+    const oldLines = hunk.lines
+      .filter((line) => line.type !== "added")
+      .map((line) => line.text);
+    const newLines = hunk.lines
+      .filter((line) => line.type !== "removed")
+      .map((line) => line.text);
+
+    const expected = Math.max(
+      minIndex,
+      Math.min(lines.length, hunk.oldStart - 1 + lineDelta)
+    );
+
+    let index = -1;
+    if (oldLines.length === 0) {
+      index = expected;
+    } else {
+      const maxIndex = lines.length - oldLines.length;
+      for (let distance = 0; index === -1; distance++) {
+        const before = expected - distance;
+        const after = expected + distance;
+        if (before < minIndex && after > maxIndex) {
+          break;
+        }
+        if (after <= maxIndex && matchesAt(lines, oldLines, after)) {
+          index = after;
+        } else if (before >= minIndex && matchesAt(lines, oldLines, before)) {
+          index = before;
+        }
+      }
+    }
+
+    if (index === -1) {
+      return {
+        failedHunk: h,
+        reason: "the context and removed lines do not match the file",
+      };
+    }
+
+    lines.splice(index, oldLines.length, ...newLines);
+    lineDelta += newLines.length - oldLines.length;
+    minIndex = index + newLines.length;
+  }
+
+  return { content: lines.join("\n") };
+}
@@ -0,0 +1,98 @@
+import "server-only";
+import { readFile } from "fs/promises";
+import path from "path";
+
+// CommonJS production builds wrapped as ES modules for the offline preview,
+// keyed by the specifier the preview imports them with
+const VENDORED_MODULES: Record<string, string> = {
+  react: "react/cjs/react.production.js",
+  "react/jsx-runtime": "react/cjs/react-jsx-runtime.production.js",
+  "react/jsx-dev-runtime": "react/cjs/react-jsx-dev-runtime.production.js",
+  "react-dom": "react-dom/cjs/react-dom.production.js",
+  "react-dom/client": "react-dom/cjs/react-dom-client.production.js",
+  scheduler: "scheduler/cjs/scheduler.production.js",
+};
+
+const TAILWIND_BROWSER = "@tailwindcss/browser/dist/index.global.js";
+
+const sourceCache = new Map<string, string>();
+const exportsCache = new Map<string, Record<string, unknown>>();
+
+async function readPackageFile(file: string): Promise<string> {
+  let source = sourceCache.get(file);
+  if (source === undefined) {
+    source = await readFile(
+      path.join(process.cwd(), "node_modules", file),
+      "utf-8"
+    );
+    sourceCache.set(file, source);
+  }
+  return source;
+}
+
+function getRequiredModules(source: string): string[] {
+  const required = new Set<string>();
+  for (const match of source.matchAll(/require\("([^"]+)"\)/g)) {
+    required.add(match[1]);
+  }
+  return Array.from(required);
+}
+
+// Evaluates a vendored module to learn its export names, since ES modules
+// need their named exports declared statically
+async function evaluateModule(
+  specifier: string
+): Promise<Record<string, unknown>> {
+  const cached = exportsCache.get(specifier);
+  if (cached) return cached;
+
+  const source = await readPackageFile(VENDORED_MODULES[specifier]);
+  const dependencies: Record<string, Record<string, unknown>> = {};
+  for (const dependency of getRequiredModules(source)) {
+    dependencies[dependency] = await evaluateModule(dependency);
+  }
+
+  const cjsModule = { exports: {} as Record<string, unknown> };
+  new Function("module", "exports", "require", "process", source)(
+    cjsModule,
+    cjsModule.exports,
+    (id: string) => dependencies[id],
+    { env: { NODE_ENV: "production" } }
+  );
+
+  exportsCache.set(specifier, cjsModule.exports);
+  return cjsModule.exports;
+}
+
+export function isVendoredModule(specifier: string): boolean {
+  return Object.prototype.hasOwnProperty.call(VENDORED_MODULES, specifier);
+}
+
+export async function buildVendoredModule(specifier: string): Promise<string> {
+  const source = await readPackageFile(VENDORED_MODULES[specifier]);
+  const dependencies = getRequiredModules(source);
+  const exportNames = Object.keys(await evaluateModule(specifier)).filter(
+    (name) => /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name)
+  );
+
+  return `${dependencies
+    .map((dependency, i) => `import __dep${i} from ${JSON.stringify(dependency)};`)
+    .join("\n")}
+const __deps = {${dependencies
+    .map((dependency, i) => `${JSON.stringify(dependency)}: __dep${i}`)
+    .join(", ")}};
+const module = { exports: {} };
+(function (module, exports, require, process) {
+${source}
+})(module, module.exports, (id) => __deps[id], { env: { NODE_ENV: "production" } });
+const __exports = module.exports;
+export default __exports;
+${exportNames
+  .map((name) => `export const ${name} = __exports.${name};`)
+  .join("\n")}
+`;
+}
+
+export async function readTailwindRuntime(): Promise<string> {
+  return readPackageFile(TAILWIND_BROWSER);
+}
@@ -0,0 +1,112 @@
+import type { FileNode } from "@/lib/file-system";
+
+export interface LineChange {
+  type: "added" | "removed" | "unchanged";
+  line: string;
+}
+
+export interface FileDiff {
+  path: string;
+  status: "added" | "removed" | "modified";
+  additions: number;
+  deletions: number;
+  lines: LineChange[];
+}
+
+// Above this many line pairs we skip the LCS table and show a full rewrite
+const MAX_LCS_CELLS = 1_000_000;
+
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((line) => ({ type: "removed" as const, line })),
+      ...b.map((line) => ({ type: "added" as const, line })),
+    ];
+  }
+
+  // lcs[i][j] holds the LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: "unchanged", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: "removed", line: a[i] });
+      i++;
+    } else {
+      changes.push({ type: "added", line: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) {
+    changes.push({ type: "removed", line: a[i++] });
+  }
+  while (j < b.length) {
+    changes.push({ type: "added", line: b[j++] });
+  }
+
+  return changes;
+}
+
+function collectFiles(snapshot: Record<string, FileNode>): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const [path, node] of Object.entries(snapshot)) {
+    if (node.type === "file") {
+      files.set(path, node.content || "");
+    }
+  }
+  return files;
+}
+
+export function diffSnapshots(
+  before: Record<string, FileNode>,
+  after: Record<string, FileNode>
+): FileDiff[] {
+  const beforeFiles = collectFiles(before);
+  const afterFiles = collectFiles(after);
+  const paths = new Set([...beforeFiles.keys(), ...afterFiles.keys()]);
+  const diffs: FileDiff[] = [];
+
+  for (const path of Array.from(paths).sort()) {
+    const oldContent = beforeFiles.get(path);
+    const newContent = afterFiles.get(path);
+
+    if (oldContent === newContent) {
+      continue;
+    }
+
+    const lines = diffLines(oldContent ?? "", newContent ?? "");
+    diffs.push({
+      path,
+      status:
+        oldContent === undefined
+          ? "added"
+          : newContent === undefined
+          ? "removed"
+          : "modified",
+      additions: lines.filter((l) => l.type === "added").length,
+      deletions: lines.filter((l) => l.type === "removed").length,
+      lines,
+    });
+  }
+
+  return diffs;
+}
@@ -0,0 +1,256 @@
+import { strToU8, zipSync } from "fflate";
+import { transformJSX } from "@/lib/transform/jsx-transformer";
+
+// Versions written to package.json for packages every export needs, matching
+// the react@19 the preview loads. Other packages get the version their import
+// pins, as in "framer-motion@11", or "latest" like the preview's unpinned URLs
+const BASE_DEPENDENCIES: Record<string, string> = {
+  react: "^19.0.0",
+  "react-dom": "^19.0.0",
+};
+
+// Tailwind v4, the version the preview renders with
+const DEV_DEPENDENCIES: Record<string, string> = {
+  "@tailwindcss/vite": "^4.1.0",
+  "@vitejs/plugin-react": "^4.3.4",
+  tailwindcss: "^4.1.0",
+  vite: "^6.0.7",
+};
+
+const ENTRY_CANDIDATES = ["/App.jsx", "/App.tsx", "/index.jsx", "/index.tsx"];
+
+const SCRIPT_EXTENSIONS = [".jsx", ".js", ".tsx", ".ts"];
+
+function isScript(path: string): boolean {
+  return /\.(jsx?|tsx?)$/.test(path);
+}
+
+// "lodash/debounce" -> "lodash", "@radix-ui/react-tabs/dist" -> "@radix-ui/react-tabs",
+// "framer-motion@11" -> "framer-motion@11"
+function getPackageSpecifier(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+// "framer-motion@11" -> ["framer-motion", "11"]; the @ of a scope isn't a version
+function splitVersion(packageSpecifier: string): [string, string | null] {
+  const at = packageSpecifier.lastIndexOf("@");
+  return at > 0
+    ? [packageSpecifier.slice(0, at), packageSpecifier.slice(at + 1)]
+    : [packageSpecifier, null];
+}
+
+function isBareImport(specifier: string): boolean {
+  return (
+    !specifier.startsWith(".") &&
+    !specifier.startsWith("/") &&
+    !specifier.startsWith("@/") &&
+    !/^[a-z]+:/i.test(specifier)
+  );
+}
+
+// The preview's import map also answers "components/Button" with
+// /components/Button.jsx, so such imports aren't packages
+function isProjectFile(specifier: string, existingFiles: Set<string>): boolean {
+  const path = `/${specifier}`;
+  return (
+    existingFiles.has(path) ||
+    SCRIPT_EXTENSIONS.some((extension) => existingFiles.has(path + extension))
+  );
+}
+
+export interface ProjectImports {
+  // Package name -> the version its imports pin, or null when they don't
+  packages: Record<string, string | null>;
+  // Pinned specifiers such as "framer-motion@11", which Vite has to alias to
+  // the installed package
+  pinned: string[];
+  // First segment of project files imported like packages, "components" for
+  // "components/Button"
+  projectRoots: string[];
+}
+
+// Bare imports anywhere in the project, sorted out the same way the preview
+// builds its import map
+export function collectPackageImports(files: Map<string, string>): ProjectImports {
+  const existingFiles = new Set(files.keys());
+  const packages: Record<string, string | null> = {};
+  const pinned = new Set<string>();
+  const projectRoots = new Set<string>();
+
+  for (const [path, content] of files) {
+    if (!isScript(path)) continue;
+
+    const { dependencies = [] } = transformJSX(content, path, existingFiles);
+    for (const { source, resolved } of dependencies) {
+      if (resolved || !isBareImport(source)) continue;
+
+      if (isProjectFile(source, existingFiles)) {
+        projectRoots.add(source.split("/")[0]);
+        continue;
+      }
+
+      const specifier = getPackageSpecifier(source);
+      const [name, version] = splitVersion(specifier);
+      if (version) {
+        pinned.add(specifier);
+        packages[name] = version;
+      } else {
+        packages[name] ??= null;
+      }
+    }
+  }
+
+  return {
+    packages: Object.fromEntries(
+      Object.entries(packages).sort(([a], [b]) => (a < b ? -1 : 1))
+    ),
+    pinned: Array.from(pinned).sort(),
+    projectRoots: Array.from(projectRoots).sort(),
+  };
+}
+
+function toPackageName(projectName: string): string {
+  return (
+    projectName
+      .toLowerCase()
+      .replace(/[^a-z0-9-~]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "uigen-project"
+  );
+}
+
+// Generated files go next to the project's own, so pick a name it isn't using
+function freePath(preferred: string, taken: Set<string>): string {
+  if (!taken.has(preferred)) return preferred;
+  const extension = preferred.slice(preferred.lastIndexOf("."));
+  const base = preferred.slice(0, -extension.length);
+  let index = 2;
+  while (taken.has(`${base}-${index}${extension}`)) index++;
+  return `${base}-${index}${extension}`;
+}
+
+// Lays the virtual files out as a Vite project: project files under src/,
+// with "@/" aliased to it, plus the config a fresh Vite + Tailwind app needs
+export function buildViteProject(
+  files: Map<string, string>,
+  projectName: string
+): Record<string, string> {
+  const entry =
+    ENTRY_CANDIDATES.find((path) => files.has(path)) ||
+    Array.from(files.keys()).find(isScript);
+  if (!entry) {
+    throw new Error("The project has no component to export");
+  }
+
+  const output: Record<string, string> = {};
+  for (const [path, content] of files) {
+    output[`src${path}`] = content;
+  }
+
+  const taken = new Set(Object.keys(output));
+  const mainPath = freePath("src/main.jsx", taken);
+  const cssPath = freePath("src/tailwind.css", taken);
+
+  const { packages, pinned, projectRoots } = collectPackageImports(files);
+  const dependencies = { ...BASE_DEPENDENCIES };
+  for (const [name, version] of Object.entries(packages)) {
+    dependencies[name] ??= version ?? "latest";
+  }
+
+  const aliases = [
+    `"@": path.resolve(root, "src"),`,
+    ...projectRoots.map(
+      (segment) =>
+        `${JSON.stringify(segment)}: path.resolve(root, ${JSON.stringify(`src/${segment}`)}),`
+    ),
+    ...pinned.map(
+      (specifier) =>
+        `${JSON.stringify(specifier)}: ${JSON.stringify(splitVersion(specifier)[0])},`
+    ),
+  ];
+
+  output["package.json"] =
+    JSON.stringify(
+      {
+        name: toPackageName(projectName),
+        private: true,
+        version: "0.0.0",
+        type: "module",
+        scripts: {
+          dev: "vite",
+          build: "vite build",
+          preview: "vite preview",
+        },
+        dependencies,
+        devDependencies: DEV_DEPENDENCIES,
+      },
+      null,
+      2
+    ) + "\n";
+
+  output["vite.config.js"] = `import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import tailwindcss from "@tailwindcss/vite";
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  plugins: [react(), tailwindcss()],
+  resolve: {
+    alias: {
+${aliases.map((alias) => `      ${alias}`).join("\n")}
+    },
+  },
+});
+`;
+
+  output["index.html"] = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName.replace(/&/g, "&amp;").replace(/</g, "&lt;")}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/${mainPath}"></script>
+  </body>
+</html>
+`;
+
+  output[cssPath] = `@import "tailwindcss";
+`;
+
+  output[mainPath] = `import React from "react";
+import ReactDOM from "react-dom/client";
+import App from "./${entry.slice(1)}";
+import "./${cssPath.slice("src/".length)}";
+
+ReactDOM.createRoot(document.getElementById("root")).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`;
+
+  return output;
+}
+
+export function createViteProjectZip(
+  files: Map<string, string>,
+  projectName: string
+): Uint8Array {
+  const project = buildViteProject(files, projectName);
+  const folder = toPackageName(projectName);
+
+  return zipSync(
+    Object.fromEntries(
+      Object.entries(project).map(([path, content]) => [
+        `${folder}/${path}`,
+        strToU8(content),
+      ])
+    )
+  );
+}